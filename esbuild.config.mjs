@@ -14,6 +14,10 @@ const common = {
   logLevel: 'info'
 };
 
+// jsdom (folder export sanitizing) require.resolve()s its sync XHR worker when it loads, so the
+// file has to sit next to the bundle even though exports never run it.
+const JSDOM_XHR_WORKER = './xhr-sync-worker.js';
+
 const copyStatic = () => {
   const srcAssets = resolve(projectRoot, 'src/webview-ui/assets');
   const dstAssets = resolve(projectRoot, 'dist/webview-ui/assets');
@@ -21,6 +25,10 @@ const copyStatic = () => {
   if (existsSync(srcAssets)) {
     cpSync(srcAssets, dstAssets, { recursive: true });
   }
+  cpSync(
+    resolve(projectRoot, 'node_modules/jsdom/lib/jsdom/living/xhr/xhr-sync-worker.js'),
+    resolve(projectRoot, 'dist/extension/xhr-sync-worker.js')
+  );
 };
 
 async function run() {
@@ -28,7 +36,7 @@ async function run() {
     ...common,
     entryPoints: [resolve(projectRoot, 'src/extension/activate.ts')],
     outfile: resolve(projectRoot, 'dist/extension/activate.js'),
-    external: ['vscode']
+    external: ['vscode', JSDOM_XHR_WORKER]
   };
 
   const webConfig = {
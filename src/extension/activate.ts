@@ -1,15 +1,24 @@
-import type * as vscode from 'vscode';
+import * as vscode from 'vscode';
 
+import { registerBacklinksView } from './backlinksView';
 import { registerCommands } from './commands';
-import { PreviewController } from './preview/PreviewPanel';
+import { registerLinkDiagnostics } from './linkDiagnostics';
+import { registerOutlineView } from './outlineView';
+import { PREVIEW_VIEW_TYPE, PreviewController } from './preview/PreviewPanel';
 
 let controller: PreviewController | undefined;
 
 export function activate(context: vscode.ExtensionContext): void {
   controller = new PreviewController(context);
-  context.subscriptions.push(controller);
+  context.subscriptions.push(
+    controller,
+    vscode.window.registerWebviewPanelSerializer(PREVIEW_VIEW_TYPE, controller)
+  );
 
   registerCommands(context, controller);
+  registerOutlineView(context, controller);
+  registerBacklinksView(context, controller);
+  registerLinkDiagnostics(context, controller);
 }
 
 export function deactivate(): void {
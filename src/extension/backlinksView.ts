@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+
+import type { PreviewController } from './preview/PreviewPanel';
+import type { Backlink } from './workspaceIndex';
+
+export const BACKLINKS_VIEW_ID = 'offlineMarkdownViewer.backlinks';
+
+interface BacklinkSourceNode {
+  source: vscode.Uri;
+  backlinks: Backlink[];
+}
+
+type BacklinkNode = BacklinkSourceNode | Backlink;
+
+// Documents linking to the active preview's document, grouped by file, one child per linking line.
+export class BacklinksProvider
+  implements vscode.TreeDataProvider<BacklinkNode>, vscode.Disposable
+{
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<
+    BacklinkNode | undefined
+  >();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+  private target: vscode.Uri | undefined;
+  private sources: BacklinkSourceNode[] = [];
+  private loading: Promise<void> | undefined;
+
+  constructor(private readonly controller: PreviewController) {}
+
+  setTarget(target: vscode.Uri | undefined): void {
+    if (target?.toString() === this.target?.toString()) return;
+    this.target = target;
+    this.refresh();
+  }
+
+  refresh(): void {
+    this.loading = undefined;
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  getTreeItem(element: BacklinkNode): vscode.TreeItem {
+    if ('backlinks' in element) {
+      const item = new vscode.TreeItem(
+        element.source,
+        vscode.TreeItemCollapsibleState.Expanded
+      );
+      item.description = vscode.workspace.asRelativePath(element.source, false);
+      item.tooltip = item.description;
+      return item;
+    }
+    const item = new vscode.TreeItem(element.text);
+    item.description = `L${element.line + 1}`;
+    item.tooltip = element.text;
+    item.command = {
+      command: 'vscode.open',
+      title: 'Open Backlink',
+      arguments: [
+        element.source,
+        {
+          selection: new vscode.Range(element.line, 0, element.line, 0)
+        } satisfies vscode.TextDocumentShowOptions
+      ]
+    };
+    return item;
+  }
+
+  async getChildren(element?: BacklinkNode): Promise<BacklinkNode[]> {
+    if (element) return 'backlinks' in element ? element.backlinks : [];
+    this.loading ??= this.load();
+    await this.loading;
+    return this.sources;
+  }
+
+  private async load(): Promise<void> {
+    const target = this.target;
+    if (!target) {
+      this.sources = [];
+      return;
+    }
+    await this.controller.workspaceIndex.ready();
+    const bySource = new Map<string, BacklinkSourceNode>();
+    for (const backlink of this.controller.workspaceIndex.getBacklinks(
+      target
+    )) {
+      const key = backlink.source.toString();
+      const node = bySource.get(key) ?? {
+        source: backlink.source,
+        backlinks: []
+      };
+      node.backlinks.push(backlink);
+      bySource.set(key, node);
+    }
+    this.sources = [...bySource.values()];
+  }
+
+  dispose(): void {
+    this._onDidChangeTreeData.dispose();
+  }
+}
+
+export function registerBacklinksView(
+  context: vscode.ExtensionContext,
+  controller: PreviewController
+): vscode.TreeView<BacklinkNode> {
+  const provider = new BacklinksProvider(controller);
+  provider.setTarget(controller.getActiveDocumentUri());
+  const view = vscode.window.createTreeView(BACKLINKS_VIEW_ID, {
+    treeDataProvider: provider
+  });
+
+  context.subscriptions.push(
+    view,
+    provider,
+    controller.onActiveDocumentChanged((uri) => provider.setTarget(uri)),
+    controller.workspaceIndex.onDidChangeLinks(() => provider.refresh())
+  );
+
+  return view;
+}
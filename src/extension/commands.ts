@@ -13,16 +13,49 @@ export function registerCommands(
       'offlineMarkdownViewer.openPreviewToSide',
       () => controller.openPreview(true)
     ],
+    ['offlineMarkdownViewer.lockPreview', () => controller.lockPreview()],
+    ['offlineMarkdownViewer.unlockPreview', () => controller.unlockPreview()],
     ['offlineMarkdownViewer.exportHtml', () => controller.exportHtml()],
     ['offlineMarkdownViewer.exportPdf', () => controller.exportPdf()],
+    ['offlineMarkdownViewer.exportDocx', () => controller.exportDocx()],
+    [
+      'offlineMarkdownViewer.exportWithPreset',
+      () => controller.exportWithPreset()
+    ],
+    [
+      'offlineMarkdownViewer.exportFolder',
+      (folder?: unknown) =>
+        controller.exportFolder(
+          folder instanceof vscode.Uri ? folder : undefined
+        )
+    ],
+    [
+      'offlineMarkdownViewer.exportStaticSite',
+      (folder?: unknown) =>
+        controller.exportStaticSite(
+          folder instanceof vscode.Uri ? folder : undefined
+        )
+    ],
     [
       'offlineMarkdownViewer.configureCustomCss',
       () => controller.configureCustomCss()
     ],
+    [
+      'offlineMarkdownViewer.downloadAllRemoteImages',
+      () => controller.downloadAllRemoteImages()
+    ],
+    [
+      'offlineMarkdownViewer.localizeRemoteImages',
+      () => controller.localizeRemoteImages()
+    ],
     [
       'offlineMarkdownViewer.showRemoteImageCacheUsage',
       () => controller.showRemoteImageCacheUsage()
     ],
+    [
+      'offlineMarkdownViewer.manageRemoteImageCache',
+      () => controller.manageRemoteImageCache()
+    ],
     [
       'offlineMarkdownViewer.clearRemoteImageCache',
       () => controller.clearRemoteImageCache()
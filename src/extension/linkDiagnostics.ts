@@ -0,0 +1,436 @@
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+
+import type { TocItem } from './messaging/protocol';
+import type {
+  PreviewController,
+  PreviewRenderEvent
+} from './preview/PreviewPanel';
+import { readHeadingSlugs } from './preview/markdown/headingSlugs';
+import {
+  loadMarkdownIncludes,
+  readWorkspaceText
+} from './preview/markdown/includes';
+import {
+  decodeHref,
+  isMarkdownFile,
+  resolveImageUri,
+  resolveLinkTarget
+} from './preview/markdown/linkResolver';
+import {
+  collectHtmlAnchorIds,
+  collectMarkdownHeadings
+} from './preview/markdown/markdownPipeline';
+import type { MarkdownLinkReference } from './preview/markdown/markdownPipeline';
+import {
+  getMissingWikiPageUri,
+  getNewWikiPageContent,
+  parseWikiLink
+} from './preview/markdown/wikiLinks';
+
+export const LINK_DIAGNOSTIC_SOURCE = 'Offline Markdown Preview';
+
+const MISSING_FILE_CODE = 'missing-file';
+const MISSING_HEADING_CODE = 'missing-heading';
+const MISSING_PAGE_CODE = 'missing-page';
+const MAX_SUGGESTIONS = 3;
+
+interface LinkTarget {
+  uri: vscode.Uri;
+  fragment?: string;
+}
+
+export function registerLinkDiagnostics(
+  context: vscode.ExtensionContext,
+  controller: PreviewController
+): vscode.DiagnosticCollection {
+  const collection = vscode.languages.createDiagnosticCollection(
+    'offlineMarkdownViewer.links'
+  );
+  // Renders can overlap while a document is being typed; only the latest one may publish.
+  const generations = new Map<string, number>();
+
+  context.subscriptions.push(
+    collection,
+    controller.onDidRenderDocument((event) => {
+      const key = event.document.uri.toString();
+      const generation = (generations.get(key) ?? 0) + 1;
+      generations.set(key, generation);
+      void validateDocumentLinks(event).then(
+        (diagnostics) => {
+          if (generations.get(key) !== generation) return;
+          if (diagnostics) {
+            collection.set(event.document.uri, diagnostics);
+          } else {
+            collection.delete(event.document.uri);
+          }
+        },
+        () => {
+          // Validation is advisory; a failed pass keeps the previous diagnostics.
+        }
+      );
+    }),
+    vscode.workspace.onDidCloseTextDocument((document) => {
+      generations.delete(document.uri.toString());
+      collection.delete(document.uri);
+    }),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (
+        event.affectsConfiguration('offlineMarkdownViewer.validation.links')
+      ) {
+        collection.clear();
+      }
+    }),
+    vscode.languages.registerCodeActionsProvider(
+      { language: 'markdown' },
+      { provideCodeActions: provideLinkQuickFixes },
+      { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+    )
+  );
+
+  return collection;
+}
+
+export async function validateDocumentLinks(
+  event: PreviewRenderEvent
+): Promise<vscode.Diagnostic[] | undefined> {
+  const { document, links, toc } = event;
+  const enabled = vscode.workspace
+    .getConfiguration('offlineMarkdownViewer', document.uri)
+    .get<boolean>('validation.links', true);
+  if (!enabled) return undefined;
+
+  const headingCache = new Map<string, Promise<TocItem[] | undefined>>();
+  const anchorCache = new Map<string, Promise<string[] | undefined>>();
+  const diagnostics: vscode.Diagnostic[] = [];
+  for (const link of links) {
+    const target = resolveCheckedTarget(document.uri, link);
+    if (!target) continue;
+
+    if (target.uri.toString() !== document.uri.toString()) {
+      const type = await statFileType(target.uri);
+      if (type === undefined) {
+        diagnostics.push(
+          link.kind === 'wiki'
+            ? createLinkDiagnostic(
+                document,
+                link,
+                `No page found for ${link.raw ?? link.href}`,
+                MISSING_PAGE_CODE
+              )
+            : createLinkDiagnostic(
+                document,
+                link,
+                link.kind === 'image'
+                  ? `Image not found: ${link.href}`
+                  : `Link target not found: ${link.href}`,
+                MISSING_FILE_CODE
+              )
+        );
+        continue;
+      }
+      if (type === vscode.FileType.Directory) continue;
+    }
+
+    if (!target.fragment || !isMarkdownFile(target.uri)) continue;
+    const key = target.uri.toString();
+    let headings = headingCache.get(key);
+    if (!headings) {
+      headings =
+        key === document.uri.toString()
+          ? Promise.resolve([...toc])
+          : readHeadings(target.uri);
+      headingCache.set(key, headings);
+    }
+    const ids = (await headings)?.map((heading) => heading.id);
+    if (!ids || ids.includes(target.fragment)) continue;
+    // Raw HTML anchors are only looked up for fragments that match no heading.
+    let anchors = anchorCache.get(key);
+    if (!anchors) {
+      anchors = readHtmlAnchorIds(
+        target.uri,
+        key === document.uri.toString() ? document.getText() : undefined
+      );
+      anchorCache.set(key, anchors);
+    }
+    if ((await anchors)?.includes(target.fragment)) continue;
+    diagnostics.push(
+      createLinkDiagnostic(
+        document,
+        link,
+        `No heading '#${target.fragment}' in ${path.basename(target.uri.path)}`,
+        MISSING_HEADING_CODE
+      )
+    );
+  }
+  return diagnostics;
+}
+
+async function provideLinkQuickFixes(
+  document: vscode.TextDocument,
+  _range: vscode.Range | vscode.Selection,
+  context: vscode.CodeActionContext
+): Promise<vscode.CodeAction[]> {
+  const actions: vscode.CodeAction[] = [];
+  for (const diagnostic of context.diagnostics) {
+    if (diagnostic.source !== LINK_DIAGNOSTIC_SOURCE) continue;
+    const href = document.getText(diagnostic.range);
+    if (href.startsWith('[[')) {
+      // Wiki links are not rewritten; a missing page can be created instead.
+      const action =
+        diagnostic.code === MISSING_PAGE_CODE
+          ? createMissingPageAction(document.uri, href)
+          : undefined;
+      if (action) {
+        action.diagnostics = [diagnostic];
+        actions.push(action);
+      }
+      continue;
+    }
+    const replacements =
+      diagnostic.code === MISSING_HEADING_CODE
+        ? await suggestHeadingHrefs(document.uri, href)
+        : diagnostic.code === MISSING_FILE_CODE
+          ? await suggestFileHrefs(document.uri, href)
+          : [];
+    for (const replacement of replacements) {
+      const action = new vscode.CodeAction(
+        `Change link to '${replacement}'`,
+        vscode.CodeActionKind.QuickFix
+      );
+      action.diagnostics = [diagnostic];
+      action.edit = new vscode.WorkspaceEdit();
+      action.edit.replace(document.uri, diagnostic.range, replacement);
+      action.isPreferred = actions.length === 0;
+      actions.push(action);
+    }
+  }
+  return actions;
+}
+
+function createMissingPageAction(
+  source: vscode.Uri,
+  raw: string
+): vscode.CodeAction | undefined {
+  const link = parseWikiLink(raw.slice(2, -2));
+  if (!link?.target) return undefined;
+  const uri = getMissingWikiPageUri(source, link.target);
+  const action = new vscode.CodeAction(
+    `Create page '${path.posix.basename(uri.path)}'`,
+    vscode.CodeActionKind.QuickFix
+  );
+  action.edit = new vscode.WorkspaceEdit();
+  action.edit.createFile(uri, {
+    ignoreIfExists: true,
+    contents: Buffer.from(getNewWikiPageContent(uri), 'utf8')
+  });
+  action.command = {
+    command: 'vscode.open',
+    title: 'Open Page',
+    arguments: [uri]
+  };
+  action.isPreferred = true;
+  return action;
+}
+
+async function suggestHeadingHrefs(
+  source: vscode.Uri,
+  href: string
+): Promise<string[]> {
+  const hashIndex = href.indexOf('#');
+  if (hashIndex < 0) return [];
+  const target = resolveCheckedTarget(source, {
+    kind: 'link',
+    href,
+    line: 0,
+    endLine: 0
+  });
+  if (!target?.fragment) return [];
+  const headings = await readHeadings(target.uri);
+  const ids = headings?.map((heading) => heading.id) ?? [];
+  const prefix = href.slice(0, hashIndex);
+  return rankByDistance(target.fragment, ids).map((id) => `${prefix}#${id}`);
+}
+
+async function suggestFileHrefs(
+  source: vscode.Uri,
+  href: string
+): Promise<string[]> {
+  const folder = vscode.workspace.getWorkspaceFolder(source);
+  const [rawPath = '', ...rest] = href.split('#');
+  const target = resolveCheckedTarget(source, {
+    kind: 'link',
+    href: rawPath,
+    line: 0,
+    endLine: 0
+  });
+  if (!folder || !target) return [];
+
+  const ext = path.posix.extname(target.uri.path);
+  const candidates = await vscode.workspace.findFiles(
+    new vscode.RelativePattern(folder, ext ? `**/*${ext}` : '**/*'),
+    '**/node_modules/**',
+    2000
+  );
+  const sourceDir = path.posix.dirname(source.path);
+  const byPath = new Map<string, string>();
+  for (const candidate of candidates) {
+    if (candidate.toString() === source.toString()) continue;
+    const relative = path.posix.relative(sourceDir, candidate.path);
+    byPath.set(
+      rawPath.startsWith('./') && !relative.startsWith('.')
+        ? `./${relative}`
+        : relative,
+      path.posix.basename(candidate.path)
+    );
+  }
+
+  const wanted = path.posix.basename(target.uri.path);
+  const ranked = rankByDistance(wanted, [...new Set(byPath.values())]);
+  const suffix = rest.length > 0 ? `#${rest.join('#')}` : '';
+  const suggestions: string[] = [];
+  for (const name of ranked) {
+    for (const [relative, basename] of byPath) {
+      if (basename !== name) continue;
+      suggestions.push(`${encodeHrefPath(relative)}${suffix}`);
+    }
+  }
+  return suggestions.slice(0, MAX_SUGGESTIONS);
+}
+
+function resolveCheckedTarget(
+  source: vscode.Uri,
+  link: MarkdownLinkReference
+): LinkTarget | undefined {
+  const href = decodeHref(link.href);
+  if (link.kind === 'image') {
+    const uri = resolveImageUri(source, href);
+    return uri ? { uri: uri.with({ fragment: '' }) } : undefined;
+  }
+  const resolved = resolveLinkTarget(source, href.replace(/\?[^#]*/, ''));
+  if (resolved.kind === 'heading') {
+    return resolved.fragment
+      ? { uri: source, fragment: resolved.fragment }
+      : undefined;
+  }
+  if (resolved.kind !== 'workspace' || !resolved.uri) return undefined;
+  return { uri: resolved.uri, fragment: resolved.fragment || undefined };
+}
+
+function createLinkDiagnostic(
+  document: vscode.TextDocument,
+  link: MarkdownLinkReference,
+  message: string,
+  code: string
+): vscode.Diagnostic {
+  const diagnostic = new vscode.Diagnostic(
+    findHrefRange(document, link),
+    message,
+    vscode.DiagnosticSeverity.Warning
+  );
+  diagnostic.source = LINK_DIAGNOSTIC_SOURCE;
+  diagnostic.code = code;
+  return diagnostic;
+}
+
+// Link references only know their block; find the destination text inside it for a precise squiggle.
+function findHrefRange(
+  document: vscode.TextDocument,
+  link: MarkdownLinkReference
+): vscode.Range {
+  const first = Math.min(link.line, document.lineCount - 1);
+  const last = Math.min(Math.max(link.endLine, first + 1), document.lineCount);
+  const variants = [
+    ...new Set([link.raw ?? link.href, link.href, decodeHref(link.href)])
+  ];
+  for (let line = first; line < last; line += 1) {
+    const text = document.lineAt(line).text;
+    for (const variant of variants) {
+      const column = text.indexOf(variant);
+      if (column >= 0) {
+        return new vscode.Range(line, column, line, column + variant.length);
+      }
+    }
+  }
+  const text = document.lineAt(first).text;
+  const indent = text.length - text.trimStart().length;
+  return new vscode.Range(first, indent, first, text.length);
+}
+
+async function statFileType(
+  uri: vscode.Uri
+): Promise<vscode.FileType | undefined> {
+  try {
+    return (await vscode.workspace.fs.stat(uri)).type;
+  } catch {
+    return undefined;
+  }
+}
+
+async function readHeadings(uri: vscode.Uri): Promise<TocItem[] | undefined> {
+  try {
+    const text = await readWorkspaceText(uri);
+    const cfg = vscode.workspace.getConfiguration('offlineMarkdownViewer', uri);
+    // Headings pulled in with include directives are part of the target's preview as well.
+    return collectMarkdownHeadings(
+      text,
+      { sourceUri: uri, files: await loadMarkdownIncludes(text, uri) },
+      readHeadingSlugs(
+        cfg.get<string>('preview.headingSlugs'),
+        cfg.get('preview.customHeadingSlug')
+      )
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+async function readHtmlAnchorIds(
+  uri: vscode.Uri,
+  text?: string
+): Promise<string[] | undefined> {
+  try {
+    const source = text ?? (await readWorkspaceText(uri));
+    return collectHtmlAnchorIds(source, {
+      sourceUri: uri,
+      files: await loadMarkdownIncludes(source, uri)
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+function encodeHrefPath(value: string): string {
+  return value.replace(/ /g, '%20');
+}
+
+function rankByDistance(wanted: string, options: string[]): string[] {
+  const lowerWanted = wanted.toLowerCase();
+  const limit = Math.max(2, Math.floor(wanted.length / 2));
+  return options
+    .map((option) => ({
+      option,
+      distance: editDistance(lowerWanted, option.toLowerCase())
+    }))
+    .filter((entry) => entry.distance <= limit)
+    .sort((a, b) => a.distance - b.distance || a.option.localeCompare(b.option))
+    .slice(0, MAX_SUGGESTIONS)
+    .map((entry) => entry.option);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length] ?? 0;
+}
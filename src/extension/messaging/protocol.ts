@@ -12,6 +12,68 @@ export interface FrontmatterInfo {
   data: Record<string, unknown>;
 }
 
+// Document model the webview extracts from the rendered preview for DOCX export.
+export type DocxMathNode =
+  | { type: 'text'; text: string; normal?: boolean }
+  | { type: 'row'; children: DocxMathNode[] }
+  | { type: 'frac'; num: DocxMathNode; den: DocxMathNode }
+  | { type: 'sub'; base: DocxMathNode; sub: DocxMathNode }
+  | { type: 'sup'; base: DocxMathNode; sup: DocxMathNode }
+  | {
+      type: 'subsup';
+      base: DocxMathNode;
+      sub: DocxMathNode;
+      sup: DocxMathNode;
+    }
+  | { type: 'rad'; body: DocxMathNode; degree?: DocxMathNode }
+  | { type: 'over'; base: DocxMathNode; over: DocxMathNode; accent: boolean }
+  | { type: 'under'; base: DocxMathNode; under: DocxMathNode }
+  | { type: 'matrix'; rows: DocxMathNode[][] };
+
+export type DocxInline =
+  | {
+      type: 'text';
+      text: string;
+      bold?: boolean;
+      italic?: boolean;
+      strike?: boolean;
+      code?: boolean;
+      href?: string;
+    }
+  | { type: 'break' }
+  // `src` is the resolved local file URI (OMV_LOCAL_SRC_ATTR); sizes are in CSS pixels.
+  | { type: 'image'; src: string; alt: string; width: number; height: number }
+  | { type: 'math'; math: DocxMathNode };
+
+export interface DocxTableCell {
+  content: DocxInline[];
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface DocxListItem {
+  checked?: boolean;
+  blocks: DocxBlock[];
+}
+
+export type DocxBlock =
+  | { type: 'heading'; level: number; id?: string; content: DocxInline[] }
+  | { type: 'paragraph'; content: DocxInline[] }
+  | { type: 'quote'; blocks: DocxBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: DocxListItem[] }
+  | { type: 'table'; rows: Array<{ header: boolean; cells: DocxTableCell[] }> }
+  | { type: 'code'; text: string }
+  | { type: 'math'; math: DocxMathNode }
+  // Rendered Mermaid diagram: base64 PNG plus the SVG for Word versions that can display it.
+  | {
+      type: 'diagram';
+      png: string;
+      svg?: string;
+      width: number;
+      height: number;
+      alt: string;
+    }
+  | { type: 'rule' };
+
 export interface GitHubMarkdownStylePayload {
   enabled: boolean;
   colorMode: 'auto' | 'system' | 'light' | 'dark';
@@ -85,6 +147,33 @@ export interface RequestHtmlExportSnapshotPayload {
   requestId: number;
 }
 
+export interface RequestDocxSnapshotPayload {
+  type: 'requestDocxSnapshot';
+  requestId: number;
+}
+
+export interface BacklinkItem {
+  uri: string;
+  // Linking document relative to its workspace folder.
+  path: string;
+  line: number;
+  // Trimmed source line containing the link.
+  text: string;
+}
+
+export interface BacklinksPayload {
+  type: 'backlinks';
+  documentUri: string;
+  items: BacklinkItem[];
+}
+
+// Answer to a RequestLinkPreviewMessage; no `html` when the link has nothing to preview.
+export interface LinkPreviewPayload {
+  type: 'linkPreview';
+  requestId: number;
+  html?: string;
+}
+
 export interface UpdateCustomCssPayload {
   type: 'updateCustomCss';
   cssTexts: string[];
@@ -97,6 +186,9 @@ export type ExtensionToWebviewMessage =
   | SearchCommandPayload
   | ExportPdfPayload
   | RequestHtmlExportSnapshotPayload
+  | RequestDocxSnapshotPayload
+  | BacklinksPayload
+  | LinkPreviewPayload
   | UpdateCustomCssPayload;
 
 export interface WebviewReadyMessage {
@@ -153,6 +245,49 @@ export interface DownloadRemoteImageMessage {
   src: string;
 }
 
+export interface DownloadAllRemoteImagesMessage {
+  type: 'downloadAllRemoteImages';
+}
+
+export interface ToggleTaskMessage {
+  type: 'toggleTask';
+  line: number;
+  checked: boolean;
+  // Document version the preview was rendered from; stale toggles are rejected.
+  version: number;
+}
+
+export interface RevealSourceRangeMessage {
+  type: 'revealSourceRange';
+  startLine: number;
+  // Exclusive, matching `data-source-line-end`.
+  endLine: number;
+  // `data-source-file` of a block from an included file; lines are then lines of that file.
+  file?: string;
+}
+
+export interface ExportDiagramMessage {
+  type: 'exportDiagram';
+  format: 'svg' | 'png';
+  // SVG markup, or base64-encoded PNG bytes.
+  data: string;
+  // Position of the diagram in the document, used for the default file name.
+  index: number;
+}
+
+export interface OpenBacklinkMessage {
+  type: 'openBacklink';
+  uri: string;
+  line: number;
+}
+
+// Hovering an internal link asks for the target section, rendered like the preview.
+export interface RequestLinkPreviewMessage {
+  type: 'requestLinkPreview';
+  requestId: number;
+  href: string;
+}
+
 export interface RequestExportMessage {
   type: 'requestExport';
 }
@@ -164,6 +299,12 @@ export interface HtmlExportSnapshotMessage {
   themeVariables?: Record<string, string>;
 }
 
+export interface DocxSnapshotMessage {
+  type: 'docxSnapshot';
+  requestId: number;
+  blocks: DocxBlock[];
+}
+
 export type WebviewToExtensionMessage =
   | WebviewReadyMessage
   | PreviewScrollMessage
@@ -175,8 +316,15 @@ export type WebviewToExtensionMessage =
   | PdfExportResultMessage
   | OpenImageMessage
   | DownloadRemoteImageMessage
+  | DownloadAllRemoteImagesMessage
+  | ToggleTaskMessage
+  | RevealSourceRangeMessage
+  | ExportDiagramMessage
+  | OpenBacklinkMessage
+  | RequestLinkPreviewMessage
   | RequestExportMessage
-  | HtmlExportSnapshotMessage;
+  | HtmlExportSnapshotMessage
+  | DocxSnapshotMessage;
 
 export interface RenderedDocumentSnapshot {
   uri: vscode.Uri;
@@ -1,12 +1,140 @@
 import { z } from 'zod';
 
 import type {
+  DocxBlock,
+  DocxInline,
+  DocxMathNode,
   ExtensionToWebviewMessage,
   WebviewToExtensionMessage
 } from './protocol';
 
 const numberPercent = z.number().min(0).max(1);
 
+const docxMathSchema: z.ZodType<DocxMathNode> = z.lazy(() =>
+  z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('text'),
+      text: z.string(),
+      normal: z.boolean().optional()
+    }),
+    z.object({ type: z.literal('row'), children: z.array(docxMathSchema) }),
+    z.object({
+      type: z.literal('frac'),
+      num: docxMathSchema,
+      den: docxMathSchema
+    }),
+    z.object({
+      type: z.literal('sub'),
+      base: docxMathSchema,
+      sub: docxMathSchema
+    }),
+    z.object({
+      type: z.literal('sup'),
+      base: docxMathSchema,
+      sup: docxMathSchema
+    }),
+    z.object({
+      type: z.literal('subsup'),
+      base: docxMathSchema,
+      sub: docxMathSchema,
+      sup: docxMathSchema
+    }),
+    z.object({
+      type: z.literal('rad'),
+      body: docxMathSchema,
+      degree: docxMathSchema.optional()
+    }),
+    z.object({
+      type: z.literal('over'),
+      base: docxMathSchema,
+      over: docxMathSchema,
+      accent: z.boolean()
+    }),
+    z.object({
+      type: z.literal('under'),
+      base: docxMathSchema,
+      under: docxMathSchema
+    }),
+    z.object({
+      type: z.literal('matrix'),
+      rows: z.array(z.array(docxMathSchema))
+    })
+  ])
+);
+
+const docxInlineSchema: z.ZodType<DocxInline> = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('text'),
+    text: z.string(),
+    bold: z.boolean().optional(),
+    italic: z.boolean().optional(),
+    strike: z.boolean().optional(),
+    code: z.boolean().optional(),
+    href: z.string().optional()
+  }),
+  z.object({ type: z.literal('break') }),
+  z.object({
+    type: z.literal('image'),
+    src: z.string().min(1),
+    alt: z.string(),
+    width: z.number().positive(),
+    height: z.number().positive()
+  }),
+  z.object({ type: z.literal('math'), math: docxMathSchema })
+]);
+
+const docxBlockSchema: z.ZodType<DocxBlock> = z.lazy(() =>
+  z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('heading'),
+      level: z.number().int().min(1).max(6),
+      id: z.string().optional(),
+      content: z.array(docxInlineSchema)
+    }),
+    z.object({
+      type: z.literal('paragraph'),
+      content: z.array(docxInlineSchema)
+    }),
+    z.object({ type: z.literal('quote'), blocks: z.array(docxBlockSchema) }),
+    z.object({
+      type: z.literal('list'),
+      ordered: z.boolean(),
+      start: z.number().int().nonnegative(),
+      items: z.array(
+        z.object({
+          checked: z.boolean().optional(),
+          blocks: z.array(docxBlockSchema)
+        })
+      )
+    }),
+    z.object({
+      type: z.literal('table'),
+      rows: z.array(
+        z.object({
+          header: z.boolean(),
+          cells: z.array(
+            z.object({
+              content: z.array(docxInlineSchema),
+              align: z.enum(['left', 'center', 'right']).optional()
+            })
+          )
+        })
+      )
+    }),
+    z.object({ type: z.literal('code'), text: z.string() }),
+    z.object({ type: z.literal('math'), math: docxMathSchema }),
+    z.object({
+      type: z.literal('diagram'),
+      png: z.string().min(1),
+      svg: z.string().optional(),
+      width: z.number().positive(),
+      height: z.number().positive(),
+      alt: z.string()
+    }),
+    z.object({ type: z.literal('rule') })
+  ])
+);
+
 const webviewSchema = z.discriminatedUnion('type', [
   z.object({ type: z.literal('ready') }),
   z.object({
@@ -44,12 +172,46 @@ const webviewSchema = z.discriminatedUnion('type', [
   }),
   z.object({ type: z.literal('openImage'), src: z.string().min(1) }),
   z.object({ type: z.literal('downloadRemoteImage'), src: z.string().min(1) }),
+  z.object({ type: z.literal('downloadAllRemoteImages') }),
+  z.object({
+    type: z.literal('toggleTask'),
+    line: z.number().int().min(0),
+    checked: z.boolean(),
+    version: z.number().int().nonnegative()
+  }),
+  z.object({
+    type: z.literal('revealSourceRange'),
+    startLine: z.number().int().min(0),
+    endLine: z.number().int().min(1),
+    file: z.string().min(1).optional()
+  }),
+  z.object({
+    type: z.literal('exportDiagram'),
+    format: z.enum(['svg', 'png']),
+    data: z.string().min(1),
+    index: z.number().int().nonnegative()
+  }),
+  z.object({
+    type: z.literal('openBacklink'),
+    uri: z.string().min(1),
+    line: z.number().int().min(0)
+  }),
+  z.object({
+    type: z.literal('requestLinkPreview'),
+    requestId: z.number().int().nonnegative(),
+    href: z.string().min(1)
+  }),
   z.object({ type: z.literal('requestExport') }),
   z.object({
     type: z.literal('htmlExportSnapshot'),
     requestId: z.number().int().nonnegative(),
     html: z.string(),
     themeVariables: z.record(z.string()).optional()
+  }),
+  z.object({
+    type: z.literal('docxSnapshot'),
+    requestId: z.number().int().nonnegative(),
+    blocks: z.array(docxBlockSchema)
   })
 ]);
 
@@ -126,6 +288,27 @@ const extSchema = z.discriminatedUnion('type', [
     type: z.literal('requestHtmlExportSnapshot'),
     requestId: z.number().int().nonnegative()
   }),
+  z.object({
+    type: z.literal('requestDocxSnapshot'),
+    requestId: z.number().int().nonnegative()
+  }),
+  z.object({
+    type: z.literal('backlinks'),
+    documentUri: z.string().min(1),
+    items: z.array(
+      z.object({
+        uri: z.string().min(1),
+        path: z.string(),
+        line: z.number().int().min(0),
+        text: z.string()
+      })
+    )
+  }),
+  z.object({
+    type: z.literal('linkPreview'),
+    requestId: z.number().int().nonnegative(),
+    html: z.string().optional()
+  }),
   z.object({
     type: z.literal('updateCustomCss'),
     cssTexts: z.array(z.string())
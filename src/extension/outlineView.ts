@@ -0,0 +1,32 @@
+import * as vscode from 'vscode';
+
+import type { TocItem } from './messaging/protocol';
+import type { PreviewController } from './preview/PreviewPanel';
+
+export const OUTLINE_VIEW_ID = 'offlineMarkdownViewer.outline';
+
+export function registerOutlineView(
+  context: vscode.ExtensionContext,
+  controller: PreviewController
+): vscode.TreeView<TocItem> {
+  const provider = controller.getOutlineProvider();
+  const view = vscode.window.createTreeView(OUTLINE_VIEW_ID, {
+    treeDataProvider: provider,
+    showCollapseAll: true
+  });
+
+  context.subscriptions.push(
+    view,
+    controller.onActiveHeadingChanged((heading) => {
+      // Revealing a hidden view would force the Explorer open; only follow along while it is shown.
+      if (!heading || !view.visible) return;
+      void Promise.resolve(
+        view.reveal(heading, { select: true, focus: false, expand: true })
+      ).catch(() => {
+        // The outline may have been replaced by a newer render before the reveal completed.
+      });
+    })
+  );
+
+  return view;
+}
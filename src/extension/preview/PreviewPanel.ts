@@ -6,12 +6,17 @@ import { createHash } from 'node:crypto';
 import * as vscode from 'vscode';
 
 import type {
+  BacklinkItem,
+  DocxBlock,
   ExtensionToWebviewMessage,
+  FrontmatterInfo,
   RenderedDocumentSnapshot,
   TocItem,
   WebviewToExtensionMessage
 } from '../messaging/protocol';
 import { parseWebviewMessage } from '../messaging/validate';
+import { buildDocx } from './docx/docxWriter';
+import type { DocxImageData, DocxImageExtension } from './docx/docxWriter';
 import {
   OMV_EXPORT_SRCSET_ATTR,
   OMV_LOCAL_SRC_ATTR,
@@ -27,9 +32,58 @@ import {
   serializeHtmlSrcset,
   setHtmlAttribute
 } from './htmlImageTags';
-import { renderMarkdown } from './markdown/markdownPipeline';
 import {
+  getFolderExportTarget,
+  renderStaticEnhancements,
+  rewriteExportedDocumentLinks,
+  sanitizeExportHtml
+} from './folderExport';
+import type { FolderExportFormat } from './folderExport';
+import {
+  describeExportPreset,
+  expandExportOutputPattern,
+  getExportOutputVariables,
+  mergeExportPresetOptions,
+  readExportPresets,
+  readFrontmatterExportOverrides,
+  toWorkspaceRelativePath
+} from './exportPresets';
+import type {
+  ExportPreset,
+  ExportPresetFormat,
+  ExportTheme,
+  FrontmatterExportOverrides
+} from './exportPresets';
+import { buildExportThemeCss, subsetKatexFonts } from './exportStyles';
+import { printPdfWithDevTools } from './pdf/devtoolsPrinter';
+import {
+  buildPdfContentsHtml,
+  buildPdfPrintCss,
+  getPrintToPdfIgnoredOptions,
+  resolvePdfPageOptions
+} from './pdf/pdfOptions';
+import type { PdfExportSettings, PdfPageOptions } from './pdf/pdfOptions';
+import { pickPdfExportSettings } from './pdf/pdfSetupPicker';
+import {
+  findRemoteImageUrls,
+  getLocalizedImageFileName,
+  rewriteRemoteImageUrls
+} from './localizeImages';
+import { readHeadingSlugs } from './markdown/headingSlugs';
+import type { HeadingSlugs } from './markdown/headingSlugs';
+import { loadMarkdownIncludes, readWorkspaceText } from './markdown/includes';
+import { extractLinkPreviewSource } from './markdown/linkPreview';
+import {
+  collectMarkdownHeadings,
+  renderMarkdown
+} from './markdown/markdownPipeline';
+import type { MarkdownLinkReference } from './markdown/markdownPipeline';
+import { getNewWikiPageContent } from './markdown/wikiLinks';
+import type { WikiLinkResolver } from './markdown/wikiLinks';
+import {
+  decodeHref,
   fileSizeBytes,
+  isMarkdownFile,
   resolveLinkTarget,
   toDataUri
 } from './markdown/linkResolver';
@@ -43,6 +97,29 @@ import {
   inlineCssTag,
   resolveCustomCss
 } from './markdown/security';
+import {
+  RemoteImageCacheIndex,
+  collectBlockedRemoteImageUrls,
+  collectUsedCacheUrls
+} from './remoteImageCache';
+import type { RemoteImageCacheEntry } from './remoteImageCache';
+import {
+  STATIC_SITE_SCRIPT,
+  STATIC_SITE_SCRIPT_FILE,
+  STATIC_SITE_SEARCH_INDEX_FILE,
+  buildStaticSiteNavigation,
+  buildStaticSitePageChrome,
+  buildStaticSiteSearchIndex,
+  htmlToSearchText
+} from './staticSite';
+import type { StaticSitePage, StaticSitePageChrome } from './staticSite';
+import { MarkdownWorkspaceIndex } from '../workspaceIndex';
+
+export interface PreviewRenderEvent {
+  document: vscode.TextDocument;
+  toc: readonly TocItem[];
+  links: readonly MarkdownLinkReference[];
+}
 
 interface PreviewPanelState {
   snapshot?: RenderedDocumentSnapshot;
@@ -59,6 +136,74 @@ interface HtmlExportSnapshotData {
   themeVariables?: Record<string, string>;
 }
 
+// One webview panel plus the document it renders; locked sessions stop following the active editor.
+interface PreviewSession {
+  panel: vscode.WebviewPanel;
+  document: vscode.TextDocument;
+  editor: vscode.TextEditor | undefined;
+  locked: boolean;
+  state: PreviewPanelState;
+  renderTimer: NodeJS.Timeout | undefined;
+  webviewAllowsRemoteImages: boolean | undefined;
+  webviewCustomCssDirty: boolean;
+  webviewCustomCssKey: string | undefined;
+  webviewCustomCssTexts: string[] | undefined;
+  // URI strings of the files the last render included, so their edits re-render the preview.
+  includedUris: Set<string>;
+  pendingHtmlExportSnapshot:
+    | {
+        requestId: number;
+        resolve: (snapshot: HtmlExportSnapshotData | undefined) => void;
+        timer: NodeJS.Timeout;
+      }
+    | undefined;
+  pendingDocxSnapshot:
+    | {
+        requestId: number;
+        resolve: (blocks: DocxBlock[] | undefined) => void;
+        timer: NodeJS.Timeout;
+      }
+    | undefined;
+  disposables: vscode.Disposable[];
+}
+
+const DOCX_IMAGE_EXTENSIONS: Record<string, DocxImageExtension> = {
+  '.png': 'png',
+  '.jpg': 'jpeg',
+  '.jpeg': 'jpeg',
+  '.gif': 'gif',
+  '.bmp': 'bmp'
+};
+
+// Block ranges are end-exclusive and lists/blockquotes can include trailing blank lines.
+function getSourceBlockLines(
+  document: vscode.TextDocument,
+  startLine: number,
+  endLine: number
+): { start: number; last: number; endCharacter: number } {
+  const start = Math.min(startLine, document.lineCount - 1);
+  let last = Math.min(Math.max(endLine - 1, start), document.lineCount - 1);
+  while (last > start && document.lineAt(last).isEmptyOrWhitespace) {
+    last -= 1;
+  }
+  return { start, last, endCharacter: document.lineAt(last).text.length };
+}
+
+// Word cannot display SVG or WebP on its own; those images fall back to their alt text.
+async function loadDocxImage(
+  src: string,
+  maxImageMB: number
+): Promise<DocxImageData | undefined> {
+  const uri = vscode.Uri.parse(src, true);
+  const extension =
+    DOCX_IMAGE_EXTENSIONS[path.extname(uri.fsPath || uri.path).toLowerCase()];
+  if (!extension) return undefined;
+  const bytes = await fileSizeBytes(uri).catch(() => 0);
+  if (bytes <= 0 || bytes > maxImageMB * 1024 * 1024) return undefined;
+  const data = await vscode.workspace.fs.readFile(uri);
+  return { data: Buffer.from(data), extension };
+}
+
 function withSvgFragment(url: string, uri: vscode.Uri): string {
   if (!uri.fragment || path.extname(uri.fsPath || uri.path).toLowerCase() !== '.svg') {
     return url;
@@ -74,13 +219,33 @@ interface RuntimeSettings {
   autoOpenPreview: boolean;
   allowRemoteImages: boolean;
   showFrontmatter: boolean;
+  headingSlugs: HeadingSlugs;
   externalConfirm: boolean;
   maxImageMB: number;
+  remoteImageCacheMaxMB: number;
+  remoteImageCacheMaxAgeDays: number;
+  localizedImagesFolder: string;
   embedImages: boolean;
+  exportMathFonts: 'used' | 'all';
+  exportTheme: ExportTheme;
+  exportCustomCssPath: string;
+  pdf: PdfExportSettings;
   debounceMs: number;
   useMarkdownPreviewGithubStyling: boolean;
 }
 
+interface RenderedFolderExportDocument {
+  html: string;
+  settings: RuntimeSettings;
+  frontmatter?: FrontmatterInfo;
+  toc: TocItem[];
+}
+
+interface FolderExportFailure {
+  file: string;
+  reason: string;
+}
+
 interface CustomCssCommandChoice {
   label: string;
   description: string;
@@ -107,9 +272,41 @@ function getSettings(resource?: vscode.Uri): RuntimeSettings {
     autoOpenPreview: cfg.get<boolean>('preview.autoOpen', true),
     allowRemoteImages: cfg.get<boolean>('preview.allowRemoteImages', false),
     showFrontmatter: cfg.get<boolean>('preview.showFrontmatter', false),
+    headingSlugs: readHeadingSlugs(
+      cfg.get<string>('preview.headingSlugs', 'github'),
+      cfg.get('preview.customHeadingSlug')
+    ),
     externalConfirm: cfg.get<boolean>('externalLinks.confirm', true),
     maxImageMB: cfg.get<number>('preview.maxImageMB', 24),
+    remoteImageCacheMaxMB: cfg.get<number>('remoteImageCache.maxSizeMB', 200),
+    remoteImageCacheMaxAgeDays: cfg.get<number>(
+      'remoteImageCache.maxAgeDays',
+      0
+    ),
+    localizedImagesFolder: cfg.get<string>(
+      'localizeImages.assetsFolder',
+      'assets'
+    ),
     embedImages: cfg.get<boolean>('export.embedImages', false),
+    exportMathFonts:
+      cfg.get<string>('export.html.mathFonts', 'used') === 'all'
+        ? 'all'
+        : 'used',
+    exportTheme: readExportTheme(cfg.get<string>('export.theme', 'auto')),
+    exportCustomCssPath: cfg.get<string>('export.customCssPath', ''),
+    pdf: {
+      pageSize: cfg.get<string>('export.pdf.pageSize', 'A4'),
+      orientation:
+        cfg.get<string>('export.pdf.orientation', 'portrait') === 'landscape'
+          ? 'landscape'
+          : 'portrait',
+      margin: cfg.get<string>('export.pdf.margin', '10mm'),
+      printBackground: cfg.get<boolean>('export.pdf.printBackground', false),
+      headerTemplate: cfg.get<string>('export.pdf.headerTemplate', ''),
+      footerTemplate: cfg.get<string>('export.pdf.footerTemplate', ''),
+      outline: cfg.get<boolean>('export.pdf.outline', true),
+      contentsPage: cfg.get<boolean>('export.pdf.contentsPage', false)
+    },
     debounceMs: cfg.get<number>('performance.debounceMs', 120),
     useMarkdownPreviewGithubStyling: cfg.get<boolean>(
       'preview.useMarkdownPreviewGithubStyling',
@@ -144,7 +341,38 @@ function isUriWithinFolder(
   );
 }
 
-function getExportThemeBodyClass(): string {
+function applyExportPreset(
+  settings: RuntimeSettings,
+  preset: ExportPreset | undefined
+): RuntimeSettings {
+  if (!preset) return settings;
+  const { options } = preset;
+  return {
+    ...settings,
+    embedImages: options.embedImages ?? settings.embedImages,
+    showFrontmatter: options.includeFrontmatter ?? settings.showFrontmatter,
+    exportTheme: options.theme ?? settings.exportTheme,
+    exportCustomCssPath: options.customCss ?? settings.exportCustomCssPath,
+    pdf: { ...settings.pdf, ...options.pdf }
+  };
+}
+
+async function uriExists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function readExportTheme(value: string): ExportTheme {
+  return value === 'light' || value === 'dark' ? value : 'auto';
+}
+
+function getExportThemeBodyClass(theme?: 'light' | 'dark'): string {
+  if (theme === 'light') return 'vscode-body vscode-light';
+  if (theme === 'dark') return 'vscode-body vscode-dark';
   switch (vscode.window.activeColorTheme.kind) {
     case vscode.ColorThemeKind.Light:
       return 'vscode-body vscode-light';
@@ -164,10 +392,17 @@ function buildGitHubMarkdownStyleAttributes(enabled: boolean): string {
 }
 
 const PREVIEW_UI_STATE_KEY = 'preview.uiState';
+// VS Code revives serialized previews only after activate() returns, so auto-open waits this long
+// at startup rather than racing them with a fresh panel.
+const STARTUP_AUTO_OPEN_DELAY_MS = 1000;
 const DEFAULT_PREVIEW_UI_STATE: PreviewUiState = {
   searchUiVisible: true,
   tocVisible: true
 };
+// Parallel fetches for "Download All Remote Images"; keeps large documents from flooding a host.
+const REMOTE_IMAGE_DOWNLOAD_CONCURRENCY = 4;
+// List marker (optionally inside blockquotes) followed by `[ ]`/`[x]`; group 1 ends before the state char.
+const TASK_CHECKBOX_PATTERN = /^((?:\s*>)*\s*(?:[-+*]|\d+[.)])\s+\[)([ xX])\]/;
 
 export class MarkdownOutlineProvider
   implements vscode.TreeDataProvider<TocItem>, vscode.Disposable
@@ -177,16 +412,22 @@ export class MarkdownOutlineProvider
   >();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
   private toc: readonly TocItem[] = [];
+  private roots: TocItem[] = [];
+  private readonly children = new Map<TocItem, TocItem[]>();
+  private readonly parents = new Map<TocItem, TocItem>();
 
   setToc(items: readonly TocItem[]): void {
     this.toc = items;
+    this.buildHierarchy();
     this._onDidChangeTreeData.fire(undefined);
   }
 
   getTreeItem(element: TocItem): vscode.TreeItem {
     const item = new vscode.TreeItem(
       element.text,
-      vscode.TreeItemCollapsibleState.None
+      this.children.has(element)
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.None
     );
     item.id = element.id;
     item.description = `L${element.line + 1}`;
@@ -199,8 +440,38 @@ export class MarkdownOutlineProvider
     return item;
   }
 
-  getChildren(): Thenable<TocItem[]> {
-    return Promise.resolve([...this.toc]);
+  getChildren(element?: TocItem): Thenable<TocItem[]> {
+    const items = element ? this.children.get(element) : this.roots;
+    return Promise.resolve([...(items ?? [])]);
+  }
+
+  getParent(element: TocItem): TocItem | undefined {
+    return this.parents.get(element);
+  }
+
+  private buildHierarchy(): void {
+    this.roots = [];
+    this.children.clear();
+    this.parents.clear();
+
+    // Skipped levels (e.g. an h4 directly under an h2) nest under the nearest shallower heading.
+    const stack: TocItem[] = [];
+    for (const item of this.toc) {
+      let parent = stack[stack.length - 1];
+      while (parent && parent.level >= item.level) {
+        stack.pop();
+        parent = stack[stack.length - 1];
+      }
+      if (parent) {
+        this.parents.set(item, parent);
+        const siblings = this.children.get(parent) ?? [];
+        siblings.push(item);
+        this.children.set(parent, siblings);
+      } else {
+        this.roots.push(item);
+      }
+      stack.push(item);
+    }
   }
 
   dispose(): void {
@@ -208,65 +479,76 @@ export class MarkdownOutlineProvider
   }
 }
 
-export class PreviewController implements vscode.Disposable {
+export const PREVIEW_VIEW_TYPE = 'offlineMarkdownViewer.preview';
+
+export class PreviewController
+  implements vscode.Disposable, vscode.WebviewPanelSerializer
+{
   private readonly disposables: vscode.Disposable[] = [];
-  private panel: vscode.WebviewPanel | undefined;
+  // Ordered by recency: the last entry is the most recently active preview.
+  private sessions: PreviewSession[] = [];
+  private activeSession: PreviewSession | undefined;
   private currentEditor: vscode.TextEditor | undefined;
-  private state: PreviewPanelState = { toc: [] };
   private previewUiState: PreviewUiState;
   private renderRequestId = 0;
-  private renderTimer: NodeJS.Timeout | undefined;
   private suppressEditorScrollUntil = 0;
   private unsafeHtmlAcknowledged = false;
   private followActiveMarkdownBeside = false;
   private autoOpenInFlight = false;
+  private startupAutoOpenTimer: NodeJS.Timeout | undefined;
+  private startupAutoOpen: Promise<void> | undefined;
+  // The preview auto-open created at startup; a revived panel for its document replaces it.
+  private startupAutoOpenedSession: PreviewSession | undefined;
   private relocatingEditor = false;
   private preferredMarkdownColumn: vscode.ViewColumn | undefined;
   private lastPreviewColumn: vscode.ViewColumn | undefined;
-  private webviewAllowsRemoteImages: boolean | undefined;
-  private webviewCustomCssDirty = true;
-  private webviewCustomCssKey: string | undefined;
-  private webviewCustomCssTexts: string[] | undefined;
-  private readonly remoteImageOverrides = new Map<string, vscode.Uri>();
   private htmlExportSnapshotReqId = 0;
-  private pendingHtmlExportSnapshot:
-    | {
-        requestId: number;
-        resolve: (snapshot: HtmlExportSnapshotData | undefined) => void;
-        timer: NodeJS.Timeout;
-      }
-    | undefined;
+  private docxSnapshotReqId = 0;
+  private readonly remoteImageCache = new RemoteImageCacheIndex();
   private readonly outlineEmitter = new vscode.EventEmitter<
     readonly TocItem[]
   >();
+  private readonly activeHeadingEmitter = new vscode.EventEmitter<
+    TocItem | undefined
+  >();
+  private readonly renderEmitter =
+    new vscode.EventEmitter<PreviewRenderEvent>();
+  private readonly activeDocumentEmitter = new vscode.EventEmitter<
+    vscode.Uri | undefined
+  >();
+  private activeHeadingId: string | undefined;
 
+  readonly workspaceIndex = new MarkdownWorkspaceIndex();
   readonly onOutlineChanged = this.outlineEmitter.event;
+  readonly onActiveHeadingChanged = this.activeHeadingEmitter.event;
+  readonly onDidRenderDocument = this.renderEmitter.event;
+  // Document of the active preview; fires again after each of its renders.
+  readonly onActiveDocumentChanged = this.activeDocumentEmitter.event;
 
   constructor(private readonly context: vscode.ExtensionContext) {
     this.previewUiState = this.readPreviewUiState();
     this.disposables.push(
       vscode.workspace.onDidChangeTextDocument((e) => {
-        if (!this.currentEditor) {
+        const sessions = this.findSessionsForDocument(e.document.uri);
+        if (sessions.length > 0) {
+          for (const session of sessions) {
+            this.scheduleRender(session);
+          }
           return;
         }
 
-        if (
-          e.document.uri.toString() ===
-          this.currentEditor.document.uri.toString()
-        ) {
-          this.scheduleRender();
-          return;
+        for (const session of this.findSessionsIncluding(e.document.uri)) {
+          this.scheduleRender(session);
         }
-
-        if (this.isCurrentCustomCssUri(e.document.uri)) {
-          this.webviewCustomCssDirty = true;
-          void this.refreshCustomCssOnly();
+        for (const session of this.findSessionsUsingCustomCss(e.document.uri)) {
+          session.webviewCustomCssDirty = true;
+          void this.refreshCustomCssOnly(session);
         }
       }),
       vscode.workspace.onDidSaveTextDocument((document) => {
-        if (this.isCurrentCustomCssUri(document.uri)) {
-          this.webviewCustomCssDirty = true;
-          void this.refreshCustomCssOnly();
+        for (const session of this.findSessionsUsingCustomCss(document.uri)) {
+          session.webviewCustomCssDirty = true;
+          void this.refreshCustomCssOnly(session);
         }
       }),
       vscode.window.onDidChangeActiveTextEditor((editor) => {
@@ -276,8 +558,9 @@ export class PreviewController implements vscode.Disposable {
             return;
           }
 
+          const following = this.getFollowingSession();
           const previewColumn =
-            this.panel?.viewColumn ?? this.lastPreviewColumn;
+            following?.panel.viewColumn ?? this.lastPreviewColumn;
           const editorColumn = editor.viewColumn;
           if (
             previewColumn &&
@@ -291,89 +574,97 @@ export class PreviewController implements vscode.Disposable {
           }
 
           this.currentEditor = editor;
-          this.webviewCustomCssDirty = true;
           if (editorColumn && editorColumn !== previewColumn) {
             this.preferredMarkdownColumn = editorColumn;
           }
           void this.tryAutoOpenPreview(editor);
+
+          // A preview already showing this document wins over retargeting the following preview.
+          const session =
+            this.findSessionsForDocument(editor.document.uri)[0] ?? following;
+          if (!session) return;
+          this.retargetSession(session, editor);
+          this.setActiveSession(session);
           if (
-            this.panel &&
+            session === following &&
             this.followActiveMarkdownBeside &&
-            this.panel.visible
+            session.panel.visible
           ) {
             // Keep preview open without relocating it to a new group on every file switch.
-            this.panel.reveal(
-              this.panel.viewColumn ??
+            session.panel.reveal(
+              session.panel.viewColumn ??
                 this.lastPreviewColumn ??
                 vscode.ViewColumn.Beside,
               true
             );
           }
           // File switches should feel instant; debounce is still used for document edits.
-          this.scheduleRender(true);
+          this.scheduleRender(session, true);
         }
       }),
       vscode.workspace.onDidCloseTextDocument((document) => {
-        if (this.isCurrentCustomCssUri(document.uri)) {
-          this.webviewCustomCssDirty = true;
-          void this.refreshCustomCssOnly();
+        for (const session of this.findSessionsUsingCustomCss(document.uri)) {
+          session.webviewCustomCssDirty = true;
+          void this.refreshCustomCssOnly(session);
         }
 
         if (document.languageId !== 'markdown') return;
-        if (!this.panel) return;
-        const previewUri = this.state.snapshot?.uri.toString();
-        if (previewUri && previewUri === document.uri.toString()) {
-          const panel = this.panel;
-          this.lastPreviewColumn = panel.viewColumn ?? this.lastPreviewColumn;
-          this.panel = undefined;
-          panel.dispose();
+        for (const session of this.findSessionsForDocument(document.uri)) {
+          this.lastPreviewColumn =
+            session.panel.viewColumn ?? this.lastPreviewColumn;
+          session.panel.dispose();
+        }
+        if (
+          this.currentEditor?.document.uri.toString() ===
+          document.uri.toString()
+        ) {
           this.currentEditor = undefined;
-          this.state = { toc: [] };
-          this.outlineEmitter.fire([]);
         }
       }),
       vscode.window.onDidChangeTextEditorVisibleRanges((e) => {
-        if (!this.panel || !this.currentEditor) return;
-        if (
-          e.textEditor.document.uri.toString() !==
-          this.currentEditor.document.uri.toString()
-        )
-          return;
-        const settings = getSettings(this.currentEditor.document.uri);
-        if (!settings.scrollSync) return;
-        if (Date.now() < this.suppressEditorScrollUntil) return;
-        const lineCount = Math.max(
-          1,
-          this.currentEditor.document.lineCount - 1
+        const sessions = this.findSessionsForDocument(
+          e.textEditor.document.uri
         );
+        if (sessions.length === 0) return;
         const topLine = e.visibleRanges[0]?.start.line ?? 0;
-        this.postMessage({
-          type: 'editorScroll',
-          percent: Math.min(1, Math.max(0, topLine / lineCount)),
-          line: topLine,
-          source: 'extension'
-        });
+        if (this.activeSession && sessions.includes(this.activeSession)) {
+          this.updateActiveHeading(topLine);
+        }
+        const settings = getSettings(e.textEditor.document.uri);
+        if (!settings.scrollSync) return;
+        if (Date.now() < this.suppressEditorScrollUntil) return;
+        const lineCount = Math.max(1, e.textEditor.document.lineCount - 1);
+        for (const session of sessions) {
+          this.postMessage(session, {
+            type: 'editorScroll',
+            percent: Math.min(1, Math.max(0, topLine / lineCount)),
+            line: topLine,
+            source: 'extension'
+          });
+        }
       }),
       vscode.workspace.onDidChangeConfiguration((e) => {
         if (
           e.affectsConfiguration('offlineMarkdownViewer') ||
           e.affectsConfiguration('markdown-preview-github-styles')
         ) {
-          if (
-            this.currentEditor &&
-            e.affectsConfiguration('offlineMarkdownViewer') &&
-            (e.affectsConfiguration(
-              'offlineMarkdownViewer.preview.globalCustomCssPath'
-            ) ||
-              e.affectsConfiguration(
-                'offlineMarkdownViewer.preview.useMarkdownPreviewGithubStyling'
+          for (const session of this.sessions) {
+            if (
+              e.affectsConfiguration('offlineMarkdownViewer') &&
+              (e.affectsConfiguration(
+                'offlineMarkdownViewer.preview.globalCustomCssPath'
               ) ||
-              e.affectsConfiguration(
-                'offlineMarkdownViewer.preview.customCssPath',
-                this.currentEditor.document.uri
-              ))
-          ) {
-            this.webviewCustomCssDirty = true;
+                e.affectsConfiguration(
+                  'offlineMarkdownViewer.preview.useMarkdownPreviewGithubStyling'
+                ) ||
+                e.affectsConfiguration(
+                  'offlineMarkdownViewer.preview.customCssPath',
+                  session.document.uri
+                ))
+            ) {
+              session.webviewCustomCssDirty = true;
+            }
+            this.scheduleRender(session, true);
           }
           if (
             this.currentEditor &&
@@ -382,7 +673,39 @@ export class PreviewController implements vscode.Disposable {
           ) {
             void this.tryAutoOpenPreview(this.currentEditor);
           }
-          this.scheduleRender(true);
+        }
+      })
+    );
+
+    // Included files are rarely open in an editor, so changes on disk are watched as well.
+    const includeWatcher =
+      vscode.workspace.createFileSystemWatcher('**/*.{md,markdown}');
+    const renderIncluding = (uri: vscode.Uri) => {
+      for (const session of this.findSessionsIncluding(uri)) {
+        this.scheduleRender(session);
+      }
+    };
+    this.disposables.push(
+      includeWatcher,
+      includeWatcher.onDidChange(renderIncluding),
+      includeWatcher.onDidCreate(renderIncluding),
+      includeWatcher.onDidDelete(renderIncluding)
+    );
+
+    // Wiki links resolve against the page index, so a page created, deleted or retitled elsewhere
+    // changes how they render.
+    this.disposables.push(
+      this.workspaceIndex,
+      this.workspaceIndex.onDidChange(() => {
+        for (const session of this.sessions) {
+          if (session.document.getText().includes('[[')) {
+            this.scheduleRender(session);
+          }
+        }
+      }),
+      this.workspaceIndex.onDidChangeLinks(() => {
+        for (const session of this.sessions) {
+          void this.postBacklinks(session);
         }
       })
     );
@@ -390,8 +713,11 @@ export class PreviewController implements vscode.Disposable {
     this.currentEditor = vscode.window.activeTextEditor;
     if (this.currentEditor?.document.languageId === 'markdown') {
       this.preferredMarkdownColumn = this.currentEditor.viewColumn;
-      void this.tryAutoOpenPreview(this.currentEditor);
     }
+    this.startupAutoOpenTimer = setTimeout(() => {
+      this.startupAutoOpenTimer = undefined;
+      this.startupAutoOpen = this.autoOpenAtStartup();
+    }, STARTUP_AUTO_OPEN_DELAY_MS);
   }
 
   async openPreview(
@@ -413,77 +739,40 @@ export class PreviewController implements vscode.Disposable {
 
     this.currentEditor = editor;
     this.followActiveMarkdownBeside = sideBySide;
-    this.webviewCustomCssDirty = true;
 
-    if (this.panel) {
+    // Each document gets its own panel; switching editors only retargets the following preview.
+    const existing = this.findSessionsForDocument(editor.document.uri)[0];
+    if (existing) {
       try {
+        this.retargetSession(existing, editor);
         const revealColumn =
-          this.panel.viewColumn ?? targetColumn ?? this.lastPreviewColumn;
-        this.panel.reveal(revealColumn, preserveFocus);
-        this.lastPreviewColumn = this.panel.viewColumn ?? revealColumn;
-        await this.renderNow();
+          existing.panel.viewColumn ?? targetColumn ?? this.lastPreviewColumn;
+        existing.panel.reveal(revealColumn, preserveFocus);
+        this.lastPreviewColumn = existing.panel.viewColumn ?? revealColumn;
+        this.setActiveSession(existing);
+        await this.renderNow(existing);
         return;
       } catch (error) {
         if (!isDisposedWebviewError(error)) {
           throw error;
         }
-        this.panel = undefined;
+        this.handleSessionDisposed(existing);
       }
     }
 
     const initialColumn =
       targetColumn ??
       (sideBySide ? vscode.ViewColumn.Beside : vscode.ViewColumn.Active);
-    this.panel = vscode.window.createWebviewPanel(
-      'offlineMarkdownViewer.preview',
+    const panel = vscode.window.createWebviewPanel(
+      PREVIEW_VIEW_TYPE,
       `Offline Preview: ${path.basename(editor.document.uri.fsPath)}`,
       initialColumn,
-      {
-        enableScripts: true,
-        retainContextWhenHidden: true,
-        // Restrict file access to extension-bundled assets plus current workspace roots only.
-        localResourceRoots: [
-          vscode.Uri.joinPath(this.context.extensionUri, 'dist', 'webview-ui'),
-          this.context.globalStorageUri,
-          ...(vscode.workspace.workspaceFolders?.map((f) => f.uri) ?? [])
-        ]
-      }
-    );
-
-    const settings = getSettings(editor.document.uri);
-    const customCss = await resolveCustomCss(editor.document.uri);
-    this.panel.webview.html = await this.buildWebviewHtml(
-      this.panel.webview,
-      settings,
-      customCss.cssTexts
-    );
-    this.webviewAllowsRemoteImages = settings.allowRemoteImages;
-    this.webviewCustomCssDirty = false;
-    this.webviewCustomCssKey = customCss.key;
-    this.webviewCustomCssTexts = customCss.cssTexts;
-    this.disposables.push(
-      this.panel,
-      this.panel.onDidDispose(() => {
-        this.lastPreviewColumn =
-          this.panel?.viewColumn ?? this.lastPreviewColumn;
-        this.panel = undefined;
-        this.webviewAllowsRemoteImages = undefined;
-        this.webviewCustomCssDirty = true;
-        this.webviewCustomCssKey = undefined;
-        this.webviewCustomCssTexts = undefined;
-        this.remoteImageOverrides.clear();
-      }),
-      this.panel.onDidChangeViewState((event) => {
-        this.lastPreviewColumn =
-          event.webviewPanel.viewColumn ?? this.lastPreviewColumn;
-      }),
-      this.panel.webview.onDidReceiveMessage((msg: unknown) => {
-        void this.handleWebviewMessage(msg);
-      })
+      { ...this.getWebviewOptions(), retainContextWhenHidden: true }
     );
 
-    this.lastPreviewColumn = this.panel.viewColumn ?? initialColumn;
-    await this.renderNow();
+    const session = await this.attachSession(panel, editor.document, editor);
+    this.lastPreviewColumn = panel.viewColumn ?? initialColumn;
+    await this.renderNow(session);
     if (preserveFocus) {
       await vscode.window.showTextDocument(
         editor.document,
@@ -493,46 +782,96 @@ export class PreviewController implements vscode.Disposable {
     }
   }
 
-  async exportHtml(): Promise<void> {
-    if (!this.currentEditor) return;
-    if (!this.panel) {
-      await this.openPreview(true);
+  async deserializeWebviewPanel(
+    panel: vscode.WebviewPanel,
+    state: unknown
+  ): Promise<void> {
+    // A restored preview makes the startup auto-open unnecessary; one already under way finishes first.
+    clearTimeout(this.startupAutoOpenTimer);
+    this.startupAutoOpenTimer = undefined;
+    await this.startupAutoOpen;
+
+    // The webview persists the document URI alongside scroll/heading/search state in vscode.setState().
+    const documentUri = getRestoredDocumentUri(state);
+    let document: vscode.TextDocument | undefined;
+    if (documentUri) {
+      try {
+        document = await vscode.workspace.openTextDocument(documentUri);
+      } catch {
+        document = undefined;
+      }
+    }
+    if (!document || document.languageId !== 'markdown') {
+      panel.dispose();
+      return;
     }
-    if (!this.state.snapshot) {
-      await this.renderNow();
+    const existing = this.findSessionsForDocument(document.uri);
+    const autoOpened = this.startupAutoOpenedSession;
+    if (autoOpened && existing.length === 1 && existing[0] === autoOpened) {
+      // Keep the revived panel with its saved state instead of the blank one auto-open created.
+      this.startupAutoOpenedSession = undefined;
+      autoOpened.panel.dispose();
+      this.handleSessionDisposed(autoOpened);
+    } else if (existing.length > 0) {
+      panel.dispose();
+      return;
     }
-    const snapshot = this.state.snapshot;
+
+    panel.webview.options = this.getWebviewOptions();
+    const key = document.uri.toString();
+    const editor = vscode.window.visibleTextEditors.find(
+      (candidate) => candidate.document.uri.toString() === key
+    );
+    const session = await this.attachSession(panel, document, editor);
+    this.lastPreviewColumn = panel.viewColumn ?? this.lastPreviewColumn;
+    await this.renderNow(session);
+  }
+
+  async lockPreview(): Promise<void> {
+    await this.setPreviewLocked(true);
+  }
+
+  async unlockPreview(): Promise<void> {
+    await this.setPreviewLocked(false);
+  }
+
+  async exportHtml(preset?: ExportPreset): Promise<void> {
+    const session = await this.resolveExportSession();
+    if (!session) return;
+    const snapshot = session.state.snapshot;
     if (!snapshot) return;
 
-    const settings = getSettings(snapshot.uri);
-    const renderedSnapshot = await this.requestRenderedHtmlExportSnapshot();
+    const settings = applyExportPreset(getSettings(snapshot.uri), preset);
+    const renderedSnapshot =
+      await this.requestRenderedHtmlExportSnapshot(session);
     let html = renderedSnapshot?.html ?? snapshot.html;
     html = this.rewriteLocalImageSourcesForExport(html);
-    if (settings.embedImages) {
+    // Presets from settings are an explicit opt-in, so they skip the confirmation; a document
+    // asking for embedded images through its frontmatter does not.
+    if (
+      settings.embedImages &&
+      (!preset || preset.embedImagesFromFrontmatter)
+    ) {
       const answer = await vscode.window.showWarningMessage(
         'Embedding local images can expose private paths/content in exported HTML. Continue?',
         { modal: true },
         'Export'
       );
       if (answer !== 'Export') return;
+    }
+    if (settings.embedImages) {
       html = await this.embedLocalImages(html, settings.maxImageMB);
     }
 
-    const defaultUri = snapshot.uri.with({
-      path: snapshot.uri.path.replace(/\.md$/i, '.html')
-    });
-    const target = await vscode.window.showSaveDialog({
-      defaultUri,
-      filters: { HTML: ['html'] },
-      saveLabel: 'Export HTML'
-    });
+    const target = await this.resolveExportTarget(snapshot.uri, 'html', preset);
     if (!target) return;
 
     const document = await this.buildStandaloneHtml(
       html,
       snapshot.uri,
       settings,
-      renderedSnapshot?.themeVariables
+      renderedSnapshot?.themeVariables,
+      snapshot.frontmatter
     );
     await vscode.workspace.fs.writeFile(target, Buffer.from(document, 'utf8'));
     void vscode.window.showInformationMessage(
@@ -540,47 +879,60 @@ export class PreviewController implements vscode.Disposable {
     );
   }
 
-  async exportPdf(): Promise<void> {
-    if (!this.currentEditor) return;
-    if (!this.panel) {
-      await this.openPreview(true);
-    }
-    if (!this.state.snapshot) {
-      await this.renderNow();
-    }
-    const snapshot = this.state.snapshot;
+  async exportPdf(preset?: ExportPreset): Promise<void> {
+    const session = await this.resolveExportSession();
+    if (!session) return;
+    const snapshot = session.state.snapshot;
     if (!snapshot) return;
 
-    const settings = getSettings(snapshot.uri);
-    const renderedSnapshot = await this.requestRenderedHtmlExportSnapshot();
+    const settings = applyExportPreset(getSettings(snapshot.uri), preset);
+    const renderedSnapshot =
+      await this.requestRenderedHtmlExportSnapshot(session);
     let html = renderedSnapshot?.html ?? snapshot.html;
     html = this.rewriteLocalImageSourcesForExport(html);
 
-    if (settings.embedImages) {
+    if (
+      settings.embedImages &&
+      (!preset || preset.embedImagesFromFrontmatter)
+    ) {
       const answer = await vscode.window.showWarningMessage(
         'Embedding local images can expose private paths/content in exported PDF intermediates. Continue?',
         { modal: true },
         'Continue'
       );
       if (answer !== 'Continue') return;
+    }
+    if (settings.embedImages) {
       html = await this.embedLocalImages(html, settings.maxImageMB);
     }
 
-    const defaultUri = snapshot.uri.with({
-      path: snapshot.uri.path.replace(/\.md$/i, '.pdf')
-    });
-    const target = await vscode.window.showSaveDialog({
-      defaultUri,
-      filters: { PDF: ['pdf'] },
-      saveLabel: 'Export PDF'
-    });
+    const pdfSettings = preset
+      ? settings.pdf
+      : await pickPdfExportSettings(settings.pdf);
+    if (!pdfSettings) return;
+    let pageOptions: PdfPageOptions;
+    try {
+      pageOptions = resolvePdfPageOptions(pdfSettings);
+    } catch (error) {
+      void vscode.window.showErrorMessage(
+        `PDF export failed: ${getErrorMessage(error)}`
+      );
+      return;
+    }
+
+    const target = await this.resolveExportTarget(snapshot.uri, 'pdf', preset);
     if (!target) return;
 
+    if (pageOptions.contentsPage) {
+      html = buildPdfContentsHtml(snapshot.toc) + html;
+    }
     const document = await this.buildStandaloneHtml(
       html,
       snapshot.uri,
       settings,
-      renderedSnapshot?.themeVariables
+      renderedSnapshot?.themeVariables,
+      snapshot.frontmatter,
+      buildPdfPrintCss(pageOptions)
     );
     const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'omv-pdf-'));
     const tempHtmlPath = path.join(
@@ -590,12 +942,20 @@ export class PreviewController implements vscode.Disposable {
     await fs.writeFile(tempHtmlPath, document, 'utf8');
     const pdfExport = await this.tryHeadlessPdfExport(
       vscode.Uri.file(tempHtmlPath),
-      target
+      target,
+      pageOptions,
+      getExportTitle(snapshot.uri, snapshot.frontmatter)
     );
     if (pdfExport.ok) {
-      void vscode.window.showInformationMessage(
-        `Exported PDF to ${target.fsPath}`
-      );
+      if (pdfExport.warning) {
+        void vscode.window.showWarningMessage(
+          `Exported PDF to ${target.fsPath}, but ${pdfExport.warning}`
+        );
+      } else {
+        void vscode.window.showInformationMessage(
+          `Exported PDF to ${target.fsPath}`
+        );
+      }
       return;
     }
 
@@ -605,6 +965,532 @@ export class PreviewController implements vscode.Disposable {
     );
   }
 
+  async exportDocx(preset?: ExportPreset): Promise<void> {
+    const session = await this.resolveExportSession();
+    if (!session) return;
+    const snapshot = session.state.snapshot;
+    if (!snapshot) return;
+
+    const settings = getSettings(snapshot.uri);
+    const blocks = await this.requestDocxSnapshot(session);
+    if (!blocks) {
+      void vscode.window.showErrorMessage(
+        'DOCX export failed: the preview did not respond.'
+      );
+      return;
+    }
+
+    const target = await this.resolveExportTarget(snapshot.uri, 'docx', preset);
+    if (!target) return;
+
+    const data = await buildDocx(blocks, {
+      title: getExportTitle(snapshot.uri, snapshot.frontmatter),
+      loadImage: (src) => loadDocxImage(src, settings.maxImageMB)
+    });
+    await vscode.workspace.fs.writeFile(target, data);
+    void vscode.window.showInformationMessage(
+      `Exported DOCX to ${target.fsPath}`
+    );
+  }
+
+  async exportWithPreset(): Promise<void> {
+    const session = await this.resolveExportSession();
+    const snapshot = session?.state.snapshot;
+    if (!snapshot) return;
+
+    const { presets, invalid } = readExportPresets(
+      vscode.workspace
+        .getConfiguration('offlineMarkdownViewer', snapshot.uri)
+        .get<unknown>('export.presets', {})
+    );
+    if (invalid.length > 0) {
+      void vscode.window.showWarningMessage(
+        `Ignoring invalid export presets: ${invalid.join(', ')}`
+      );
+    }
+    let overrides: FrontmatterExportOverrides | undefined;
+    try {
+      overrides = readFrontmatterExportOverrides(snapshot.frontmatter?.data);
+    } catch (error) {
+      void vscode.window.showErrorMessage(getErrorMessage(error));
+      return;
+    }
+
+    let preset: ExportPreset | undefined;
+    const presetName = overrides?.preset;
+    if (presetName) {
+      // The document names its preset, so there is nothing to pick.
+      preset = presets.find((candidate) => candidate.name === presetName);
+      if (!preset) {
+        void vscode.window.showErrorMessage(
+          `Export preset "${presetName}" from the document frontmatter is not defined in offlineMarkdownViewer.export.presets.`
+        );
+        return;
+      }
+    } else {
+      const choices = presets.map((candidate) => ({
+        label: candidate.name,
+        description: describeExportPreset(
+          mergeExportPresetOptions(candidate.options, overrides?.options ?? {})
+        ),
+        preset: candidate
+      }));
+      if (overrides) {
+        choices.unshift({
+          label: 'Document Frontmatter',
+          description: describeExportPreset(overrides.options),
+          preset: { name: 'frontmatter', options: {} }
+        });
+      }
+      if (choices.length === 0) {
+        const answer = await vscode.window.showInformationMessage(
+          'No export presets are configured. Define them in offlineMarkdownViewer.export.presets or add an export key to the document frontmatter.',
+          'Open Settings'
+        );
+        if (answer === 'Open Settings') {
+          await vscode.commands.executeCommand(
+            'workbench.action.openSettings',
+            'offlineMarkdownViewer.export.presets'
+          );
+        }
+        return;
+      }
+      preset = (
+        await vscode.window.showQuickPick(choices, {
+          placeHolder: 'Export with preset'
+        })
+      )?.preset;
+      if (!preset) return;
+    }
+
+    const resolved: ExportPreset = {
+      name: preset.name,
+      options: mergeExportPresetOptions(
+        preset.options,
+        overrides?.options ?? {}
+      ),
+      embedImagesFromFrontmatter: overrides?.options.embedImages === true
+    };
+    switch (resolved.options.format ?? 'html') {
+      case 'pdf':
+        await this.exportPdf(resolved);
+        return;
+      case 'docx':
+        await this.exportDocx(resolved);
+        return;
+      default:
+        await this.exportHtml(resolved);
+    }
+  }
+
+  // A preset with an `output` pattern writes there directly; otherwise the save dialog asks.
+  private async resolveExportTarget(
+    source: vscode.Uri,
+    format: ExportPresetFormat,
+    preset: ExportPreset | undefined
+  ): Promise<vscode.Uri | undefined> {
+    const output = preset?.options.output?.trim();
+    if (preset && output) {
+      const base =
+        vscode.workspace.getWorkspaceFolder(source)?.uri ??
+        vscode.Uri.joinPath(source, '..');
+      try {
+        const relative = expandExportOutputPattern(
+          output,
+          getExportOutputVariables({
+            documentPath: source.path,
+            workspaceFolderPath: base.path,
+            preset: preset.name,
+            format,
+            date: new Date()
+          }),
+          format
+        );
+        const target = vscode.Uri.joinPath(base, relative);
+        // The save dialog confirms replacing a file; a preset's output path has to ask here.
+        if (await uriExists(target)) {
+          const answer = await vscode.window.showWarningMessage(
+            `${relative} already exists. Replace it?`,
+            { modal: true },
+            'Replace'
+          );
+          if (answer !== 'Replace') return undefined;
+        }
+        await vscode.workspace.fs.createDirectory(
+          vscode.Uri.joinPath(target, '..')
+        );
+        return target;
+      } catch (error) {
+        void vscode.window.showErrorMessage(
+          `Export preset "${preset.name}" failed: ${getErrorMessage(error)}`
+        );
+        return undefined;
+      }
+    }
+
+    const labels: Record<ExportPresetFormat, [string, string]> = {
+      html: ['HTML', 'Export HTML'],
+      pdf: ['PDF', 'Export PDF'],
+      docx: ['Word Document', 'Export DOCX']
+    };
+    const [filterName, saveLabel] = labels[format];
+    return vscode.window.showSaveDialog({
+      defaultUri: source.with({
+        path: source.path.replace(/\.md$/i, `.${format}`)
+      }),
+      filters: { [filterName]: [format] },
+      saveLabel
+    });
+  }
+
+  async exportFolder(folder?: vscode.Uri): Promise<void> {
+    const source = await this.pickFolderExportSource(folder, 'Export Folder');
+    if (!source) return;
+    const { sourceRoot, files } = source;
+
+    const format = await vscode.window.showQuickPick(
+      [
+        {
+          label: 'HTML',
+          description: 'One self-contained HTML file per document',
+          value: 'html' as FolderExportFormat
+        },
+        {
+          label: 'PDF',
+          description: 'Requires a local Chrome, Edge or Chromium',
+          value: 'pdf' as FolderExportFormat
+        }
+      ],
+      { placeHolder: `Export ${files.length} Markdown file(s) as…` }
+    );
+    if (!format) return;
+
+    const outputRoot = await pickFolderExportOutput(sourceRoot);
+    if (!outputRoot) return;
+
+    const settings = getSettings(sourceRoot);
+    let pageOptions: PdfPageOptions | undefined;
+    if (format.value === 'pdf') {
+      const pdfSettings = await pickPdfExportSettings(settings.pdf);
+      if (!pdfSettings) return;
+      try {
+        pageOptions = resolvePdfPageOptions(pdfSettings);
+      } catch (error) {
+        void vscode.window.showErrorMessage(
+          `PDF export failed: ${getErrorMessage(error)}`
+        );
+        return;
+      }
+    }
+    if (!(await confirmFolderExport(sourceRoot, settings))) return;
+
+    const exportedDocuments = new Set(files.map((file) => file.toString()));
+    const failures: FolderExportFailure[] = [];
+    let exported = 0;
+    let cancelled = false;
+    let pdfWarning: string | undefined;
+    const tempDir =
+      format.value === 'pdf'
+        ? await fs.mkdtemp(path.join(os.tmpdir(), 'omv-pdf-'))
+        : undefined;
+    try {
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Exporting Markdown to ${format.label}`,
+          cancellable: true
+        },
+        async (progress, token) => {
+          for (const [index, file] of files.entries()) {
+            if (token.isCancellationRequested) break;
+            const label = vscode.workspace.asRelativePath(file);
+            progress.report({
+              increment: index === 0 ? 0 : 100 / files.length,
+              message: `${index + 1}/${files.length} ${label}`
+            });
+            try {
+              const target = getFolderExportTarget(
+                sourceRoot,
+                outputRoot,
+                file,
+                format.value
+              );
+              await vscode.workspace.fs.createDirectory(
+                vscode.Uri.joinPath(target, '..')
+              );
+              const rendered = await this.renderDocumentForFolderExport(
+                file,
+                settings,
+                exportedDocuments,
+                format.value
+              );
+              let { html } = rendered;
+
+              if (!pageOptions || !tempDir) {
+                const document = await this.buildStandaloneHtml(
+                  html,
+                  file,
+                  rendered.settings,
+                  undefined,
+                  rendered.frontmatter
+                );
+                await vscode.workspace.fs.writeFile(
+                  target,
+                  Buffer.from(document, 'utf8')
+                );
+              } else {
+                if (pageOptions.contentsPage) {
+                  html = buildPdfContentsHtml(rendered.toc) + html;
+                }
+                const document = await this.buildStandaloneHtml(
+                  html,
+                  file,
+                  rendered.settings,
+                  undefined,
+                  rendered.frontmatter,
+                  buildPdfPrintCss(pageOptions)
+                );
+                const tempHtmlPath = path.join(tempDir, `${index}.print.html`);
+                await fs.writeFile(tempHtmlPath, document, 'utf8');
+                const pdfExport = await this.tryHeadlessPdfExport(
+                  vscode.Uri.file(tempHtmlPath),
+                  target,
+                  pageOptions,
+                  getExportTitle(file, rendered.frontmatter)
+                );
+                if (!pdfExport.ok) throw new Error(pdfExport.reason);
+                pdfWarning ??= pdfExport.warning;
+              }
+              exported += 1;
+            } catch (error) {
+              failures.push({ file: label, reason: getErrorMessage(error) });
+            }
+          }
+          cancelled = token.isCancellationRequested;
+        }
+      );
+    } finally {
+      if (tempDir) {
+        await fs
+          .rm(tempDir, { recursive: true, force: true })
+          .catch(() => undefined);
+      }
+    }
+
+    await showFolderExportSummary(
+      `Exported ${exported} of ${files.length} document(s) to ${outputRoot.fsPath}`,
+      cancelled,
+      failures
+    );
+    if (pdfWarning) {
+      void vscode.window.showWarningMessage(`Folder export: ${pdfWarning}`);
+    }
+  }
+
+  async exportStaticSite(folder?: vscode.Uri): Promise<void> {
+    const source = await this.pickFolderExportSource(
+      folder,
+      'Export Static Site'
+    );
+    if (!source) return;
+    const { sourceRoot, files } = source;
+    const outputRoot = await pickFolderExportOutput(sourceRoot);
+    if (!outputRoot) return;
+    const settings = getSettings(sourceRoot);
+    if (!(await confirmFolderExport(sourceRoot, settings))) return;
+
+    const exportedDocuments = new Set(files.map((file) => file.toString()));
+    const failures: FolderExportFailure[] = [];
+    const rendered: Array<{
+      file: vscode.Uri;
+      target: vscode.Uri;
+      page: StaticSitePage;
+      document: RenderedFolderExportDocument;
+    }> = [];
+    let written = 0;
+    let cancelled = false;
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Exporting static site',
+        cancellable: true
+      },
+      async (progress, token) => {
+        // Render everything first: each page's sidebar and the search index need every page.
+        for (const [index, file] of files.entries()) {
+          if (token.isCancellationRequested) break;
+          const label = vscode.workspace.asRelativePath(file);
+          progress.report({
+            increment: index === 0 ? 0 : 50 / files.length,
+            message: `Rendering ${index + 1}/${files.length} ${label}`
+          });
+          try {
+            const document = await this.renderDocumentForFolderExport(
+              file,
+              settings,
+              exportedDocuments,
+              'html'
+            );
+            const target = getFolderExportTarget(
+              sourceRoot,
+              outputRoot,
+              file,
+              'html'
+            );
+            const order = Number(document.frontmatter?.data.order);
+            rendered.push({
+              file,
+              target,
+              document,
+              page: {
+                path: path.posix.relative(outputRoot.path, target.path),
+                title: getExportTitle(file, document.frontmatter),
+                order:
+                  document.frontmatter?.data.order !== undefined &&
+                  Number.isFinite(order)
+                    ? order
+                    : undefined,
+                toc: document.toc,
+                text: htmlToSearchText(document.html)
+              }
+            });
+          } catch (error) {
+            failures.push({ file: label, reason: getErrorMessage(error) });
+          }
+        }
+        cancelled = token.isCancellationRequested;
+        if (cancelled || rendered.length === 0) return;
+
+        const pages = rendered.map((entry) => entry.page);
+        const nav = buildStaticSiteNavigation(pages);
+        const siteTitle = path.posix.basename(sourceRoot.path);
+        const homePath = pages.find((page) =>
+          /^(?:index|readme)\.html$/i.test(page.path)
+        )?.path;
+        await vscode.workspace.fs.createDirectory(outputRoot);
+        await vscode.workspace.fs.writeFile(
+          vscode.Uri.joinPath(outputRoot, STATIC_SITE_SEARCH_INDEX_FILE),
+          Buffer.from(buildStaticSiteSearchIndex(pages), 'utf8')
+        );
+        await vscode.workspace.fs.writeFile(
+          vscode.Uri.joinPath(outputRoot, STATIC_SITE_SCRIPT_FILE),
+          Buffer.from(STATIC_SITE_SCRIPT, 'utf8')
+        );
+        for (const { file, target, page, document } of rendered) {
+          if (token.isCancellationRequested) break;
+          progress.report({
+            increment: 50 / rendered.length,
+            message: `Writing ${page.path}`
+          });
+          try {
+            await vscode.workspace.fs.createDirectory(
+              vscode.Uri.joinPath(target, '..')
+            );
+            const html = await this.buildStandaloneHtml(
+              document.html,
+              file,
+              document.settings,
+              undefined,
+              document.frontmatter,
+              undefined,
+              buildStaticSitePageChrome({ siteTitle, homePath, nav, page })
+            );
+            await vscode.workspace.fs.writeFile(
+              target,
+              Buffer.from(html, 'utf8')
+            );
+            written += 1;
+          } catch (error) {
+            failures.push({
+              file: vscode.workspace.asRelativePath(file),
+              reason: getErrorMessage(error)
+            });
+          }
+        }
+        cancelled = token.isCancellationRequested;
+      }
+    );
+
+    await showFolderExportSummary(
+      `Exported ${written} of ${files.length} page(s) to ${outputRoot.fsPath}`,
+      cancelled,
+      failures
+    );
+  }
+
+  private async pickFolderExportSource(
+    folder: vscode.Uri | undefined,
+    openLabel: string
+  ): Promise<{ sourceRoot: vscode.Uri; files: vscode.Uri[] } | undefined> {
+    const sourceRoot =
+      folder ??
+      (
+        await vscode.window.showOpenDialog({
+          canSelectFiles: false,
+          canSelectFolders: true,
+          canSelectMany: false,
+          defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+          openLabel
+        })
+      )?.[0];
+    if (!sourceRoot) return undefined;
+
+    const files = (
+      await vscode.workspace.findFiles(
+        new vscode.RelativePattern(sourceRoot, '**/*.{md,markdown}'),
+        '**/node_modules/**'
+      )
+    )
+      .filter(isMarkdownFile)
+      .sort((a, b) => a.path.localeCompare(b.path));
+    if (files.length === 0) {
+      void vscode.window.showInformationMessage(
+        `No Markdown files in ${vscode.workspace.asRelativePath(sourceRoot)}.`
+      );
+      return undefined;
+    }
+    return { sourceRoot, files };
+  }
+
+  // Renders a document for a folder export without a webview: raw HTML is sanitized as in the
+  // preview, math is typeset, local images are rewritten (or embedded) and links to other exported
+  // documents point at their exported copies.
+  private async renderDocumentForFolderExport(
+    file: vscode.Uri,
+    exportSettings: RuntimeSettings,
+    exportedDocuments: ReadonlySet<string>,
+    format: FolderExportFormat
+  ): Promise<RenderedFolderExportDocument> {
+    const settings = getSettings(file);
+    const text = await readWorkspaceText(file);
+    const includes = await loadMarkdownIncludes(text, file);
+    const result = renderMarkdown(text, {
+      sourceUri: file,
+      webview: { asWebviewUri: (uri) => uri },
+      allowHtml: true,
+      allowRemoteImages: settings.allowRemoteImages,
+      remoteImageOverrides: await this.remoteImageCache.getOverrides(
+        await this.resolveRemoteImageCacheDir(file)
+      ),
+      maxImageMB: settings.maxImageMB,
+      includes,
+      resolveWikiLink: await this.getWikiLinkResolver(text, includes, file),
+      headingSlugs: settings.headingSlugs
+    });
+    const rendered = exportSettings.sanitizeHtml
+      ? await sanitizeExportHtml(result.html)
+      : result.html;
+    let html = renderStaticEnhancements(rendered, {
+      enableMath: settings.enableMath
+    });
+    html = this.rewriteLocalImageSourcesForExport(html);
+    if (exportSettings.embedImages) {
+      html = await this.embedLocalImages(html, settings.maxImageMB);
+    }
+    html = rewriteExportedDocumentLinks(html, file, exportedDocuments, format);
+    return { html, settings, frontmatter: result.frontmatter, toc: result.toc };
+  }
+
   async toggleScrollSync(): Promise<void> {
     const editor = this.currentEditor;
     const cfg = vscode.workspace.getConfiguration(
@@ -854,9 +1740,19 @@ export class PreviewController implements vscode.Disposable {
   }
 
   async copyHeadingLink(item?: TocItem): Promise<void> {
-    const editor = this.currentEditor;
+    const session = this.activeSession;
+    const editor = session
+      ? this.getSessionEditor(session)
+      : this.currentEditor;
     if (!editor) return;
-    const toc = this.state.toc;
+    // Without a preview the ids come from the same slugger the preview would use.
+    const toc =
+      session?.state.toc ??
+      collectMarkdownHeadings(
+        editor.document.getText(),
+        undefined,
+        getSettings(editor.document.uri).headingSlugs
+      );
     let heading = item;
     if (!heading) {
       const activeLine = editor.selection.active.line;
@@ -876,13 +1772,15 @@ export class PreviewController implements vscode.Disposable {
   }
 
   async revealHeadingItem(item: TocItem): Promise<void> {
-    await this.revealHeading(item.id);
+    if (!this.activeSession) return;
+    await this.revealHeading(this.activeSession, item.id);
   }
 
   async quickPickHeading(): Promise<void> {
-    const editor = this.currentEditor;
-    if (!editor) return;
-    const items = this.state.toc.map((t) => ({
+    const session = this.activeSession;
+    const editor = session ? this.getSessionEditor(session) : undefined;
+    if (!session || !editor) return;
+    const items = session.state.toc.map((t) => ({
       label: `${'  '.repeat(Math.max(0, t.level - 1))}${t.text}`,
       description: `Line ${t.line + 1}`,
       heading: t
@@ -924,6 +1822,267 @@ export class PreviewController implements vscode.Disposable {
     );
   }
 
+  async downloadAllRemoteImages(): Promise<void> {
+    const session = await this.resolveExportSession();
+    if (!session) return;
+    await this.downloadAllRemoteImagesForSession(session);
+  }
+
+  async localizeRemoteImages(): Promise<void> {
+    const document =
+      this.currentEditor?.document ?? this.activeSession?.document;
+    if (!document) {
+      void vscode.window.showInformationMessage(
+        'Open a Markdown document to localize its remote images.'
+      );
+      return;
+    }
+    const urls = findRemoteImageUrls(document.getText());
+    if (urls.length === 0) {
+      void vscode.window.showInformationMessage(
+        'No remote images in this document.'
+      );
+      return;
+    }
+
+    const settings = getSettings(document.uri);
+    const assetsDir = this.resolveLocalizedImagesDir(
+      document.uri,
+      settings.localizedImagesFolder
+    );
+    if (!assetsDir) {
+      void vscode.window.showErrorMessage(
+        `localizeImages.assetsFolder must be a relative path inside the workspace folder: ${settings.localizedImagesFolder}`
+      );
+      return;
+    }
+
+    const cacheDir = await this.resolveRemoteImageCacheDir(document.uri);
+    const edit = new vscode.WorkspaceEdit();
+    const metadata: vscode.WorkspaceEditEntryMetadata = {
+      needsConfirmation: true,
+      label: 'Localize remote images'
+    };
+    const localPaths = new Map<string, string>();
+    const failures: Array<{ url: string; reason: string }> = [];
+    let cancelled = false;
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Localizing remote images',
+        cancellable: true
+      },
+      async (progress, token) => {
+        const abort = new AbortController();
+        const cancellation = token.onCancellationRequested(() => abort.abort());
+        const overrides = await this.remoteImageCache.getOverrides(cacheDir);
+        try {
+          for (const [index, url] of urls.entries()) {
+            if (token.isCancellationRequested) break;
+            progress.report({
+              increment: index === 0 ? 0 : 100 / urls.length,
+              message: `${index + 1}/${urls.length}`
+            });
+            try {
+              // Cached copies already passed the download checks; everything else is fetched now.
+              const cached =
+                overrides.get(url) ??
+                (await this.downloadRemoteImageToCache(
+                  url,
+                  cacheDir,
+                  settings.maxImageMB,
+                  { documentUri: document.uri, signal: abort.signal }
+                ));
+              const contents = await vscode.workspace.fs.readFile(cached);
+              const target = vscode.Uri.joinPath(
+                assetsDir,
+                getLocalizedImageFileName(url, path.extname(cached.path))
+              );
+              if (!(await hasFileContents(target, contents))) {
+                edit.createFile(
+                  target,
+                  { overwrite: true, contents },
+                  metadata
+                );
+              }
+              localPaths.set(
+                url,
+                path.posix
+                  .relative(path.posix.dirname(document.uri.path), target.path)
+                  .replace(/ /g, '%20')
+              );
+            } catch (error) {
+              if (!token.isCancellationRequested) {
+                failures.push({ url, reason: getErrorMessage(error) });
+              }
+            }
+          }
+        } finally {
+          cancelled = token.isCancellationRequested;
+          cancellation.dispose();
+        }
+      }
+    );
+    await this.enforceRemoteImageCacheLimits(cacheDir, document.uri);
+    if (cancelled) return;
+
+    // Offsets come from the text as it is now, in case the document was edited during downloads.
+    const text = document.getText();
+    for (const replacement of rewriteRemoteImageUrls(text, localPaths)) {
+      edit.replace(
+        document.uri,
+        new vscode.Range(
+          document.positionAt(replacement.start),
+          document.positionAt(replacement.end)
+        ),
+        replacement.text,
+        metadata
+      );
+    }
+
+    const failureDetail = failures
+      .map((failure) => `${failure.url}\n  ${failure.reason}`)
+      .join('\n');
+    if (localPaths.size === 0) {
+      void vscode.window.showWarningMessage(
+        `Could not download any of the ${urls.length} remote image(s).`,
+        { modal: true, detail: failureDetail }
+      );
+      return;
+    }
+
+    // Entries that need confirmation open the refactor preview, which shows each change as a diff.
+    const applied = await vscode.workspace.applyEdit(edit);
+    if (!applied) return;
+    const summary = `Localized ${localPaths.size} of ${urls.length} remote image(s) into ${vscode.workspace.asRelativePath(assetsDir)}`;
+    if (failures.length === 0) {
+      void vscode.window.showInformationMessage(`${summary}.`);
+      return;
+    }
+    void vscode.window.showWarningMessage(
+      `${summary}; ${failures.length} failed.`,
+      { modal: true, detail: failureDetail }
+    );
+  }
+
+  async manageRemoteImageCache(): Promise<void> {
+    const currentDocument = this.currentEditor?.document.uri.toString();
+    const now = Date.now();
+    const items: Array<
+      vscode.QuickPickItem & {
+        entry: RemoteImageCacheEntry;
+        cacheDir: vscode.Uri;
+      }
+    > = [];
+    for (const location of this.getRemoteImageCacheLocations()) {
+      await this.enforceRemoteImageCacheLimits(location.uri, location.uri);
+      for (const entry of await this.remoteImageCache.getEntries(
+        location.uri
+      )) {
+        const documents = entry.documents.map((document) =>
+          vscode.workspace.asRelativePath(vscode.Uri.parse(document), false)
+        );
+        items.push({
+          label: entry.url,
+          description: `${formatBytes(entry.size)} · downloaded ${formatAge(now - entry.fetchedAt)}`,
+          detail:
+            documents.length > 0
+              ? `Used by ${documents.join(', ')}`
+              : 'Not referenced by a previewed document yet',
+          entry,
+          cacheDir: location.uri
+        });
+      }
+    }
+    if (items.length === 0) {
+      void vscode.window.showInformationMessage('Remote image cache is empty.');
+      return;
+    }
+
+    // Images of the active document first, then the most recently used.
+    const usedByCurrent = (item: (typeof items)[number]) =>
+      currentDocument !== undefined &&
+      item.entry.documents.includes(currentDocument);
+    items.sort(
+      (a, b) =>
+        Number(usedByCurrent(b)) - Number(usedByCurrent(a)) ||
+        b.entry.lastUsedAt - a.entry.lastUsedAt
+    );
+
+    const picked = await vscode.window.showQuickPick(items, {
+      canPickMany: true,
+      matchOnDescription: true,
+      matchOnDetail: true,
+      placeHolder: 'Select cached remote images to remove or refresh'
+    });
+    if (!picked || picked.length === 0) return;
+
+    const action = await vscode.window.showQuickPick(
+      [
+        {
+          label: 'Remove',
+          description: 'Delete the cached files; previews block them again',
+          value: 'remove' as const
+        },
+        {
+          label: 'Refresh',
+          description: 'Download the images again from their source URLs',
+          value: 'refresh' as const
+        }
+      ],
+      { placeHolder: `${picked.length} cached image(s) selected` }
+    );
+    if (!action) return;
+
+    const failures: string[] = [];
+    if (action.value === 'remove') {
+      for (const item of picked) {
+        await this.remoteImageCache.remove(item.cacheDir, [item.entry.url]);
+      }
+    } else {
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: 'Refreshing cached remote images'
+        },
+        async () => {
+          for (const item of picked) {
+            const documentUri = item.entry.documents[0]
+              ? vscode.Uri.parse(item.entry.documents[0])
+              : undefined;
+            try {
+              await this.downloadRemoteImageToCache(
+                item.entry.url,
+                item.cacheDir,
+                getSettings(documentUri ?? item.cacheDir).maxImageMB,
+                { documentUri }
+              );
+            } catch (error) {
+              failures.push(`${item.entry.url}: ${getErrorMessage(error)}`);
+            }
+          }
+        }
+      );
+    }
+
+    for (const session of this.sessions) {
+      await this.renderNow(session);
+    }
+
+    const verb = action.value === 'remove' ? 'Removed' : 'Refreshed';
+    const succeeded = picked.length - failures.length;
+    if (failures.length === 0) {
+      void vscode.window.showInformationMessage(
+        `${verb} ${succeeded} cached remote image(s).`
+      );
+      return;
+    }
+    void vscode.window.showWarningMessage(
+      `${verb} ${succeeded} of ${picked.length} cached remote image(s); ${failures.length} failed.`,
+      { modal: true, detail: failures.join('\n') }
+    );
+  }
+
   async clearRemoteImageCache(): Promise<void> {
     const usage = await this.collectRemoteImageCacheUsage();
     if (usage.totalFiles === 0) {
@@ -956,9 +2115,9 @@ export class PreviewController implements vscode.Disposable {
       }
     }
 
-    this.remoteImageOverrides.clear();
-    if (this.panel && this.currentEditor?.document.languageId === 'markdown') {
-      await this.renderNow();
+    this.remoteImageCache.reset();
+    for (const session of this.sessions) {
+      await this.renderNow(session);
     }
 
     const after = await this.collectRemoteImageCacheUsage();
@@ -983,17 +2142,250 @@ export class PreviewController implements vscode.Disposable {
     return provider;
   }
 
-  private scheduleRender(force = false): void {
-    if (!this.panel) return;
-    const editor = this.currentEditor;
-    if (!editor || editor.document.languageId !== 'markdown') return;
-    const delay = force ? 0 : getSettings(editor.document.uri).debounceMs;
-    if (this.renderTimer) clearTimeout(this.renderTimer);
-    this.renderTimer = setTimeout(() => {
-      void this.renderNow();
+  private updateActiveHeading(topLine: number | undefined): void {
+    // Track the heading whose section is at the top of the editor so the outline view can follow it.
+    const heading =
+      topLine === undefined
+        ? undefined
+        : [...(this.activeSession?.state.toc ?? [])]
+            .reverse()
+            .find((t) => t.line <= topLine);
+    if (heading?.id === this.activeHeadingId) return;
+    this.activeHeadingId = heading?.id;
+    this.activeHeadingEmitter.fire(heading);
+  }
+
+  private scheduleRender(session: PreviewSession, force = false): void {
+    const delay = force ? 0 : getSettings(session.document.uri).debounceMs;
+    if (session.renderTimer) clearTimeout(session.renderTimer);
+    session.renderTimer = setTimeout(() => {
+      session.renderTimer = undefined;
+      void this.renderNow(session);
     }, delay);
   }
 
+  private findSessionsForDocument(uri: vscode.Uri): PreviewSession[] {
+    const key = uri.toString();
+    return this.sessions
+      .filter((session) => session.document.uri.toString() === key)
+      .reverse();
+  }
+
+  private findSessionsIncluding(uri: vscode.Uri): PreviewSession[] {
+    const key = uri.toString();
+    return this.sessions.filter((session) => session.includedUris.has(key));
+  }
+
+  private findSessionsUsingCustomCss(uri: vscode.Uri): PreviewSession[] {
+    return this.sessions.filter((session) =>
+      this.isCurrentCustomCssUri(session, uri)
+    );
+  }
+
+  // The most recently active unlocked preview follows the active Markdown editor.
+  private getFollowingSession(): PreviewSession | undefined {
+    for (let i = this.sessions.length - 1; i >= 0; i -= 1) {
+      const session = this.sessions[i];
+      if (session && !session.locked) return session;
+    }
+    return undefined;
+  }
+
+  private getSessionEditor(
+    session: PreviewSession
+  ): vscode.TextEditor | undefined {
+    const key = session.document.uri.toString();
+    if (this.currentEditor?.document.uri.toString() === key) {
+      return this.currentEditor;
+    }
+    return (
+      vscode.window.visibleTextEditors.find(
+        (editor) => editor.document.uri.toString() === key
+      ) ?? session.editor
+    );
+  }
+
+  private getWebviewOptions(): vscode.WebviewOptions {
+    return {
+      enableScripts: true,
+      // Restrict file access to extension-bundled assets plus current workspace roots only.
+      localResourceRoots: [
+        vscode.Uri.joinPath(this.context.extensionUri, 'dist', 'webview-ui'),
+        this.context.globalStorageUri,
+        ...(vscode.workspace.workspaceFolders?.map((f) => f.uri) ?? [])
+      ]
+    };
+  }
+
+  private async attachSession(
+    panel: vscode.WebviewPanel,
+    document: vscode.TextDocument,
+    editor: vscode.TextEditor | undefined
+  ): Promise<PreviewSession> {
+    const settings = getSettings(document.uri);
+    const customCss = await resolveCustomCss(document.uri);
+    panel.webview.html = await this.buildWebviewHtml(
+      panel.webview,
+      settings,
+      customCss.cssTexts
+    );
+
+    const session: PreviewSession = {
+      panel,
+      document,
+      editor,
+      locked: false,
+      state: { toc: [] },
+      renderTimer: undefined,
+      webviewAllowsRemoteImages: settings.allowRemoteImages,
+      webviewCustomCssDirty: false,
+      webviewCustomCssKey: customCss.key,
+      webviewCustomCssTexts: customCss.cssTexts,
+      includedUris: new Set(),
+      pendingHtmlExportSnapshot: undefined,
+      pendingDocxSnapshot: undefined,
+      disposables: []
+    };
+    session.disposables.push(
+      panel.onDidDispose(() => {
+        this.handleSessionDisposed(session);
+      }),
+      panel.onDidChangeViewState((event) => {
+        this.lastPreviewColumn =
+          event.webviewPanel.viewColumn ?? this.lastPreviewColumn;
+        if (event.webviewPanel.active) {
+          this.setActiveSession(session);
+        }
+      }),
+      panel.webview.onDidReceiveMessage((msg: unknown) => {
+        void this.handleWebviewMessage(session, msg);
+      })
+    );
+
+    this.sessions.push(session);
+    this.setActiveSession(session);
+    return session;
+  }
+
+  private retargetSession(
+    session: PreviewSession,
+    editor: vscode.TextEditor
+  ): void {
+    session.editor = editor;
+    session.webviewCustomCssDirty = true;
+    if (session.document.uri.toString() === editor.document.uri.toString()) {
+      session.document = editor.document;
+      return;
+    }
+    session.document = editor.document;
+    session.state = { toc: [] };
+  }
+
+  private setActiveSession(session: PreviewSession): void {
+    const index = this.sessions.indexOf(session);
+    if (index < 0) return;
+    this.sessions.splice(index, 1);
+    this.sessions.push(session);
+    void vscode.commands.executeCommand(
+      'setContext',
+      'offlineMarkdownViewer.previewLocked',
+      session.locked
+    );
+    if (this.activeSession === session) return;
+    this.activeSession = session;
+    this.outlineEmitter.fire(session.state.toc);
+    this.activeDocumentEmitter.fire(session.document.uri);
+    this.activeHeadingId = undefined;
+    this.updateActiveHeading(
+      this.getSessionEditor(session)?.visibleRanges?.[0]?.start.line
+    );
+  }
+
+  private handleSessionDisposed(session: PreviewSession): void {
+    const index = this.sessions.indexOf(session);
+    if (index < 0) return;
+    this.sessions.splice(index, 1);
+    this.lastPreviewColumn = session.panel.viewColumn ?? this.lastPreviewColumn;
+    if (session.renderTimer) clearTimeout(session.renderTimer);
+    if (session.pendingHtmlExportSnapshot) {
+      clearTimeout(session.pendingHtmlExportSnapshot.timer);
+      session.pendingHtmlExportSnapshot.resolve(undefined);
+      session.pendingHtmlExportSnapshot = undefined;
+    }
+    if (session.pendingDocxSnapshot) {
+      clearTimeout(session.pendingDocxSnapshot.timer);
+      session.pendingDocxSnapshot.resolve(undefined);
+      session.pendingDocxSnapshot = undefined;
+    }
+    for (const d of session.disposables) {
+      d.dispose();
+    }
+    session.disposables = [];
+    if (this.activeSession !== session) return;
+
+    this.activeSession = undefined;
+    const next = this.sessions[this.sessions.length - 1];
+    if (next) {
+      this.setActiveSession(next);
+      return;
+    }
+    this.outlineEmitter.fire([]);
+    this.activeDocumentEmitter.fire(undefined);
+    this.updateActiveHeading(undefined);
+    void vscode.commands.executeCommand(
+      'setContext',
+      'offlineMarkdownViewer.previewLocked',
+      false
+    );
+  }
+
+  private async setPreviewLocked(locked: boolean): Promise<void> {
+    const session = this.activeSession;
+    if (!session) {
+      void vscode.window.showInformationMessage(
+        'Open a Markdown preview to lock it.'
+      );
+      return;
+    }
+    session.locked = locked;
+    session.panel.title = getPreviewTitle(session);
+    await vscode.commands.executeCommand(
+      'setContext',
+      'offlineMarkdownViewer.previewLocked',
+      locked
+    );
+    if (locked) return;
+
+    // An unlocked preview resumes following the active Markdown editor.
+    const editor = this.currentEditor;
+    if (
+      editor?.document.languageId === 'markdown' &&
+      editor.document.uri.toString() !== session.document.uri.toString() &&
+      this.findSessionsForDocument(editor.document.uri).length === 0
+    ) {
+      this.retargetSession(session, editor);
+      await this.renderNow(session);
+    }
+  }
+
+  private async resolveExportSession(): Promise<PreviewSession | undefined> {
+    const editor = this.currentEditor;
+    let session =
+      this.activeSession ??
+      (editor
+        ? this.findSessionsForDocument(editor.document.uri)[0]
+        : undefined);
+    if (!session) {
+      if (!editor) return undefined;
+      await this.openPreview(true);
+      session = this.activeSession;
+    }
+    if (session && !session.state.snapshot) {
+      await this.renderNow(session);
+    }
+    return session;
+  }
+
   private async relocateMarkdownOutOfPreviewColumn(
     editor: vscode.TextEditor,
     previewColumn: vscode.ViewColumn
@@ -1013,11 +2405,16 @@ export class PreviewController implements vscode.Disposable {
         );
       }
       this.currentEditor = relocated;
-      if (!this.panel) {
+      const session =
+        this.findSessionsForDocument(relocated.document.uri)[0] ??
+        this.getFollowingSession();
+      if (!session) {
         await this.openPreview(false, true, previewColumn, relocated);
       } else {
-        this.panel.reveal(this.panel.viewColumn ?? previewColumn, true);
-        await this.renderNow();
+        this.retargetSession(session, relocated);
+        this.setActiveSession(session);
+        session.panel.reveal(session.panel.viewColumn ?? previewColumn, true);
+        await this.renderNow(session);
       }
     } finally {
       this.relocatingEditor = false;
@@ -1049,11 +2446,21 @@ export class PreviewController implements vscode.Disposable {
     }
   }
 
+  private async autoOpenAtStartup(): Promise<void> {
+    const editor = this.currentEditor;
+    if (editor?.document.languageId !== 'markdown') return;
+    const before = new Set(this.sessions);
+    await this.tryAutoOpenPreview(editor);
+    this.startupAutoOpenedSession = this.sessions.find(
+      (session) => !before.has(session)
+    );
+  }
+
   private async tryAutoOpenPreview(editor: vscode.TextEditor): Promise<void> {
-    if (this.autoOpenInFlight) return;
+    if (this.autoOpenInFlight || this.startupAutoOpenTimer) return;
     const settings = getSettings(editor.document.uri);
     if (!settings.autoOpenPreview) return;
-    if (this.panel?.visible) return;
+    if (this.sessions.some((session) => session.panel.visible)) return;
 
     this.autoOpenInFlight = true;
     try {
@@ -1063,18 +2470,33 @@ export class PreviewController implements vscode.Disposable {
     }
   }
 
-  private async renderNow(): Promise<void> {
-    const panel = this.panel;
-    const editor = this.currentEditor;
-    if (!panel || !editor || editor.document.languageId !== 'markdown') return;
+  // The page index is only built once a rendered document (or a file it includes) has wiki links.
+  private async getWikiLinkResolver(
+    text: string,
+    includes: ReadonlyMap<string, string | undefined>,
+    source: vscode.Uri
+  ): Promise<WikiLinkResolver | undefined> {
+    const texts = [text, ...includes.values()];
+    if (!texts.some((value) => value?.includes('[['))) return undefined;
+    await this.workspaceIndex.ready();
+    return (target) => this.workspaceIndex.resolveWikiLink(target, source);
+  }
 
-    const settings = getSettings(editor.document.uri);
-    if (await this.refreshWebviewShellIfNeeded(editor.document.uri, settings)) {
+  private async renderNow(session: PreviewSession): Promise<void> {
+    if (!this.sessions.includes(session)) return;
+    const panel = session.panel;
+    const document = session.document;
+    if (document.languageId !== 'markdown') return;
+
+    const settings = getSettings(document.uri);
+    if (
+      await this.refreshWebviewShellIfNeeded(session, document.uri, settings)
+    ) {
       return;
     }
     if (!settings.sanitizeHtml) {
       if (!this.unsafeHtmlAcknowledged) {
-        if (!(await confirmSanitizeDisabled(editor.document.uri))) {
+        if (!(await confirmSanitizeDisabled(document.uri))) {
           return;
         }
         this.unsafeHtmlAcknowledged = true;
@@ -1082,20 +2504,44 @@ export class PreviewController implements vscode.Disposable {
     } else {
       this.unsafeHtmlAcknowledged = false;
     }
-    const result = renderMarkdown(editor.document.getText(), {
-      sourceUri: editor.document.uri,
+    const remoteImageCacheDir = await this.resolveRemoteImageCacheDir(
+      document.uri
+    );
+    const remoteImageOverrides =
+      await this.remoteImageCache.getOverrides(remoteImageCacheDir);
+    const text = document.getText();
+    const includes = await loadMarkdownIncludes(text, document.uri);
+    session.includedUris = new Set(includes.keys());
+    const resolveWikiLink = await this.getWikiLinkResolver(
+      text,
+      includes,
+      document.uri
+    );
+    if (!this.sessions.includes(session)) return;
+    const result = renderMarkdown(text, {
+      sourceUri: document.uri,
       webview: panel.webview,
       allowHtml: true,
       allowRemoteImages: settings.allowRemoteImages,
-      remoteImageOverrides: this.remoteImageOverrides,
-      maxImageMB: settings.maxImageMB
+      remoteImageOverrides,
+      maxImageMB: settings.maxImageMB,
+      includes,
+      resolveWikiLink,
+      headingSlugs: settings.headingSlugs
     });
+    void this.remoteImageCache
+      .markUsed(
+        remoteImageCacheDir,
+        collectUsedCacheUrls(result.html, remoteImageOverrides),
+        document.uri
+      )
+      .catch(() => undefined);
 
-    this.state = {
+    session.state = {
       toc: result.toc,
       snapshot: {
-        uri: editor.document.uri,
-        version: editor.document.version,
+        uri: document.uri,
+        version: document.version,
         html: result.html,
         toc: result.toc,
         frontmatter: result.frontmatter,
@@ -1103,18 +2549,29 @@ export class PreviewController implements vscode.Disposable {
       }
     };
 
-    this.outlineEmitter.fire(result.toc);
-    this.panel.title = `Offline Preview: ${path.basename(editor.document.uri.fsPath)}`;
+    if (session === this.activeSession) {
+      this.outlineEmitter.fire(result.toc);
+      this.activeDocumentEmitter.fire(document.uri);
+      this.updateActiveHeading(
+        this.getSessionEditor(session)?.visibleRanges?.[0]?.start.line
+      );
+    }
+    panel.title = getPreviewTitle(session);
+    this.renderEmitter.fire({
+      document,
+      toc: result.toc,
+      links: result.links
+    });
 
-    this.postMessage({
+    this.postMessage(session, {
       type: 'render',
       requestId: ++this.renderRequestId,
-      documentUri: editor.document.uri.toString(),
-      version: editor.document.version,
+      documentUri: document.uri.toString(),
+      version: document.version,
       html: result.html,
       toc: result.toc,
       frontmatter: result.frontmatter,
-      editorLineCount: editor.document.lineCount,
+      editorLineCount: document.lineCount,
       settings: {
         enableMermaid: settings.enableMermaid,
         enableMath: settings.enableMath,
@@ -1126,9 +2583,70 @@ export class PreviewController implements vscode.Disposable {
         )
       }
     });
+    void this.postBacklinks(session);
+  }
+
+  getActiveDocumentUri(): vscode.Uri | undefined {
+    return this.activeSession?.document.uri;
+  }
+
+  // Backlinks follow the render: the first one waits for the workspace index to be built.
+  private async postBacklinks(session: PreviewSession): Promise<void> {
+    await this.workspaceIndex.ready();
+    if (!this.sessions.includes(session)) return;
+    const uri = session.document.uri;
+    const items: BacklinkItem[] = this.workspaceIndex
+      .getBacklinks(uri)
+      .map((backlink) => ({
+        uri: backlink.source.toString(),
+        path: vscode.workspace.asRelativePath(backlink.source, false),
+        line: backlink.line,
+        text: backlink.text
+      }));
+    this.postMessage(session, {
+      type: 'backlinks',
+      documentUri: uri.toString(),
+      items
+    });
+  }
+
+  // Only documents the index lists as linking here can be opened this way.
+  private async openBacklink(
+    session: PreviewSession,
+    uri: string,
+    line: number
+  ): Promise<void> {
+    const backlink = this.workspaceIndex
+      .getBacklinks(session.document.uri)
+      .find(
+        (candidate) =>
+          candidate.source.toString() === uri && candidate.line === line
+      );
+    if (!backlink) return;
+    try {
+      const document = await vscode.workspace.openTextDocument(backlink.source);
+      const editor = await vscode.window.showTextDocument(document, {
+        viewColumn:
+          this.getSessionEditor(session)?.viewColumn ??
+          vscode.ViewColumn.Active,
+        preview: false,
+        selection: new vscode.Selection(line, 0, line, 0)
+      });
+      editor.revealRange(
+        new vscode.Range(line, 0, line, 0),
+        vscode.TextEditorRevealType.InCenterIfOutsideViewport
+      );
+    } catch (error) {
+      void vscode.window.showErrorMessage(
+        `Could not open ${vscode.workspace.asRelativePath(backlink.source)}: ${getErrorMessage(error)}`
+      );
+    }
   }
 
-  private async handleWebviewMessage(raw: unknown): Promise<void> {
+  private async handleWebviewMessage(
+    session: PreviewSession,
+    raw: unknown
+  ): Promise<void> {
     let message: WebviewToExtensionMessage;
     try {
       message = parseWebviewMessage(raw);
@@ -1138,16 +2656,13 @@ export class PreviewController implements vscode.Disposable {
 
     switch (message.type) {
       case 'ready': {
-        await this.renderNow();
+        await this.renderNow(session);
         break;
       }
       case 'previewScroll': {
-        if (
-          !this.currentEditor ||
-          !getSettings(this.currentEditor.document.uri).scrollSync
-        )
-          return;
-        const maxLine = Math.max(0, this.currentEditor.document.lineCount - 1);
+        const editor = this.getSessionEditor(session);
+        if (!editor || !getSettings(editor.document.uri).scrollSync) return;
+        const maxLine = Math.max(0, editor.document.lineCount - 1);
         const line = Math.min(
           maxLine,
           Math.max(
@@ -1159,14 +2674,14 @@ export class PreviewController implements vscode.Disposable {
         );
         const pos = new vscode.Position(line, 0);
         this.suppressEditorScrollUntil = Date.now() + 250;
-        this.currentEditor.revealRange(
+        editor.revealRange(
           new vscode.Range(pos, pos),
           vscode.TextEditorRevealType.AtTop
         );
         break;
       }
       case 'openLink': {
-        await this.handleOpenLink(message.href);
+        await this.handleOpenLink(session, message.href);
         break;
       }
       case 'headingSelected': {
@@ -1174,11 +2689,12 @@ export class PreviewController implements vscode.Disposable {
         // Suppress the next editor->preview percent sync update so it doesn't fight that scroll and
         // force users to click the ToC item twice.
         this.suppressEditorScrollUntil = Date.now() + 500;
-        await this.revealHeading(message.headingId);
+        await this.revealHeading(session, message.headingId);
         break;
       }
       case 'copyHeadingLink': {
-        const item = this.state.toc.find((t) => t.id === message.headingId);
+        const item = session.state.toc.find((t) => t.id === message.headingId);
+        this.setActiveSession(session);
         await this.copyHeadingLink(item);
         break;
       }
@@ -1202,11 +2718,56 @@ export class PreviewController implements vscode.Disposable {
         break;
       }
       case 'openImage': {
-        await this.openLocalImage(message.src);
+        await this.openLocalImage(session, message.src);
+        break;
+      }
+      case 'downloadAllRemoteImages': {
+        await this.downloadAllRemoteImagesForSession(session);
         break;
       }
       case 'downloadRemoteImage': {
-        await this.downloadRemoteImageForPreview(message.src);
+        await this.downloadRemoteImageForPreview(session, message.src);
+        break;
+      }
+      case 'toggleTask': {
+        await this.toggleTaskCheckbox(
+          session,
+          message.line,
+          message.checked,
+          message.version
+        );
+        break;
+      }
+      case 'revealSourceRange': {
+        await this.revealSourceRange(
+          session,
+          message.startLine,
+          message.endLine,
+          message.file
+        );
+        break;
+      }
+      case 'exportDiagram': {
+        await this.saveDiagramExport(
+          session,
+          message.format,
+          message.data,
+          message.index
+        );
+        break;
+      }
+      case 'requestLinkPreview': {
+        this.postMessage(session, {
+          type: 'linkPreview',
+          requestId: message.requestId,
+          html: await this.renderLinkPreview(session, message.href).catch(
+            () => undefined
+          )
+        });
+        break;
+      }
+      case 'openBacklink': {
+        await this.openBacklink(session, message.uri, message.line);
         break;
       }
       case 'requestExport': {
@@ -1221,29 +2782,44 @@ export class PreviewController implements vscode.Disposable {
               label: 'PDF',
               description: 'Open print dialog / Save as PDF',
               value: 'pdf' as const
+            },
+            {
+              label: 'DOCX',
+              description: 'Word document with native math and diagram images',
+              value: 'docx' as const
             }
           ],
           { placeHolder: 'Export preview as…' }
         );
         if (!picked) break;
+        this.setActiveSession(session);
         if (picked.value === 'html') {
           await this.exportHtml();
+        } else if (picked.value === 'docx') {
+          await this.exportDocx();
         } else {
           await this.exportPdf();
         }
         break;
       }
       case 'htmlExportSnapshot': {
-        if (
-          this.pendingHtmlExportSnapshot &&
-          this.pendingHtmlExportSnapshot.requestId === message.requestId
-        ) {
-          clearTimeout(this.pendingHtmlExportSnapshot.timer);
-          this.pendingHtmlExportSnapshot.resolve({
+        const pending = session.pendingHtmlExportSnapshot;
+        if (pending && pending.requestId === message.requestId) {
+          clearTimeout(pending.timer);
+          pending.resolve({
             html: message.html,
             themeVariables: message.themeVariables
           });
-          this.pendingHtmlExportSnapshot = undefined;
+          session.pendingHtmlExportSnapshot = undefined;
+        }
+        break;
+      }
+      case 'docxSnapshot': {
+        const pending = session.pendingDocxSnapshot;
+        if (pending && pending.requestId === message.requestId) {
+          clearTimeout(pending.timer);
+          pending.resolve(message.blocks);
+          session.pendingDocxSnapshot = undefined;
         }
         break;
       }
@@ -1313,9 +2889,10 @@ export class PreviewController implements vscode.Disposable {
   }
 
   private readPreviewUiState(): PreviewUiState {
-    const saved = this.context.globalState?.get<Partial<PreviewUiState>>(
-      PREVIEW_UI_STATE_KEY
-    );
+    const saved =
+      this.context.globalState?.get<Partial<PreviewUiState>>(
+        PREVIEW_UI_STATE_KEY
+      );
     return {
       searchUiVisible:
         saved?.searchUiVisible ?? DEFAULT_PREVIEW_UI_STATE.searchUiVisible,
@@ -1336,130 +2913,175 @@ export class PreviewController implements vscode.Disposable {
   }
 
   private async refreshWebviewShellIfNeeded(
+    session: PreviewSession,
     documentUri: vscode.Uri,
     settings: RuntimeSettings
   ): Promise<boolean> {
-    if (!this.panel) return false;
     const remoteImagesChanged =
-      this.webviewAllowsRemoteImages !== settings.allowRemoteImages;
+      session.webviewAllowsRemoteImages !== settings.allowRemoteImages;
 
-    const customCss = await this.resolvePendingCustomCss(documentUri);
+    const customCss = await this.resolvePendingCustomCss(session, documentUri);
     const nextCustomCssKey = customCss.key;
     const nextCustomCssTexts = customCss.cssTexts;
 
-    const customCssChanged = this.webviewCustomCssKey !== nextCustomCssKey;
+    const customCssChanged = session.webviewCustomCssKey !== nextCustomCssKey;
     if (!remoteImagesChanged && !customCssChanged) {
       return false;
     }
 
     if (remoteImagesChanged) {
-      this.panel.webview.html = await this.buildWebviewHtml(
-        this.panel.webview,
+      session.panel.webview.html = await this.buildWebviewHtml(
+        session.panel.webview,
         settings,
         nextCustomCssTexts
       );
     } else {
-      this.postMessage({
+      this.postMessage(session, {
         type: 'updateCustomCss',
         cssTexts: nextCustomCssTexts
       });
     }
 
-    this.webviewAllowsRemoteImages = settings.allowRemoteImages;
-    this.webviewCustomCssKey = nextCustomCssKey;
-    this.webviewCustomCssTexts = nextCustomCssTexts;
+    session.webviewAllowsRemoteImages = settings.allowRemoteImages;
+    session.webviewCustomCssKey = nextCustomCssKey;
+    session.webviewCustomCssTexts = nextCustomCssTexts;
     return remoteImagesChanged;
   }
 
-  private async refreshCustomCssOnly(): Promise<void> {
-    const panel = this.panel;
-    const editor = this.currentEditor;
-    if (!panel || !editor || editor.document.languageId !== 'markdown') {
+  private async refreshCustomCssOnly(session: PreviewSession): Promise<void> {
+    if (!this.sessions.includes(session)) return;
+    const document = session.document;
+    if (document.languageId !== 'markdown') {
       return;
     }
 
-    const customCss = await this.resolvePendingCustomCss(editor.document.uri);
-    if (this.webviewCustomCssKey === customCss.key) {
+    const customCss = await this.resolvePendingCustomCss(session, document.uri);
+    if (session.webviewCustomCssKey === customCss.key) {
       return;
     }
 
-    this.postMessage({
+    this.postMessage(session, {
       type: 'updateCustomCss',
       cssTexts: customCss.cssTexts
     });
-    this.webviewCustomCssKey = customCss.key;
-    this.webviewCustomCssTexts = customCss.cssTexts;
+    session.webviewCustomCssKey = customCss.key;
+    session.webviewCustomCssTexts = customCss.cssTexts;
   }
 
   private async resolvePendingCustomCss(
+    session: PreviewSession,
     documentUri: vscode.Uri
   ): Promise<{ key: string; cssTexts: string[] }> {
-    if (!this.webviewCustomCssDirty && this.webviewCustomCssKey !== undefined) {
+    if (
+      !session.webviewCustomCssDirty &&
+      session.webviewCustomCssKey !== undefined
+    ) {
       return {
-        key: this.webviewCustomCssKey,
-        cssTexts: this.webviewCustomCssTexts ?? []
+        key: session.webviewCustomCssKey,
+        cssTexts: session.webviewCustomCssTexts ?? []
       };
     }
 
     const customCss = await resolveCustomCss(documentUri);
-    this.webviewCustomCssDirty = false;
+    session.webviewCustomCssDirty = false;
     return customCss;
   }
 
-  private isCurrentCustomCssUri(uri: vscode.Uri): boolean {
-    if (!this.panel || !this.currentEditor) {
-      return false;
-    }
-
-    const targets = getConfiguredCustomCssUris(this.currentEditor.document.uri);
+  private isCurrentCustomCssUri(
+    session: PreviewSession,
+    uri: vscode.Uri
+  ): boolean {
+    const targets = getConfiguredCustomCssUris(session.document.uri);
     return targets.some((target) => target.toString() === uri.toString());
   }
 
-  private postMessage(message: ExtensionToWebviewMessage): void {
-    if (!this.panel) return;
+  private postMessage(
+    session: PreviewSession,
+    message: ExtensionToWebviewMessage
+  ): void {
+    if (!this.sessions.includes(session)) return;
     try {
-      void this.panel.webview.postMessage(message);
+      void session.panel.webview.postMessage(message);
     } catch (error) {
       if (isDisposedWebviewError(error)) {
-        this.panel = undefined;
+        this.handleSessionDisposed(session);
       } else {
         throw error;
       }
     }
   }
 
-  private async requestRenderedHtmlExportSnapshot(): Promise<
-    HtmlExportSnapshotData | undefined
-  > {
-    if (!this.panel) return undefined;
+  private async requestRenderedHtmlExportSnapshot(
+    session: PreviewSession
+  ): Promise<HtmlExportSnapshotData | undefined> {
+    if (!this.sessions.includes(session)) return undefined;
 
-    if (this.pendingHtmlExportSnapshot) {
-      clearTimeout(this.pendingHtmlExportSnapshot.timer);
-      this.pendingHtmlExportSnapshot.resolve(undefined);
-      this.pendingHtmlExportSnapshot = undefined;
+    if (session.pendingHtmlExportSnapshot) {
+      clearTimeout(session.pendingHtmlExportSnapshot.timer);
+      session.pendingHtmlExportSnapshot.resolve(undefined);
+      session.pendingHtmlExportSnapshot = undefined;
     }
 
     const requestId = ++this.htmlExportSnapshotReqId;
     return new Promise<HtmlExportSnapshotData | undefined>((resolve) => {
       const timer = setTimeout(() => {
-        if (this.pendingHtmlExportSnapshot?.requestId === requestId) {
-          this.pendingHtmlExportSnapshot.resolve(undefined);
-          this.pendingHtmlExportSnapshot = undefined;
+        if (session.pendingHtmlExportSnapshot?.requestId === requestId) {
+          session.pendingHtmlExportSnapshot.resolve(undefined);
+          session.pendingHtmlExportSnapshot = undefined;
         }
       }, 2000);
 
-      this.pendingHtmlExportSnapshot = { requestId, resolve, timer };
-      this.postMessage({ type: 'requestHtmlExportSnapshot', requestId });
+      session.pendingHtmlExportSnapshot = { requestId, resolve, timer };
+      this.postMessage(session, {
+        type: 'requestHtmlExportSnapshot',
+        requestId
+      });
     });
   }
 
-  private async handleOpenLink(href: string): Promise<void> {
-    const editor = this.currentEditor;
+  private async requestDocxSnapshot(
+    session: PreviewSession
+  ): Promise<DocxBlock[] | undefined> {
+    if (!this.sessions.includes(session)) return undefined;
+
+    if (session.pendingDocxSnapshot) {
+      clearTimeout(session.pendingDocxSnapshot.timer);
+      session.pendingDocxSnapshot.resolve(undefined);
+      session.pendingDocxSnapshot = undefined;
+    }
+
+    const requestId = ++this.docxSnapshotReqId;
+    return new Promise<DocxBlock[] | undefined>((resolve) => {
+      // Rasterizing every Mermaid diagram takes far longer than an HTML snapshot.
+      const timer = setTimeout(() => {
+        if (session.pendingDocxSnapshot?.requestId === requestId) {
+          session.pendingDocxSnapshot.resolve(undefined);
+          session.pendingDocxSnapshot = undefined;
+        }
+      }, 15000);
+
+      session.pendingDocxSnapshot = { requestId, resolve, timer };
+      this.postMessage(session, {
+        type: 'requestDocxSnapshot',
+        requestId
+      });
+    });
+  }
+
+  private async handleOpenLink(
+    session: PreviewSession,
+    href: string
+  ): Promise<void> {
+    const editor = this.getSessionEditor(session);
     if (!editor) return;
     const targetEditorColumn = editor.viewColumn ?? vscode.ViewColumn.Active;
-    const resolved = resolveLinkTarget(editor.document.uri, href);
+    // Relative hrefs arrive percent-encoded (`my%20notes.md`), file names on disk do not.
+    const resolved = resolveLinkTarget(
+      editor.document.uri,
+      /^[a-z][a-z0-9+.-]*:/i.test(href) ? href : decodeHref(href)
+    );
     if (resolved.kind === 'heading') {
-      await this.revealHeading(resolved.fragment ?? '');
+      await this.revealHeading(session, resolved.fragment ?? '');
       return;
     }
     if (resolved.kind === 'external') {
@@ -1476,6 +3098,7 @@ export class PreviewController implements vscode.Disposable {
       return;
     }
     if (resolved.kind === 'workspace' && resolved.uri) {
+      if (!(await this.ensureLinkTargetExists(resolved.uri))) return;
       try {
         const doc = await vscode.workspace.openTextDocument(resolved.uri);
         const editor2 = await vscode.window.showTextDocument(doc, {
@@ -1483,8 +3106,12 @@ export class PreviewController implements vscode.Disposable {
           preview: false
         });
         this.currentEditor = editor2;
-        if (resolved.fragment) {
-          await this.revealHeading(resolved.fragment);
+        const target = this.findSessionsForDocument(doc.uri)[0];
+        if (resolved.fragment && target) {
+          if (!target.state.snapshot) {
+            await this.renderNow(target);
+          }
+          await this.revealHeading(target, resolved.fragment);
         }
       } catch {
         void vscode.window.showWarningMessage(
@@ -1517,10 +3144,96 @@ export class PreviewController implements vscode.Disposable {
     }
   }
 
-  private async revealHeading(headingId: string): Promise<void> {
-    const editor = this.currentEditor;
+  // Hover preview of a `#heading` or workspace Markdown link, rendered against the target file.
+  private async renderLinkPreview(
+    session: PreviewSession,
+    href: string
+  ): Promise<string | undefined> {
+    const source = session.document.uri;
+    const resolved = resolveLinkTarget(
+      source,
+      /^[a-z][a-z0-9+.-]*:/i.test(href) ? href : decodeHref(href)
+    );
+    const uri =
+      resolved.kind === 'heading'
+        ? source
+        : resolved.kind === 'workspace' &&
+            resolved.uri &&
+            isMarkdownFile(resolved.uri)
+          ? resolved.uri
+          : undefined;
+    if (!uri) return undefined;
+
+    const text =
+      uri.toString() === source.toString()
+        ? session.document.getText()
+        : await readWorkspaceText(uri);
+    const includes = await loadMarkdownIncludes(text, uri);
+    const settings = getSettings(uri);
+    const section = extractLinkPreviewSource(
+      text,
+      resolved.fragment,
+      { sourceUri: uri, files: includes },
+      settings.headingSlugs
+    );
+    if (!section) return undefined;
+    const sectionUri = section.includedUri ?? uri;
+
+    const result = renderMarkdown(section.markdown, {
+      sourceUri: sectionUri,
+      webview: session.panel.webview,
+      allowHtml: true,
+      allowRemoteImages: settings.allowRemoteImages,
+      remoteImageOverrides: await this.remoteImageCache.getOverrides(
+        await this.resolveRemoteImageCacheDir(uri)
+      ),
+      maxImageMB: settings.maxImageMB,
+      includes,
+      resolveWikiLink: await this.getWikiLinkResolver(
+        section.markdown,
+        includes,
+        sectionUri
+      ),
+      headingSlugs: settings.headingSlugs
+    });
+    return result.html;
+  }
+
+  // Links to missing Markdown pages, usually unresolved wiki links, offer to create the page.
+  private async ensureLinkTargetExists(uri: vscode.Uri): Promise<boolean> {
+    if (!isMarkdownFile(uri)) return true;
+    try {
+      await vscode.workspace.fs.stat(uri);
+      return true;
+    } catch {
+      // Missing: offer to create it below.
+    }
+    const answer = await vscode.window.showInformationMessage(
+      `${vscode.workspace.asRelativePath(uri)} does not exist yet.`,
+      'Create Page'
+    );
+    if (answer !== 'Create Page') return false;
+    try {
+      await vscode.workspace.fs.writeFile(
+        uri,
+        Buffer.from(getNewWikiPageContent(uri), 'utf8')
+      );
+      return true;
+    } catch (error) {
+      void vscode.window.showErrorMessage(
+        `Could not create ${path.basename(uri.path)}: ${getErrorMessage(error)}`
+      );
+      return false;
+    }
+  }
+
+  private async revealHeading(
+    session: PreviewSession,
+    headingId: string
+  ): Promise<void> {
+    const editor = this.getSessionEditor(session);
     if (!editor) return;
-    const heading = this.state.toc.find((t) => t.id === headingId);
+    const heading = session.state.toc.find((t) => t.id === headingId);
     if (!heading) return;
     const pos = new vscode.Position(heading.line, 0);
     editor.selection = new vscode.Selection(pos, pos);
@@ -1530,11 +3243,121 @@ export class PreviewController implements vscode.Disposable {
     );
   }
 
-  private async openLocalImage(src: string): Promise<void> {
+  private async revealSourceRange(
+    session: PreviewSession,
+    startLine: number,
+    endLine: number,
+    file?: string
+  ): Promise<void> {
+    const editor = this.getSessionEditor(session);
+    if (file !== undefined) {
+      await this.revealIncludedSourceRange(
+        session,
+        file,
+        startLine,
+        endLine,
+        editor?.viewColumn
+      );
+      return;
+    }
+    if (!editor) return;
+    const document = editor.document;
+    const { start, last, endCharacter } = getSourceBlockLines(
+      document,
+      startLine,
+      endLine
+    );
+    // The preview is already showing this block; don't let the selection scroll it back.
+    this.suppressEditorScrollUntil = Date.now() + 500;
+    editor.selection = new vscode.Selection(start, 0, last, endCharacter);
+    await vscode.window.showTextDocument(document, editor.viewColumn, false);
+    editor.revealRange(
+      new vscode.Range(start, 0, last, endCharacter),
+      vscode.TextEditorRevealType.InCenterIfOutsideViewport
+    );
+  }
+
+  // Only files the last render actually included can be opened this way.
+  private async revealIncludedSourceRange(
+    session: PreviewSession,
+    file: string,
+    startLine: number,
+    endLine: number,
+    viewColumn: vscode.ViewColumn | undefined
+  ): Promise<void> {
+    const source = session.document.uri;
+    const uri = vscode.Uri.joinPath(
+      source.with({ path: path.posix.dirname(source.path) }),
+      file
+    );
+    if (!session.includedUris.has(uri.toString())) return;
+    try {
+      const document = await vscode.workspace.openTextDocument(uri);
+      const { start, last, endCharacter } = getSourceBlockLines(
+        document,
+        startLine,
+        endLine
+      );
+      const editor = await vscode.window.showTextDocument(document, {
+        viewColumn,
+        selection: new vscode.Selection(start, 0, last, endCharacter)
+      });
+      editor.revealRange(
+        new vscode.Range(start, 0, last, endCharacter),
+        vscode.TextEditorRevealType.InCenterIfOutsideViewport
+      );
+    } catch (error) {
+      void vscode.window.showErrorMessage(
+        `Could not open ${file}: ${getErrorMessage(error)}`
+      );
+    }
+  }
+
+  private async saveDiagramExport(
+    session: PreviewSession,
+    format: 'svg' | 'png',
+    data: string,
+    index: number
+  ): Promise<void> {
+    const source = session.document.uri;
+    const baseName = path.posix.basename(source.path).replace(/\.[^.]+$/, '');
+    const defaultUri = source.with({
+      path: path.posix.join(
+        path.posix.dirname(source.path),
+        `${baseName}-diagram-${index + 1}.${format}`
+      )
+    });
+    const target = await vscode.window.showSaveDialog({
+      defaultUri,
+      filters:
+        format === 'svg' ? { 'SVG Image': ['svg'] } : { 'PNG Image': ['png'] },
+      saveLabel: format === 'svg' ? 'Export SVG' : 'Export PNG'
+    });
+    if (!target) return;
+
+    const bytes =
+      format === 'svg'
+        ? Buffer.from(data, 'utf8')
+        : Buffer.from(data, 'base64');
+    try {
+      await vscode.workspace.fs.writeFile(target, bytes);
+    } catch (error) {
+      void vscode.window.showErrorMessage(
+        `Could not export diagram: ${getErrorMessage(error)}`
+      );
+      return;
+    }
+    void vscode.window.showInformationMessage(
+      `Exported diagram to ${target.fsPath}`
+    );
+  }
+
+  private async openLocalImage(
+    session: PreviewSession,
+    src: string
+  ): Promise<void> {
     const uri = vscode.Uri.parse(src, true);
-    const folder = this.currentEditor
-      ? vscode.workspace.getWorkspaceFolder(this.currentEditor.document.uri)
-      : undefined;
+    const folder = vscode.workspace.getWorkspaceFolder(session.document.uri);
     if (folder) {
       const rel = path.relative(folder.uri.fsPath, uri.fsPath);
       if (rel.startsWith('..') || path.isAbsolute(rel)) {
@@ -1549,13 +3372,62 @@ export class PreviewController implements vscode.Disposable {
     await vscode.commands.executeCommand('vscode.open', uri);
   }
 
-  private async downloadRemoteImageForPreview(src: string): Promise<void> {
-    const editor = this.currentEditor;
-    if (!editor) return;
+  private async toggleTaskCheckbox(
+    session: PreviewSession,
+    line: number,
+    checked: boolean,
+    version: number
+  ): Promise<void> {
+    const document = session.document;
+    if (document.version !== version) {
+      this.postMessage(session, {
+        type: 'notify',
+        level: 'warning',
+        message:
+          'The document changed before the task could be updated. Try again.'
+      });
+      this.scheduleRender(session, true);
+      return;
+    }
 
-    const settings = getSettings(editor.document.uri);
+    const match =
+      line < document.lineCount
+        ? TASK_CHECKBOX_PATTERN.exec(document.lineAt(line).text)
+        : null;
+    if (!match?.[1]) {
+      this.postMessage(session, {
+        type: 'notify',
+        level: 'warning',
+        message: `Could not find a task checkbox on line ${line + 1}.`
+      });
+      return;
+    }
+
+    const column = match[1].length;
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+      document.uri,
+      new vscode.Range(line, column, line, column + 1),
+      checked ? 'x' : ' '
+    );
+    const applied = await vscode.workspace.applyEdit(edit);
+    if (!applied) {
+      this.postMessage(session, {
+        type: 'notify',
+        level: 'warning',
+        message: 'Could not update the task in the source document.'
+      });
+    }
+  }
+
+  private async downloadRemoteImageForPreview(
+    session: PreviewSession,
+    src: string
+  ): Promise<void> {
+    const document = session.document;
+    const settings = getSettings(document.uri);
     if (settings.allowRemoteImages) {
-      this.postMessage({
+      this.postMessage(session, {
         type: 'notify',
         level: 'info',
         message: 'Remote images are already allowed by settings.'
@@ -1564,20 +3436,22 @@ export class PreviewController implements vscode.Disposable {
     }
 
     try {
+      const cacheDir = await this.resolveRemoteImageCacheDir(document.uri);
       const downloaded = await this.downloadRemoteImageToCache(
         src,
-        editor.document.uri,
-        settings.maxImageMB
+        cacheDir,
+        settings.maxImageMB,
+        { documentUri: document.uri }
       );
-      this.remoteImageOverrides.set(src, downloaded);
-      this.postMessage({
+      await this.enforceRemoteImageCacheLimits(cacheDir, document.uri);
+      this.postMessage(session, {
         type: 'notify',
         level: 'info',
         message: `Downloaded remote image for preview: ${path.basename(downloaded.fsPath)}`
       });
-      await this.renderNow();
+      await this.renderNow(session);
     } catch (error) {
-      this.postMessage({
+      this.postMessage(session, {
         type: 'notify',
         level: 'warning',
         message: `Could not download remote image: ${getErrorMessage(error)}`
@@ -1585,10 +3459,113 @@ export class PreviewController implements vscode.Disposable {
     }
   }
 
+  private async downloadAllRemoteImagesForSession(
+    session: PreviewSession
+  ): Promise<void> {
+    const document = session.document;
+    const settings = getSettings(document.uri);
+    if (settings.allowRemoteImages) {
+      void vscode.window.showInformationMessage(
+        'Remote images are already allowed by settings.'
+      );
+      return;
+    }
+    const urls = collectBlockedRemoteImageUrls(
+      session.state.snapshot?.html ?? ''
+    );
+    if (urls.length === 0) {
+      void vscode.window.showInformationMessage(
+        'No blocked remote images in this document.'
+      );
+      return;
+    }
+
+    const cacheDir = await this.resolveRemoteImageCacheDir(document.uri);
+    const failures: Array<{ url: string; reason: string }> = [];
+    let downloaded = 0;
+    let cancelled = false;
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Downloading remote images',
+        cancellable: true
+      },
+      async (progress, token) => {
+        const abort = new AbortController();
+        const cancellation = token.onCancellationRequested(() => abort.abort());
+        let next = 0;
+        let finished = 0;
+        const worker = async () => {
+          while (!token.isCancellationRequested) {
+            const url = urls[next++];
+            if (url === undefined) break;
+            try {
+              await this.downloadRemoteImageToCache(
+                url,
+                cacheDir,
+                settings.maxImageMB,
+                { documentUri: document.uri, signal: abort.signal }
+              );
+              downloaded += 1;
+            } catch (error) {
+              if (!token.isCancellationRequested) {
+                failures.push({ url, reason: getErrorMessage(error) });
+              }
+            }
+            finished += 1;
+            progress.report({
+              increment: 100 / urls.length,
+              message: `${finished}/${urls.length}`
+            });
+          }
+        };
+        try {
+          await Promise.all(
+            Array.from(
+              {
+                length: Math.min(REMOTE_IMAGE_DOWNLOAD_CONCURRENCY, urls.length)
+              },
+              worker
+            )
+          );
+        } finally {
+          cancelled = token.isCancellationRequested;
+          cancellation.dispose();
+        }
+      }
+    );
+
+    await this.enforceRemoteImageCacheLimits(cacheDir, document.uri);
+    // Re-render even without successes so the banner's button is enabled again.
+    await this.renderNow(session);
+
+    const summary =
+      `Downloaded ${downloaded} of ${urls.length} remote image(s)` +
+      (cancelled ? ' before the download was cancelled' : '') +
+      (failures.length > 0 ? `; ${failures.length} failed.` : '.');
+    if (failures.length === 0) {
+      void vscode.window.showInformationMessage(summary);
+      return;
+    }
+    const answer = await vscode.window.showWarningMessage(
+      summary,
+      'Show Details'
+    );
+    if (answer === 'Show Details') {
+      void vscode.window.showWarningMessage(summary, {
+        modal: true,
+        detail: failures
+          .map((failure) => `${failure.url}\n  ${failure.reason}`)
+          .join('\n')
+      });
+    }
+  }
+
   private async downloadRemoteImageToCache(
     src: string,
-    documentUri: vscode.Uri,
-    maxImageMB: number
+    cacheDir: vscode.Uri,
+    maxImageMB: number,
+    options: { documentUri?: vscode.Uri; signal?: AbortSignal } = {}
   ): Promise<vscode.Uri> {
     let parsed: URL;
     try {
@@ -1601,11 +3578,22 @@ export class PreviewController implements vscode.Disposable {
       throw new Error('Only http(s) URLs are supported');
     }
 
-    const response = await fetch(parsed.toString(), { redirect: 'follow' });
+    const response = await fetch(parsed.toString(), {
+      redirect: 'follow',
+      signal: options.signal
+    });
     if (!response.ok) {
       throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
     }
 
+    const maxBytes = maxImageMB * 1024 * 1024;
+    // Skip the body entirely when the server already announces an oversized image.
+    const declaredBytes = Number(response.headers.get('content-length'));
+    if (declaredBytes > maxBytes) {
+      await response.body?.cancel().catch(() => undefined);
+      throw new Error(`Image exceeds preview.maxImageMB (${maxImageMB} MB)`);
+    }
+
     const contentType = (
       response.headers.get('content-type') ?? ''
     ).toLowerCase();
@@ -1620,21 +3608,44 @@ export class PreviewController implements vscode.Disposable {
       throw new Error('Downloaded image is empty');
     }
 
-    const maxBytes = maxImageMB * 1024 * 1024;
     if (data.byteLength > maxBytes) {
       throw new Error(`Image exceeds preview.maxImageMB (${maxImageMB} MB)`);
     }
 
-    const targetDir = await this.resolveRemoteImageCacheDir(documentUri);
-    await vscode.workspace.fs.createDirectory(targetDir);
+    await vscode.workspace.fs.createDirectory(cacheDir);
 
     const extension = inferRemoteImageExtension(contentType, parsed.pathname);
     const hash = createHash('sha256').update(src).digest('hex').slice(0, 24);
-    const target = vscode.Uri.joinPath(targetDir, `${hash}${extension}`);
+    const file = `${hash}${extension}`;
+    const target = vscode.Uri.joinPath(cacheDir, file);
     await vscode.workspace.fs.writeFile(target, data);
+    const fetchedAt = Date.now();
+    await this.remoteImageCache.record(cacheDir, {
+      url: src,
+      file,
+      contentType,
+      size: data.byteLength,
+      fetchedAt,
+      lastUsedAt: fetchedAt,
+      documents: options.documentUri ? [options.documentUri.toString()] : []
+    });
     return target;
   }
 
+  private async enforceRemoteImageCacheLimits(
+    cacheDir: vscode.Uri,
+    resource?: vscode.Uri
+  ): Promise<void> {
+    const settings = getSettings(resource);
+    await this.remoteImageCache
+      .evict(cacheDir, {
+        maxBytes: Math.max(0, settings.remoteImageCacheMaxMB) * 1024 * 1024,
+        maxAgeMs:
+          Math.max(0, settings.remoteImageCacheMaxAgeDays) * 24 * 60 * 60 * 1000
+      })
+      .catch(() => undefined);
+  }
+
   private async resolveRemoteImageCacheDir(
     documentUri: vscode.Uri
   ): Promise<vscode.Uri> {
@@ -1649,6 +3660,27 @@ export class PreviewController implements vscode.Disposable {
     return vscode.Uri.joinPath(this.context.globalStorageUri, 'remote-images');
   }
 
+  // `undefined` when the configured folder would leave the workspace folder (or document folder).
+  private resolveLocalizedImagesDir(
+    documentUri: vscode.Uri,
+    folderSetting: string
+  ): vscode.Uri | undefined {
+    const relative = path.posix.normalize(
+      folderSetting.trim().replace(/\\/g, '/') || '.'
+    );
+    if (
+      path.posix.isAbsolute(relative) ||
+      /^[a-z]:/i.test(relative) ||
+      relative.split('/')[0] === '..'
+    ) {
+      return undefined;
+    }
+    const base =
+      vscode.workspace.getWorkspaceFolder(documentUri)?.uri ??
+      vscode.Uri.joinPath(documentUri, '..');
+    return vscode.Uri.joinPath(base, relative);
+  }
+
   private getRemoteImageCacheLocations(): Array<{
     uri: vscode.Uri;
     label: string;
@@ -1777,8 +3809,10 @@ export class PreviewController implements vscode.Disposable {
         return tag;
       }
 
-      const localSrc = getHtmlAttribute(parsed.attributes, OMV_LOCAL_SRC_ATTR)
-        ?.value;
+      const localSrc = getHtmlAttribute(
+        parsed.attributes,
+        OMV_LOCAL_SRC_ATTR
+      )?.value;
       const exportSrcset = getHtmlAttribute(parsed.attributes, 'srcset')?.value;
       let changed = false;
 
@@ -1844,10 +3878,14 @@ export class PreviewController implements vscode.Disposable {
         return tag;
       }
 
-      const localSrc = getHtmlAttribute(parsed.attributes, OMV_LOCAL_SRC_ATTR)
-        ?.value;
-      const remoteSrc = getHtmlAttribute(parsed.attributes, OMV_REMOTE_SRC_ATTR)
-        ?.value;
+      const localSrc = getHtmlAttribute(
+        parsed.attributes,
+        OMV_LOCAL_SRC_ATTR
+      )?.value;
+      const remoteSrc = getHtmlAttribute(
+        parsed.attributes,
+        OMV_REMOTE_SRC_ATTR
+      )?.value;
       const exportSrcset = getHtmlAttribute(
         parsed.attributes,
         OMV_EXPORT_SRCSET_ATTR
@@ -1870,10 +3908,27 @@ export class PreviewController implements vscode.Disposable {
 
   private async tryHeadlessPdfExport(
     sourceHtmlUri: vscode.Uri,
-    targetPdfUri: vscode.Uri
-  ): Promise<{ ok: true } | { ok: false; reason: string }> {
+    targetPdfUri: vscode.Uri,
+    pageOptions: PdfPageOptions,
+    title: string
+  ): Promise<{ ok: true; warning?: string } | { ok: false; reason: string }> {
     const candidates = getHeadlessBrowserCandidates();
     const htmlUrl = sourceHtmlUri.toString(true);
+    const outlineArgs = pageOptions.outline
+      ? ['--generate-pdf-document-outline']
+      : [];
+    // Kept so a `--print-to-pdf` fallback can say why it ran and what it left out.
+    let devToolsError: string | undefined;
+    const fallback = (): { ok: true; warning?: string } => {
+      const ignored = getPrintToPdfIgnoredOptions(pageOptions);
+      const last = ignored.pop();
+      return devToolsError && last
+        ? {
+            ok: true,
+            warning: `DevTools printing failed (${devToolsError}), so the PDF was printed without the ${ignored.length > 0 ? `${ignored.join(', ')} and ` : ''}${last}.`
+          }
+        : { ok: true };
+    };
 
     for (const candidate of candidates) {
       try {
@@ -1882,6 +3937,21 @@ export class PreviewController implements vscode.Disposable {
         // Not all candidates are absolute paths. PATH-based commands are handled below.
       }
 
+      try {
+        const pdf = await printPdfWithDevTools(
+          candidate,
+          htmlUrl,
+          pageOptions,
+          title
+        );
+        await fs.writeFile(targetPdfUri.fsPath, pdf);
+        return { ok: true };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+        // Browsers without pipe-based DevTools still get page size and margins from the print CSS.
+        devToolsError = getErrorMessage(error);
+      }
+
       const result = await runProcess(candidate, [
         '--headless=new',
         '--disable-gpu',
@@ -1889,11 +3959,12 @@ export class PreviewController implements vscode.Disposable {
         '--no-default-browser-check',
         '--allow-file-access-from-files',
         '--print-to-pdf-no-header',
+        ...outlineArgs,
         `--print-to-pdf=${targetPdfUri.fsPath}`,
         htmlUrl
       ]);
 
-      if (result.ok) return { ok: true };
+      if (result.ok) return fallback();
 
       // Older Chromium builds may not support --headless=new.
       if (result.code !== 'ENOENT') {
@@ -1904,16 +3975,19 @@ export class PreviewController implements vscode.Disposable {
           '--no-default-browser-check',
           '--allow-file-access-from-files',
           '--print-to-pdf-no-header',
+          ...outlineArgs,
           `--print-to-pdf=${targetPdfUri.fsPath}`,
           htmlUrl
         ]);
-        if (legacy.ok) return { ok: true };
+        if (legacy.ok) return fallback();
       }
     }
 
     return {
       ok: false,
-      reason: 'no supported local Chrome/Edge/Chromium executable was found'
+      reason:
+        devToolsError ??
+        'no supported local Chrome/Edge/Chromium executable was found'
     };
   }
 
@@ -1921,7 +3995,10 @@ export class PreviewController implements vscode.Disposable {
     bodyHtml: string,
     sourceUri: vscode.Uri,
     settings: RuntimeSettings,
-    themeVariables?: Record<string, string>
+    themeVariables?: Record<string, string>,
+    frontmatterInfo?: FrontmatterInfo,
+    printCss?: string,
+    siteChrome?: StaticSitePageChrome
   ): Promise<string> {
     const cssPath = vscode.Uri.joinPath(
       this.context.extensionUri,
@@ -1932,6 +4009,9 @@ export class PreviewController implements vscode.Disposable {
     let baseCss = '';
     try {
       baseCss = await fs.readFile(cssPath, 'utf8');
+      if (settings.exportMathFonts === 'used') {
+        baseCss = subsetKatexFonts(baseCss, bodyHtml);
+      }
     } catch {
       baseCss =
         'body{font-family:sans-serif;padding:1rem;max-width:900px;margin:0 auto;}';
@@ -1946,15 +4026,32 @@ export class PreviewController implements vscode.Disposable {
         )
       )
       .join('\n');
+    const exportCss = settings.exportCustomCssPath
+      ? await this.readExportCustomCss(sourceUri, settings.exportCustomCssPath)
+      : undefined;
+    const exportCssTag = exportCss
+      ? `\n${inlineCssTag(exportCss, 'omv-export-custom-css', ' data-omv-export-css')}`
+      : '';
+    // A fixed theme replaces the colors captured from the active VS Code theme.
+    const fixedTheme =
+      settings.exportTheme === 'light' || settings.exportTheme === 'dark'
+        ? settings.exportTheme
+        : undefined;
+    const themeCss = fixedTheme ? buildExportThemeCss(fixedTheme) : '';
+    const themeKindAttribute = fixedTheme
+      ? ` data-vscode-theme-kind="${fixedTheme}"`
+      : '';
 
     const frontmatter =
-      settings.showFrontmatter && this.state.snapshot?.frontmatter
-        ? `<details open><summary>Frontmatter</summary><pre>${escapeHtml(this.state.snapshot.frontmatter.raw)}</pre></details>`
+      settings.showFrontmatter && frontmatterInfo
+        ? `<details open><summary>Frontmatter</summary><pre>${escapeHtml(frontmatterInfo.raw)}</pre></details>`
         : '';
     const githubStyleAttributes = buildGitHubMarkdownStyleAttributes(
       settings.useMarkdownPreviewGithubStyling
     );
-    const themeStyleAttribute = buildInlineStyleAttribute(themeVariables);
+    const themeStyleAttribute = buildInlineStyleAttribute(
+      fixedTheme ? undefined : themeVariables
+    );
     const wrappedBodyHtml = `<article class="omv-preview">
 ${frontmatter}
 <div class="omv-content markdown-body github-markdown-body"${githubStyleAttributes}${themeStyleAttribute}>
@@ -1969,27 +4066,142 @@ ${bodyHtml}
 <head>
 <meta charset="UTF-8" />
 <meta name="viewport" content="width=device-width, initial-scale=1.0" />
-<title>${escapeHtml(path.basename(sourceUri.fsPath))}</title>
+<title>${escapeHtml(siteChrome?.title ?? path.basename(sourceUri.fsPath))}</title>
 <style>${baseCss}</style>
-${customCssTags}
+${themeCss ? `<style>${themeCss}</style>\n` : ''}${printCss ? `<style>${printCss}</style>\n` : ''}${siteChrome ? `<style>${siteChrome.css}</style>\n` : ''}${customCssTags}${exportCssTag}
 </head>
-<body class="${getExportThemeBodyClass()}">
-${wrappedBodyHtml}
+<body class="${getExportThemeBodyClass(fixedTheme)}"${themeKindAttribute}>
+${siteChrome ? `${siteChrome.bodyStart}\n${wrappedBodyHtml}\n${siteChrome.bodyEnd}` : wrappedBodyHtml}
 </body>
 </html>`;
   }
 
+  // `export.customCssPath` (or a preset's `customCss`): a workspace-relative .css file applied to
+  // exports only, after the preview's custom CSS.
+  private async readExportCustomCss(
+    sourceUri: vscode.Uri,
+    cssPath: string
+  ): Promise<string | undefined> {
+    const relative = toWorkspaceRelativePath(cssPath);
+    if (!relative || path.posix.extname(relative).toLowerCase() !== '.css') {
+      void vscode.window.showWarningMessage(
+        `Ignoring export CSS because it is not a workspace-relative .css file: ${cssPath}`
+      );
+      return undefined;
+    }
+    const base =
+      vscode.workspace.getWorkspaceFolder(sourceUri)?.uri ??
+      vscode.Uri.joinPath(sourceUri, '..');
+    const target = vscode.Uri.joinPath(base, relative);
+    try {
+      return Buffer.from(await vscode.workspace.fs.readFile(target)).toString(
+        'utf8'
+      );
+    } catch {
+      void vscode.window.showWarningMessage(
+        `Could not read export CSS file: ${cssPath}`
+      );
+      return undefined;
+    }
+  }
+
   dispose(): void {
-    if (this.renderTimer) clearTimeout(this.renderTimer);
-    if (this.pendingHtmlExportSnapshot) {
-      clearTimeout(this.pendingHtmlExportSnapshot.timer);
-      this.pendingHtmlExportSnapshot.resolve(undefined);
-      this.pendingHtmlExportSnapshot = undefined;
+    clearTimeout(this.startupAutoOpenTimer);
+    for (const session of [...this.sessions]) {
+      session.panel.dispose();
+      this.handleSessionDisposed(session);
     }
     for (const d of this.disposables) {
       d.dispose();
     }
     this.outlineEmitter.dispose();
+    this.activeHeadingEmitter.dispose();
+    this.renderEmitter.dispose();
+    this.activeDocumentEmitter.dispose();
+  }
+}
+
+function getPreviewTitle(session: PreviewSession): string {
+  const name = path.basename(session.document.uri.fsPath);
+  return `${session.locked ? '[Locked] ' : ''}Offline Preview: ${name}`;
+}
+
+function getExportTitle(
+  uri: vscode.Uri,
+  frontmatter: FrontmatterInfo | undefined
+): string {
+  const frontmatterTitle = frontmatter?.data.title;
+  return typeof frontmatterTitle === 'string' && frontmatterTitle.trim()
+    ? frontmatterTitle.trim()
+    : path.basename(uri.fsPath).replace(/\.md$/i, '');
+}
+
+async function pickFolderExportOutput(
+  sourceRoot: vscode.Uri
+): Promise<vscode.Uri | undefined> {
+  return (
+    await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      defaultUri: sourceRoot,
+      openLabel: 'Export Here',
+      title: 'Choose the output folder'
+    })
+  )?.[0];
+}
+
+async function confirmFolderExport(
+  sourceRoot: vscode.Uri,
+  settings: RuntimeSettings
+): Promise<boolean> {
+  if (settings.embedImages) {
+    const answer = await vscode.window.showWarningMessage(
+      'Embedding local images can expose private paths/content in exported files. Continue?',
+      { modal: true },
+      'Continue'
+    );
+    if (answer !== 'Continue') return false;
+  }
+  // Raw HTML is normally sanitized by the preview webview, which folder exports never use.
+  return settings.sanitizeHtml || confirmSanitizeDisabled(sourceRoot);
+}
+
+async function showFolderExportSummary(
+  exported: string,
+  cancelled: boolean,
+  failures: readonly FolderExportFailure[]
+): Promise<void> {
+  const summary =
+    exported +
+    (cancelled ? ' before the export was cancelled' : '') +
+    (failures.length > 0 ? `; ${failures.length} failed.` : '.');
+  if (failures.length === 0) {
+    void vscode.window.showInformationMessage(summary);
+    return;
+  }
+  const answer = await vscode.window.showWarningMessage(
+    summary,
+    'Show Details'
+  );
+  if (answer === 'Show Details') {
+    void vscode.window.showWarningMessage(summary, {
+      modal: true,
+      detail: failures
+        .map((failure) => `${failure.file}\n  ${failure.reason}`)
+        .join('\n')
+    });
+  }
+}
+
+function getRestoredDocumentUri(state: unknown): vscode.Uri | undefined {
+  if (!state || typeof state !== 'object') return undefined;
+  const documentUri = (state as { documentUri?: unknown }).documentUri;
+  if (typeof documentUri !== 'string' || !documentUri) return undefined;
+  try {
+    return vscode.Uri.parse(documentUri, true);
+  } catch {
+    return undefined;
   }
 }
 
@@ -2071,6 +4283,29 @@ function isFileNotFoundError(error: unknown): boolean {
   return /file not found|no such file or directory|enoent/i.test(message);
 }
 
+async function hasFileContents(
+  uri: vscode.Uri,
+  contents: Uint8Array
+): Promise<boolean> {
+  try {
+    return Buffer.from(await vscode.workspace.fs.readFile(uri)).equals(
+      contents
+    );
+  } catch {
+    return false;
+  }
+}
+
+function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
+}
+
 function formatBytes(bytes: number): string {
   if (!Number.isFinite(bytes) || bytes <= 0) {
     return '0 B';
@@ -0,0 +1,602 @@
+import type {
+  DocxBlock,
+  DocxInline,
+  DocxListItem
+} from '../../messaging/protocol';
+import { toOmml } from './ommlWriter';
+import { escapeXml } from './xml';
+import { createZipArchive } from './zip';
+import type { ZipEntry } from './zip';
+
+export type DocxImageExtension = 'png' | 'jpeg' | 'gif' | 'bmp';
+
+export interface DocxImageData {
+  data: Buffer;
+  extension: DocxImageExtension;
+}
+
+export interface DocxBuildOptions {
+  title?: string;
+  // Returns the bytes for an inline image's local `src`, or undefined to fall back to its alt text.
+  loadImage(src: string): Promise<DocxImageData | undefined>;
+}
+
+const EMU_PER_PX = 9525;
+// Letter page with 1in margins: 6.5in of usable width.
+const MAX_IMAGE_WIDTH_EMU = 6.5 * 914400;
+const LIST_INDENT_TWIPS = 720;
+const BULLET_NUM_ID = 1;
+const SVG_BLIP_EXTENSION_URI = '{96DAC541-7B7A-43D3-8B79-37D633B846F1}';
+
+const NAMESPACES = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"',
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"',
+  'xmlns:asvg="http://schemas.microsoft.com/office/drawing/2016/SVG/main"'
+].join(' ');
+
+interface ParagraphContext {
+  listLevel: number;
+  quoteDepth: number;
+}
+
+interface ResolvedImage {
+  relId: string;
+  svgRelId?: string;
+  widthPx: number;
+  heightPx: number;
+  alt: string;
+}
+
+export async function buildDocx(
+  blocks: readonly DocxBlock[],
+  options: DocxBuildOptions
+): Promise<Buffer> {
+  const builder = new DocxPackageBuilder(options);
+  const body = await builder.renderBlocks(blocks, {
+    listLevel: -1,
+    quoteDepth: 0
+  });
+  return builder.finish(body);
+}
+
+class DocxPackageBuilder {
+  private readonly relationships: string[] = [];
+  private readonly media: ZipEntry[] = [];
+  // Ordered lists each need their own numbering instance so they restart at `start`.
+  private readonly orderedNums: Array<{ numId: number; start: number }> = [];
+  private readonly bookmarks = new Map<string, string>();
+  private nextRelId = 3;
+  private nextDrawingId = 1;
+  private nextBookmarkId = 0;
+
+  constructor(private readonly options: DocxBuildOptions) {}
+
+  async renderBlocks(
+    blocks: readonly DocxBlock[],
+    context: ParagraphContext
+  ): Promise<string> {
+    this.collectBookmarks(blocks);
+    const parts: string[] = [];
+    for (const block of blocks) {
+      parts.push(await this.renderBlock(block, context));
+    }
+    return parts.join('');
+  }
+
+  finish(body: string): Buffer {
+    const document =
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      `<w:document ${NAMESPACES}><w:body>${body}` +
+      '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>' +
+      '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>' +
+      '</w:sectPr></w:body></w:document>';
+
+    const entries: ZipEntry[] = [
+      xmlEntry('[Content_Types].xml', buildContentTypes()),
+      xmlEntry('_rels/.rels', buildPackageRelationships()),
+      xmlEntry('docProps/core.xml', buildCoreProperties(this.options.title)),
+      xmlEntry('word/document.xml', document),
+      xmlEntry('word/styles.xml', buildStyles()),
+      xmlEntry('word/numbering.xml', this.buildNumbering()),
+      xmlEntry(
+        'word/_rels/document.xml.rels',
+        buildRelationships([
+          '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>',
+          '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>',
+          ...this.relationships
+        ])
+      ),
+      ...this.media
+    ];
+    return createZipArchive(entries);
+  }
+
+  private collectBookmarks(blocks: readonly DocxBlock[]): void {
+    for (const block of blocks) {
+      if (block.type !== 'heading' || !block.id) continue;
+      if (this.bookmarks.has(block.id)) continue;
+      // Word bookmark names: letters/digits/underscores, at most 40 characters.
+      const name = `_omv_${block.id.replace(/[^\p{L}\p{N}_]/gu, '_')}`.slice(
+        0,
+        36
+      );
+      this.bookmarks.set(block.id, `${name}_${this.bookmarks.size}`);
+    }
+  }
+
+  private async renderBlock(
+    block: DocxBlock,
+    context: ParagraphContext,
+    numbering?: { numId: number; level: number },
+    prefix?: string
+  ): Promise<string> {
+    switch (block.type) {
+      case 'heading': {
+        const bookmark = block.id ? this.bookmarks.get(block.id) : undefined;
+        const runs = await this.renderInlines(block.content);
+        const marked = bookmark
+          ? `<w:bookmarkStart w:id="${this.nextBookmarkId}" w:name="${escapeXml(bookmark)}"/>${runs}<w:bookmarkEnd w:id="${this.nextBookmarkId++}"/>`
+          : runs;
+        return paragraph(
+          paragraphProperties(`Heading${block.level}`, context, numbering),
+          marked
+        );
+      }
+      case 'paragraph':
+        return paragraph(
+          paragraphProperties(undefined, context, numbering),
+          (prefix ? textRun(prefix) : '') +
+            (await this.renderInlines(block.content))
+        );
+      case 'quote': {
+        const inner: string[] = [];
+        for (const child of block.blocks) {
+          inner.push(
+            await this.renderBlock(child, {
+              ...context,
+              quoteDepth: context.quoteDepth + 1
+            })
+          );
+        }
+        return inner.join('');
+      }
+      case 'list':
+        return this.renderList(block, context);
+      case 'table':
+        return this.renderTable(block, context);
+      case 'code': {
+        const lines = block.text.replace(/\n$/, '').split('\n');
+        const runs = lines
+          .map(
+            (line, index) =>
+              (index > 0 ? '<w:r><w:br/></w:r>' : '') + textRun(line)
+          )
+          .join('');
+        return paragraph(
+          paragraphProperties('SourceCode', context, numbering),
+          runs
+        );
+      }
+      case 'math':
+        return paragraph(
+          paragraphProperties(undefined, context, numbering),
+          `<m:oMathPara><m:oMath>${toOmml(block.math)}</m:oMath></m:oMathPara>`
+        );
+      case 'diagram': {
+        const relId = this.addMedia(Buffer.from(block.png, 'base64'), 'png');
+        const svgRelId = block.svg
+          ? this.addMedia(Buffer.from(block.svg, 'utf8'), 'svg')
+          : undefined;
+        return paragraph(
+          paragraphProperties('Figure', context, numbering),
+          this.drawing({
+            relId,
+            svgRelId,
+            widthPx: block.width,
+            heightPx: block.height,
+            alt: block.alt
+          })
+        );
+      }
+      case 'rule':
+        return paragraph(
+          '<w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr></w:pPr>',
+          ''
+        );
+      default:
+        return '';
+    }
+  }
+
+  private async renderList(
+    block: Extract<DocxBlock, { type: 'list' }>,
+    context: ParagraphContext
+  ): Promise<string> {
+    const level = Math.min(context.listLevel + 1, 8);
+    const numId = block.ordered
+      ? this.addOrderedNumbering(block.start)
+      : BULLET_NUM_ID;
+    const itemContext = { ...context, listLevel: level };
+    const parts: string[] = [];
+    for (const item of block.items) {
+      parts.push(await this.renderListItem(item, itemContext, numId));
+    }
+    return parts.join('');
+  }
+
+  private async renderListItem(
+    item: DocxListItem,
+    context: ParagraphContext,
+    numId: number
+  ): Promise<string> {
+    const checkbox =
+      item.checked === undefined ? '' : item.checked ? '☒ ' : '☐ ';
+    const parts: string[] = [];
+    let numbered = false;
+    for (const child of item.blocks) {
+      if (!numbered && child.type !== 'list') {
+        numbered = true;
+        parts.push(
+          await this.renderBlock(
+            child,
+            context,
+            { numId, level: context.listLevel },
+            checkbox
+          )
+        );
+        continue;
+      }
+      parts.push(await this.renderBlock(child, context));
+    }
+    if (!numbered) {
+      // Items that only hold a nested list still need their own marker line.
+      parts.unshift(
+        paragraph(
+          paragraphProperties(undefined, context, {
+            numId,
+            level: context.listLevel
+          }),
+          checkbox ? textRun(checkbox) : ''
+        )
+      );
+    }
+    return parts.join('');
+  }
+
+  private async renderTable(
+    block: Extract<DocxBlock, { type: 'table' }>,
+    context: ParagraphContext
+  ): Promise<string> {
+    const columns = Math.max(1, ...block.rows.map((row) => row.cells.length));
+    const rows: string[] = [];
+    for (const row of block.rows) {
+      const cells: string[] = [];
+      for (let index = 0; index < columns; index += 1) {
+        const cell = row.cells[index];
+        const runs = cell
+          ? await this.renderInlines(
+              row.header
+                ? cell.content.map((inline) =>
+                    inline.type === 'text' ? { ...inline, bold: true } : inline
+                  )
+                : cell.content
+            )
+          : '';
+        const align = cell?.align
+          ? `<w:jc w:val="${cell.align === 'right' ? 'right' : cell.align === 'center' ? 'center' : 'left'}"/>`
+          : '';
+        cells.push(
+          `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr><w:p><w:pPr><w:pStyle w:val="TableText"/>${align}</w:pPr>${runs}</w:p></w:tc>`
+        );
+      }
+      rows.push(
+        `<w:tr>${row.header ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells.join('')}</w:tr>`
+      );
+    }
+    const indent = getIndentTwips(context);
+    return (
+      '<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/>' +
+      (indent ? `<w:tblInd w:w="${indent}" w:type="dxa"/>` : '') +
+      '<w:tblLook w:val="04A0" w:firstRow="1" w:lastRow="0" w:firstColumn="0" w:lastColumn="0" w:noHBand="0" w:noVBand="1"/></w:tblPr>' +
+      `<w:tblGrid>${'<w:gridCol/>'.repeat(columns)}</w:tblGrid>` +
+      rows.join('') +
+      // Word merges adjacent tables; an empty paragraph keeps the next block separate.
+      '</w:tbl><w:p/>'
+    );
+  }
+
+  private async renderInlines(inlines: readonly DocxInline[]): Promise<string> {
+    const parts: string[] = [];
+    for (const inline of inlines) {
+      switch (inline.type) {
+        case 'text': {
+          const run = textRun(inline.text, inline);
+          parts.push(inline.href ? this.hyperlink(inline.href, run) : run);
+          break;
+        }
+        case 'break':
+          parts.push('<w:r><w:br/></w:r>');
+          break;
+        case 'math':
+          parts.push(`<m:oMath>${toOmml(inline.math)}</m:oMath>`);
+          break;
+        case 'image': {
+          const image = await this.options
+            .loadImage(inline.src)
+            .catch(() => undefined);
+          if (!image) {
+            parts.push(textRun(inline.alt ? `[${inline.alt}]` : '[image]'));
+            break;
+          }
+          parts.push(
+            this.drawing({
+              relId: this.addMedia(image.data, image.extension),
+              widthPx: inline.width,
+              heightPx: inline.height,
+              alt: inline.alt
+            })
+          );
+          break;
+        }
+        default:
+          break;
+      }
+    }
+    return parts.join('');
+  }
+
+  private hyperlink(href: string, run: string): string {
+    const styled = run.replace(
+      '<w:rPr>',
+      '<w:rPr><w:rStyle w:val="Hyperlink"/>'
+    );
+    if (href.startsWith('#')) {
+      const bookmark = this.bookmarks.get(safeDecode(href.slice(1)));
+      return bookmark
+        ? `<w:hyperlink w:anchor="${escapeXml(bookmark)}">${styled}</w:hyperlink>`
+        : run;
+    }
+    if (!/^(https?:|mailto:)/i.test(href)) {
+      return run;
+    }
+    const relId = this.allocateRelId();
+    this.relationships.push(
+      `<Relationship Id="${relId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${escapeXml(href)}" TargetMode="External"/>`
+    );
+    return `<w:hyperlink r:id="${relId}">${styled}</w:hyperlink>`;
+  }
+
+  private drawing(image: ResolvedImage): string {
+    let cx = Math.max(1, Math.round(image.widthPx * EMU_PER_PX));
+    let cy = Math.max(1, Math.round(image.heightPx * EMU_PER_PX));
+    if (cx > MAX_IMAGE_WIDTH_EMU) {
+      cy = Math.round((cy * MAX_IMAGE_WIDTH_EMU) / cx);
+      cx = MAX_IMAGE_WIDTH_EMU;
+    }
+    const id = this.nextDrawingId++;
+    const alt = escapeXml(image.alt);
+    const svgExtension = image.svgRelId
+      ? `<a:extLst><a:ext uri="${SVG_BLIP_EXTENSION_URI}"><asvg:svgBlip r:embed="${image.svgRelId}"/></a:ext></a:extLst>`
+      : '';
+    return (
+      '<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">' +
+      `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${id}" name="Picture ${id}" descr="${alt}"/>` +
+      '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic>' +
+      `<pic:nvPicPr><pic:cNvPr id="${id}" name="Picture ${id}" descr="${alt}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+      `<pic:blipFill><a:blip r:embed="${image.relId}">${svgExtension}</a:blip><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+      `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+      '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>'
+    );
+  }
+
+  private addMedia(
+    data: Buffer,
+    extension: DocxImageExtension | 'svg'
+  ): string {
+    const relId = this.allocateRelId();
+    const name = `media/image${this.media.length + 1}.${extension}`;
+    this.media.push({ name: `word/${name}`, data });
+    this.relationships.push(
+      `<Relationship Id="${relId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="${name}"/>`
+    );
+    return relId;
+  }
+
+  private addOrderedNumbering(start: number): number {
+    const numId = BULLET_NUM_ID + 1 + this.orderedNums.length;
+    this.orderedNums.push({ numId, start });
+    return numId;
+  }
+
+  private allocateRelId(): string {
+    return `rId${this.nextRelId++}`;
+  }
+
+  private buildNumbering(): string {
+    const levels = (ordered: boolean) =>
+      Array.from({ length: 9 }, (_, level) => {
+        const format = ordered
+          ? ['decimal', 'lowerLetter', 'lowerRoman'][level % 3]
+          : 'bullet';
+        const text = ordered ? `%${level + 1}.` : ['•', '◦', '▪'][level % 3];
+        return (
+          `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/>` +
+          `<w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>` +
+          `<w:pPr><w:ind w:left="${LIST_INDENT_TWIPS * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`
+        );
+      }).join('');
+    const nums = [
+      `<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>`,
+      ...this.orderedNums.map(
+        ({ numId, start }) =>
+          `<w:num w:numId="${numId}"><w:abstractNumId w:val="1"/>` +
+          `<w:lvlOverride w:ilvl="0"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`
+      )
+    ];
+    return (
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+      `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels(false)}</w:abstractNum>` +
+      `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels(true)}</w:abstractNum>` +
+      nums.join('') +
+      '</w:numbering>'
+    );
+  }
+}
+
+function paragraph(properties: string, content: string): string {
+  return `<w:p>${properties}${content}</w:p>`;
+}
+
+function paragraphProperties(
+  style: string | undefined,
+  context: ParagraphContext,
+  numbering?: { numId: number; level: number }
+): string {
+  const parts: string[] = [];
+  if (style) parts.push(`<w:pStyle w:val="${style}"/>`);
+  if (numbering) {
+    parts.push(
+      `<w:numPr><w:ilvl w:val="${numbering.level}"/><w:numId w:val="${numbering.numId}"/></w:numPr>`
+    );
+  }
+  if (context.quoteDepth > 0) {
+    parts.push(
+      '<w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="D0D7DE"/></w:pBdr>'
+    );
+  }
+  const indent = getIndentTwips(context);
+  if (indent && !numbering) {
+    parts.push(`<w:ind w:left="${indent}"/>`);
+  }
+  return `<w:pPr>${parts.join('')}</w:pPr>`;
+}
+
+function getIndentTwips(context: ParagraphContext): number {
+  return (
+    (context.listLevel + 1) * LIST_INDENT_TWIPS +
+    context.quoteDepth * LIST_INDENT_TWIPS
+  );
+}
+
+function textRun(
+  text: string,
+  format: {
+    bold?: boolean;
+    italic?: boolean;
+    strike?: boolean;
+    code?: boolean;
+  } = {}
+): string {
+  const props = [
+    format.code ? '<w:rStyle w:val="InlineCode"/>' : '',
+    format.bold ? '<w:b/>' : '',
+    format.italic ? '<w:i/>' : '',
+    format.strike ? '<w:strike/>' : ''
+  ].join('');
+  const segments = text.split('\t');
+  const body = segments
+    .map(
+      (segment, index) =>
+        (index > 0 ? '<w:tab/>' : '') +
+        (segment ? `<w:t xml:space="preserve">${escapeXml(segment)}</w:t>` : '')
+    )
+    .join('');
+  return `<w:r><w:rPr>${props}</w:rPr>${body}</w:r>`;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function xmlEntry(name: string, xml: string): ZipEntry {
+  return { name, data: Buffer.from(xml, 'utf8') };
+}
+
+function buildRelationships(relationships: readonly string[]): string {
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    relationships.join('') +
+    '</Relationships>'
+  );
+}
+
+function buildPackageRelationships(): string {
+  return buildRelationships([
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>',
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>'
+  ]);
+}
+
+function buildContentTypes(): string {
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Default Extension="png" ContentType="image/png"/>' +
+    '<Default Extension="jpeg" ContentType="image/jpeg"/>' +
+    '<Default Extension="gif" ContentType="image/gif"/>' +
+    '<Default Extension="bmp" ContentType="image/bmp"/>' +
+    '<Default Extension="svg" ContentType="image/svg+xml"/>' +
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+    '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+    '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>' +
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+    '</Types>'
+  );
+}
+
+function buildCoreProperties(title: string | undefined): string {
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+    (title ? `<dc:title>${escapeXml(title)}</dc:title>` : '') +
+    '</cp:coreProperties>'
+  );
+}
+
+function buildStyles(): string {
+  const headingSizes = [32, 28, 26, 24, 22, 22];
+  const headings = headingSizes
+    .map(
+      (size, index) =>
+        `<w:style w:type="paragraph" w:styleId="Heading${index + 1}"><w:name w:val="heading ${index + 1}"/>` +
+        '<w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>' +
+        `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${index}"/></w:pPr>` +
+        `<w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`
+    )
+    .join('');
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+    '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/>' +
+    '<w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    headings +
+    '<w:style w:type="paragraph" w:styleId="SourceCode"><w:name w:val="Source Code"/><w:basedOn w:val="Normal"/>' +
+    '<w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F6F8FA"/><w:spacing w:after="120" w:line="240" w:lineRule="auto"/></w:pPr>' +
+    '<w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="19"/></w:rPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Figure"><w:name w:val="Figure"/><w:basedOn w:val="Normal"/><w:pPr><w:jc w:val="center"/></w:pPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="TableText"><w:name w:val="Table Text"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0"/></w:pPr></w:style>' +
+    '<w:style w:type="character" w:styleId="InlineCode"><w:name w:val="Inline Code"/>' +
+    '<w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:shd w:val="clear" w:color="auto" w:fill="F0F0F0"/></w:rPr></w:style>' +
+    '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0969DA"/><w:u w:val="single"/></w:rPr></w:style>' +
+    '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>' +
+    '<w:top w:val="single" w:sz="4" w:space="0" w:color="D0D7DE"/><w:left w:val="single" w:sz="4" w:space="0" w:color="D0D7DE"/>' +
+    '<w:bottom w:val="single" w:sz="4" w:space="0" w:color="D0D7DE"/><w:right w:val="single" w:sz="4" w:space="0" w:color="D0D7DE"/>' +
+    '<w:insideH w:val="single" w:sz="4" w:space="0" w:color="D0D7DE"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="D0D7DE"/>' +
+    '</w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>' +
+    '</w:styles>'
+  );
+}
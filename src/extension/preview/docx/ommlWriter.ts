@@ -0,0 +1,63 @@
+import type { DocxMathNode } from '../../messaging/protocol';
+import { escapeXml } from './xml';
+
+// Office Math (OMML) for the math tree the webview extracts from KaTeX's MathML output.
+export function toOmml(node: DocxMathNode): string {
+  switch (node.type) {
+    case 'text':
+      return (
+        '<m:r>' +
+        (node.normal ? '<m:rPr><m:sty m:val="p"/></m:rPr>' : '') +
+        `<m:t xml:space="preserve">${escapeXml(node.text)}</m:t></m:r>`
+      );
+    case 'row':
+      return node.children.map(toOmml).join('');
+    case 'frac':
+      return `<m:f><m:num>${toOmml(node.num)}</m:num><m:den>${toOmml(node.den)}</m:den></m:f>`;
+    case 'sub':
+      return `<m:sSub><m:e>${toOmml(node.base)}</m:e><m:sub>${toOmml(node.sub)}</m:sub></m:sSub>`;
+    case 'sup':
+      return `<m:sSup><m:e>${toOmml(node.base)}</m:e><m:sup>${toOmml(node.sup)}</m:sup></m:sSup>`;
+    case 'subsup':
+      return (
+        `<m:sSubSup><m:e>${toOmml(node.base)}</m:e>` +
+        `<m:sub>${toOmml(node.sub)}</m:sub><m:sup>${toOmml(node.sup)}</m:sup></m:sSubSup>`
+      );
+    case 'rad':
+      return node.degree
+        ? `<m:rad><m:deg>${toOmml(node.degree)}</m:deg><m:e>${toOmml(node.body)}</m:e></m:rad>`
+        : `<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e>${toOmml(node.body)}</m:e></m:rad>`;
+    case 'over': {
+      const accent = node.accent ? getAccentCharacter(node.over) : undefined;
+      if (accent) {
+        return `<m:acc><m:accPr><m:chr m:val="${escapeXml(accent)}"/></m:accPr><m:e>${toOmml(node.base)}</m:e></m:acc>`;
+      }
+      return `<m:limUpp><m:e>${toOmml(node.base)}</m:e><m:lim>${toOmml(node.over)}</m:lim></m:limUpp>`;
+    }
+    case 'under':
+      return `<m:limLow><m:e>${toOmml(node.base)}</m:e><m:lim>${toOmml(node.under)}</m:lim></m:limLow>`;
+    case 'matrix':
+      return (
+        '<m:m>' +
+        node.rows
+          .map(
+            (row) =>
+              `<m:mr>${row.map((cell) => `<m:e>${toOmml(cell)}</m:e>`).join('')}</m:mr>`
+          )
+          .join('') +
+        '</m:m>'
+      );
+    default:
+      return '';
+  }
+}
+
+function getAccentCharacter(node: DocxMathNode): string | undefined {
+  if (node.type === 'text' && [...node.text].length === 1) {
+    return node.text;
+  }
+  if (node.type === 'row' && node.children.length === 1 && node.children[0]) {
+    return getAccentCharacter(node.children[0]);
+  }
+  return undefined;
+}
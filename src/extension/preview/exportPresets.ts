@@ -0,0 +1,179 @@
+import * as path from 'node:path';
+import { z } from 'zod';
+
+export type ExportPresetFormat = 'html' | 'pdf' | 'docx';
+export type ExportTheme = 'auto' | 'light' | 'dark';
+
+const exportPresetSchema = z
+  .object({
+    format: z.enum(['html', 'pdf', 'docx']),
+    output: z.string(),
+    embedImages: z.boolean(),
+    theme: z.enum(['auto', 'light', 'dark']),
+    includeFrontmatter: z.boolean(),
+    customCss: z.string(),
+    pdf: z
+      .object({
+        pageSize: z.string(),
+        orientation: z.enum(['portrait', 'landscape']),
+        margin: z.string(),
+        printBackground: z.boolean(),
+        headerTemplate: z.string(),
+        footerTemplate: z.string(),
+        outline: z.boolean(),
+        contentsPage: z.boolean()
+      })
+      .partial()
+      .strict()
+  })
+  .partial()
+  .strict();
+
+// Every field is optional: unset fields fall back to the regular export settings.
+export type ExportPresetOptions = z.infer<typeof exportPresetSchema>;
+
+export interface ExportPreset {
+  name: string;
+  options: ExportPresetOptions;
+  // Set when the document's own frontmatter turned on `embedImages`; that still asks first.
+  embedImagesFromFrontmatter?: boolean;
+}
+
+// Frontmatter `export:` is either a preset name or an object with an optional `preset` plus fields
+// that override it for this document.
+const frontmatterExportSchema = exportPresetSchema
+  .extend({ preset: z.string().min(1).optional() })
+  .strict();
+
+export interface FrontmatterExportOverrides {
+  preset?: string;
+  options: ExportPresetOptions;
+}
+
+// Reads `export.presets`; invalid entries are reported by name instead of failing the whole map.
+export function readExportPresets(value: unknown): {
+  presets: ExportPreset[];
+  invalid: string[];
+} {
+  const presets: ExportPreset[] = [];
+  const invalid: string[] = [];
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { presets, invalid };
+  }
+  for (const [name, options] of Object.entries(value)) {
+    const parsed = exportPresetSchema.safeParse(options);
+    if (parsed.success) {
+      presets.push({ name, options: parsed.data });
+    } else {
+      invalid.push(name);
+    }
+  }
+  presets.sort((a, b) => a.name.localeCompare(b.name));
+  return { presets, invalid };
+}
+
+export function readFrontmatterExportOverrides(
+  data: Record<string, unknown> | undefined
+): FrontmatterExportOverrides | undefined {
+  if (data?.export === undefined) return undefined;
+  if (typeof data.export === 'string' && data.export.trim()) {
+    return { preset: data.export.trim(), options: {} };
+  }
+  const parsed = frontmatterExportSchema.safeParse(data.export);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid export frontmatter: ${parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || 'export'}: ${issue.message}`)
+        .join('; ')}`
+    );
+  }
+  const { preset, ...options } = parsed.data;
+  return { preset, options };
+}
+
+export function mergeExportPresetOptions(
+  base: ExportPresetOptions,
+  overrides: ExportPresetOptions
+): ExportPresetOptions {
+  const merged = { ...base, ...overrides };
+  if (base.pdf || overrides.pdf) {
+    merged.pdf = { ...base.pdf, ...overrides.pdf };
+  }
+  return merged;
+}
+
+// Expands `${fileBasenameNoExtension}`-style variables in an output pattern. The result must stay
+// relative to the workspace folder; the extension for the format is appended when missing.
+export function expandExportOutputPattern(
+  pattern: string,
+  variables: Record<string, string>,
+  format: ExportPresetFormat
+): string {
+  const unknown: string[] = [];
+  const expanded = pattern.replace(/\$\{(\w+)\}/g, (match, name: string) => {
+    const value = variables[name];
+    if (value === undefined) unknown.push(match);
+    return value ?? match;
+  });
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown variable ${unknown.join(', ')} in export output path "${pattern}".`
+    );
+  }
+  const relative = toWorkspaceRelativePath(expanded);
+  if (!relative || relative.endsWith('/')) {
+    throw new Error(
+      `Export output path must be a file path inside the workspace folder: "${pattern}".`
+    );
+  }
+  return path.posix.extname(relative).toLowerCase() === `.${format}`
+    ? relative
+    : `${relative}.${format}`;
+}
+
+// Normalized forward-slash path, or `undefined` when it is absolute, empty or leaves the folder.
+export function toWorkspaceRelativePath(value: string): string | undefined {
+  const relative = path.posix.normalize(
+    value.trim().replace(/\\/g, '/') || '.'
+  );
+  if (
+    path.posix.isAbsolute(relative) ||
+    /^[a-z]:/i.test(relative) ||
+    relative.split('/')[0] === '..' ||
+    relative === '.'
+  ) {
+    return undefined;
+  }
+  return relative;
+}
+
+export function getExportOutputVariables(options: {
+  documentPath: string;
+  workspaceFolderPath: string;
+  preset: string;
+  format: ExportPresetFormat;
+  date: Date;
+}): Record<string, string> {
+  const basename = path.posix.basename(options.documentPath);
+  const relativeDirname = path.posix.relative(
+    options.workspaceFolderPath,
+    path.posix.dirname(options.documentPath)
+  );
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return {
+    fileBasename: basename,
+    fileBasenameNoExtension: basename.replace(/\.[^.]+$/, ''),
+    relativeFileDirname: relativeDirname || '.',
+    preset: options.preset,
+    format: options.format,
+    date: `${options.date.getFullYear()}-${pad(options.date.getMonth() + 1)}-${pad(options.date.getDate())}`
+  };
+}
+
+export function describeExportPreset(options: ExportPresetOptions): string {
+  const parts: string[] = [(options.format ?? 'html').toUpperCase()];
+  if (options.output) parts.push(`→ ${options.output}`);
+  if (options.theme && options.theme !== 'auto') parts.push(options.theme);
+  if (options.embedImages) parts.push('embedded images');
+  return parts.join(' · ');
+}
@@ -0,0 +1,87 @@
+const FONT_FACE_PATTERN = /@font-face\s*\{[^{}]*\}/g;
+const KATEX_FAMILY_PATTERN = /KaTeX_\w+/g;
+
+// The bundled stylesheet inlines every KaTeX font in WOFF2, WOFF and TTF (about 1.4 MB). Exports
+// keep only the families the exported math uses, as WOFF2, so a page without math carries none.
+export function subsetKatexFonts(css: string, html: string): string {
+  const used = collectUsedKatexFamilies(css, html);
+  return css.replace(FONT_FACE_PATTERN, (rule) => {
+    const family = /font-family\s*:\s*["']?([\w-]+)/.exec(rule)?.[1];
+    if (!family?.startsWith('KaTeX_')) return rule;
+    if (!used.has(family)) return '';
+    const woff2 = /url\([^)]*\)\s*format\(["']woff2["']\)/.exec(rule)?.[0];
+    if (!woff2) return rule;
+    const style = /font-style\s*:\s*([\w-]+)/.exec(rule)?.[1] ?? 'normal';
+    const weight = /font-weight\s*:\s*(\w+)/.exec(rule)?.[1] ?? '400';
+    return `@font-face{font-display:block;font-family:${family};font-style:${style};font-weight:${weight};src:${woff2}}`;
+  });
+}
+
+// A KaTeX family is used when every class of some selector that sets it appears in the document
+// (`.katex .delimsizing.size2` needs `katex`, `delimsizing` and `size2`).
+export function collectUsedKatexFamilies(
+  css: string,
+  html: string
+): Set<string> {
+  const classes = new Set<string>();
+  for (const match of html.matchAll(/\sclass\s*=\s*(["'])(.*?)\1/gi)) {
+    for (const name of (match[2] ?? '').split(/\s+/)) {
+      if (name) classes.add(name);
+    }
+  }
+  const used = new Set<string>();
+  if (!classes.has('katex')) return used;
+
+  const rules = css
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(FONT_FACE_PATTERN, '');
+  for (const match of rules.matchAll(/([^{}]+)\{([^{}]*)\}/g)) {
+    const declarations = match[2] ?? '';
+    if (!/font(?:-family)?\s*:[^;]*KaTeX_/.test(declarations)) continue;
+    const matches = (match[1] ?? '')
+      .split(',')
+      .some((selector) =>
+        [...selector.matchAll(/\.([\w-]+)/g)].every((name) =>
+          classes.has(name[1] ?? '')
+        )
+      );
+    if (!matches) continue;
+    for (const family of declarations.match(KATEX_FAMILY_PATTERN) ?? []) {
+      used.add(family);
+    }
+  }
+  return used;
+}
+
+// Exports normally inherit the active VS Code theme's colors from the preview. A preset that fixes
+// the theme replaces them with VS Code's default Light Modern / Dark Modern palette.
+const EXPORT_THEME_PALETTES: Record<
+  'light' | 'dark',
+  Record<string, string>
+> = {
+  light: {
+    '--vscode-editor-background': '#ffffff',
+    '--vscode-editor-foreground': '#3b3b3b',
+    '--vscode-descriptionForeground': '#616161',
+    '--vscode-panel-border': '#e5e5e5',
+    '--vscode-textLink-foreground': '#005fb8',
+    '--vscode-textCodeBlock-background': '#f3f3f3',
+    '--vscode-textPreformat-foreground': '#3b3b3b'
+  },
+  dark: {
+    '--vscode-editor-background': '#1f1f1f',
+    '--vscode-editor-foreground': '#cccccc',
+    '--vscode-descriptionForeground': '#9d9d9d',
+    '--vscode-panel-border': '#2b2b2b',
+    '--vscode-textLink-foreground': '#4daafc',
+    '--vscode-textCodeBlock-background': '#2b2b2b',
+    '--vscode-textPreformat-foreground': '#d0d0d0'
+  }
+};
+
+export function buildExportThemeCss(theme: 'light' | 'dark'): string {
+  const declarations = Object.entries(EXPORT_THEME_PALETTES[theme])
+    .map(([name, value]) => `${name}: ${value};`)
+    .join(' ');
+  return `:root { ${declarations} }`;
+}
@@ -0,0 +1,120 @@
+import * as path from 'node:path';
+import createDOMPurify from 'dompurify';
+import type { DOMPurify, WindowLike } from 'dompurify';
+import katex from 'katex';
+import * as vscode from 'vscode';
+
+import { PREVIEW_SANITIZE_CONFIG } from '../../previewSanitizeConfig';
+import {
+  MARKDOWN_FILE_PATTERN,
+  resolveLinkTarget
+} from './markdown/linkResolver';
+
+export type FolderExportFormat = 'html' | 'pdf';
+
+const MATH_PLACEHOLDER_PATTERN =
+  /<(div|span) class="(omv-math-block|omv-math-inline)"([^>]*) data-math="([^"]*)"><\/\1>/g;
+const MERMAID_PLACEHOLDER_PATTERN =
+  /<div class="omv-mermaid"([^>]*) data-mermaid="([^"]*)"><\/div>/g;
+
+let purify: Promise<DOMPurify> | undefined;
+
+// Folder exports never reach the webview, so raw HTML is sanitized here with the preview's
+// DOMPurify options before math and diagrams are filled in. jsdom is loaded on first use only.
+export async function sanitizeExportHtml(html: string): Promise<string> {
+  purify ??= import('jsdom').then(({ JSDOM }) =>
+    createDOMPurify(new JSDOM('').window as unknown as WindowLike)
+  );
+  return String((await purify).sanitize(html, PREVIEW_SANITIZE_CONFIG));
+}
+
+// Folder exports never reach the webview, so math is typeset here with the same KaTeX options.
+// Mermaid needs a browser DOM to lay out diagrams; its source is kept as a code block instead.
+export function renderStaticEnhancements(
+  html: string,
+  options: { enableMath: boolean }
+): string {
+  return html
+    .replace(
+      MATH_PLACEHOLDER_PATTERN,
+      (_match, tag: string, className: string, attrs: string, data: string) => {
+        const expr = Buffer.from(data, 'base64').toString('utf8');
+        let rendered = escapeHtml(expr);
+        if (options.enableMath) {
+          try {
+            rendered = katex.renderToString(expr, {
+              throwOnError: false,
+              displayMode: className === 'omv-math-block',
+              strict: 'warn',
+              trust: false
+            });
+          } catch {
+            // Keep the escaped source, as the preview does.
+          }
+        }
+        return `<${tag} class="${className}"${attrs}>${rendered}</${tag}>`;
+      }
+    )
+    .replace(
+      MERMAID_PLACEHOLDER_PATTERN,
+      (_match, attrs: string, data: string) => {
+        const source = Buffer.from(data, 'base64').toString('utf8');
+        return `<pre${attrs}><code class="language-mermaid">${escapeHtml(source)}</code></pre>`;
+      }
+    );
+}
+
+// Points links between exported documents at their exported copies (`guide.md#setup` →
+// `guide.html#setup`). Links to files outside the export are left untouched.
+export function rewriteExportedDocumentLinks(
+  html: string,
+  sourceUri: vscode.Uri,
+  exportedDocuments: ReadonlySet<string>,
+  format: FolderExportFormat
+): string {
+  return html.replace(
+    /(<a\b[^>]*?\shref=")([^"]*)(")/gi,
+    (match, before: string, href: string, after: string) => {
+      const [, target = '', suffix = ''] = /^([^?#]*)(.*)$/.exec(href) ?? [];
+      if (
+        !MARKDOWN_FILE_PATTERN.test(target) ||
+        /^[a-z][a-z0-9+.-]*:/i.test(target) ||
+        target.startsWith('/')
+      ) {
+        return match;
+      }
+      let decoded = target;
+      try {
+        decoded = decodeURI(target);
+      } catch {
+        return match;
+      }
+      const resolved = resolveLinkTarget(sourceUri, decoded).uri;
+      if (!resolved || !exportedDocuments.has(resolved.toString())) {
+        return match;
+      }
+      return `${before}${target.replace(MARKDOWN_FILE_PATTERN, `.${format}`)}${suffix}${after}`;
+    }
+  );
+}
+
+// Mirrors `file`'s location under `sourceRoot` inside `outputRoot`, with the export extension.
+export function getFolderExportTarget(
+  sourceRoot: vscode.Uri,
+  outputRoot: vscode.Uri,
+  file: vscode.Uri,
+  format: FolderExportFormat
+): vscode.Uri {
+  const relative = path.posix
+    .relative(sourceRoot.path, file.path)
+    .replace(MARKDOWN_FILE_PATTERN, `.${format}`);
+  return vscode.Uri.joinPath(outputRoot, ...relative.split('/'));
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
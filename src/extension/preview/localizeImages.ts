@@ -0,0 +1,200 @@
+import { createHash } from 'node:crypto';
+import * as path from 'node:path';
+
+import {
+  getHtmlAttribute,
+  mapHtmlImgTags,
+  parseHtmlImgTag,
+  parseHtmlSrcset,
+  serializeHtmlImgTag,
+  serializeHtmlSrcset,
+  setHtmlAttribute
+} from './htmlImageTags';
+
+// A replacement of `text[start, end)` in the scanned Markdown source.
+export interface ImageReferenceEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const REMOTE_URL_PATTERN = /^https?:\/\//i;
+// Stands in for each raw `<img>` tag so its source offset can be recovered after mapping.
+const IMG_TAG_MARKER = '\u0000';
+const INLINE_IMAGE_PATTERN =
+  /!\[(?:\\.|[^\\\]\n])*\]\(\s*(?:<(https?:\/\/[^>\n]+)>|((?:https?:\/\/)(?:[^\s()]|\([^\s()]*\))+))/gi;
+const REFERENCE_IMAGE_PATTERN =
+  /!\[((?:\\.|[^\\\]\n])*)\](?!\()(?:\[((?:\\.|[^\\\]\n])*)\])?/g;
+const REFERENCE_DEFINITION_PATTERN =
+  /^ {0,3}\[((?:\\.|[^\\\]\n])+)\]:[ \t]*(?:<(https?:\/\/[^>\n]+)>|(https?:\/\/\S+))/gim;
+
+// Remote image URLs used by Markdown images (inline or reference-style) and raw `<img src/srcset>`
+// tags, in document order without duplicates. Code blocks and code spans are ignored.
+export function findRemoteImageUrls(markdown: string): string[] {
+  const urls = new Set<string>();
+  scanRemoteImageReferences(markdown, (url) => {
+    urls.add(url);
+    return undefined;
+  });
+  return [...urls];
+}
+
+// Edits pointing every remote image reference with an entry in `localPaths` at its local copy.
+export function rewriteRemoteImageUrls(
+  markdown: string,
+  localPaths: ReadonlyMap<string, string>
+): ImageReferenceEdit[] {
+  return scanRemoteImageReferences(markdown, (url) => localPaths.get(url));
+}
+
+// Readable, collision-free file name for a downloaded image: the URL's base name plus a URL hash.
+export function getLocalizedImageFileName(
+  url: string,
+  extension: string
+): string {
+  let baseName = '';
+  try {
+    const pathname = decodeURIComponent(new URL(url).pathname);
+    baseName = path.posix.basename(pathname, path.posix.extname(pathname));
+  } catch {
+    // Malformed escapes; the hash alone still identifies the image.
+  }
+  const stem =
+    baseName
+      .replace(/[^\w-]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 40) || 'image';
+  const hash = createHash('sha256').update(url).digest('hex').slice(0, 8);
+  return `${stem}-${hash}${extension}`;
+}
+
+function scanRemoteImageReferences(
+  markdown: string,
+  replace: (url: string) => string | undefined
+): ImageReferenceEdit[] {
+  const masked = maskCode(markdown);
+  const edits: ImageReferenceEdit[] = [];
+
+  for (const match of masked.matchAll(INLINE_IMAGE_PATTERN)) {
+    const url = match[1] ?? match[2] ?? '';
+    const end =
+      (match.index ?? 0) + match[0].length - (match[1] !== undefined ? 1 : 0);
+    const local = replace(url);
+    if (local !== undefined) {
+      edits.push({ start: end - url.length, end, text: local });
+    }
+  }
+
+  const imageLabels = new Set<string>();
+  for (const match of masked.matchAll(REFERENCE_IMAGE_PATTERN)) {
+    imageLabels.add(normalizeLabel(match[2] || match[1] || ''));
+  }
+  for (const match of masked.matchAll(REFERENCE_DEFINITION_PATTERN)) {
+    if (!imageLabels.has(normalizeLabel(match[1] ?? ''))) continue;
+    const url = match[2] ?? match[3] ?? '';
+    const end =
+      (match.index ?? 0) + match[0].length - (match[2] !== undefined ? 1 : 0);
+    const local = replace(url);
+    if (local !== undefined) {
+      edits.push({ start: end - url.length, end, text: local });
+    }
+  }
+
+  const tags: string[] = [];
+  const marked = mapHtmlImgTags(masked, (tag) => {
+    tags.push(tag);
+    return IMG_TAG_MARKER;
+  });
+  let shift = 0;
+  let markerIndex = marked.indexOf(IMG_TAG_MARKER);
+  for (const tag of tags) {
+    const start = markerIndex + shift;
+    shift += tag.length - IMG_TAG_MARKER.length;
+    markerIndex = marked.indexOf(IMG_TAG_MARKER, markerIndex + 1);
+    const rewritten = rewriteImgTag(tag, replace);
+    if (rewritten !== undefined) {
+      edits.push({ start, end: start + tag.length, text: rewritten });
+    }
+  }
+
+  edits.sort((a, b) => a.start - b.start);
+  return edits.filter(
+    (edit, index) => index === 0 || edit.start >= (edits[index - 1]?.end ?? 0)
+  );
+}
+
+function rewriteImgTag(
+  tag: string,
+  replace: (url: string) => string | undefined
+): string | undefined {
+  const parsed = parseHtmlImgTag(tag);
+  if (!parsed) return undefined;
+  let changed = false;
+
+  const src = getHtmlAttribute(parsed.attributes, 'src')?.value?.trim();
+  if (src && REMOTE_URL_PATTERN.test(src)) {
+    const local = replace(src);
+    if (local !== undefined) {
+      setHtmlAttribute(parsed.attributes, 'src', local);
+      changed = true;
+    }
+  }
+
+  const srcset = getHtmlAttribute(parsed.attributes, 'srcset')?.value;
+  if (srcset) {
+    let srcsetChanged = false;
+    const candidates = parseHtmlSrcset(srcset).map((candidate) => {
+      const local = REMOTE_URL_PATTERN.test(candidate.url)
+        ? replace(candidate.url)
+        : undefined;
+      if (local === undefined) return candidate;
+      srcsetChanged = true;
+      return { ...candidate, url: local };
+    });
+    if (srcsetChanged) {
+      setHtmlAttribute(
+        parsed.attributes,
+        'srcset',
+        serializeHtmlSrcset(candidates)
+      );
+      changed = true;
+    }
+  }
+
+  return changed
+    ? serializeHtmlImgTag(parsed.attributes, parsed.selfClosing)
+    : undefined;
+}
+
+// Blanks fenced code blocks and code spans (keeping offsets and line breaks) so examples of image
+// syntax are left alone.
+function maskCode(markdown: string): string {
+  const blank = (value: string) => value.replace(/[^\n]/g, ' ');
+  const lines = markdown.split(IMG_TAG_MARKER).join(' ').split('\n');
+  let fence: { char: string; length: number } | undefined;
+  const masked = lines.map((line) => {
+    const marker = /^ {0,3}(`{3,}|~{3,})/.exec(line)?.[1];
+    if (fence) {
+      if (
+        marker?.[0] === fence.char &&
+        marker.length >= fence.length &&
+        line.trim() === marker
+      ) {
+        fence = undefined;
+      }
+      return blank(line);
+    }
+    if (marker) {
+      fence = { char: marker[0] ?? '`', length: marker.length };
+      return blank(line);
+    }
+    return line;
+  });
+  return masked
+    .join('\n')
+    .replace(/(?<!`)(`+)(?!`)[\s\S]*?(?<!`)\1(?!`)/g, blank);
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
@@ -5,14 +5,17 @@ import type { FrontmatterInfo } from '../../messaging/protocol';
 export interface FrontmatterParseResult {
   content: string;
   frontmatter?: FrontmatterInfo;
+  // Number of source lines stripped before `content`; add it to markdown-it token maps.
+  lineOffset: number;
 }
 
 export function parseFrontmatter(input: string): FrontmatterParseResult {
-  const parsed = matter(input);
+  // Passing options skips gray-matter's cache, which is unbounded and whose hits lack `matter`.
+  const parsed = matter(input, {});
   const rawMatter = typeof parsed.matter === 'string' ? parsed.matter : '';
   const hasFrontmatter = rawMatter.trim().length > 0;
   if (!hasFrontmatter) {
-    return { content: input };
+    return { content: input, lineOffset: 0 };
   }
 
   return {
@@ -20,6 +23,20 @@ export function parseFrontmatter(input: string): FrontmatterParseResult {
     frontmatter: {
       raw: rawMatter,
       data: (parsed.data ?? {}) as Record<string, unknown>
-    }
+    },
+    lineOffset: countStrippedLines(input, parsed.content, rawMatter)
   };
 }
+
+function countStrippedLines(
+  input: string,
+  content: string,
+  rawMatter: string
+): number {
+  if (input.endsWith(content)) {
+    const prefix = input.slice(0, input.length - content.length);
+    return prefix.split('\n').length - 1;
+  }
+  // Opening delimiter, matter body, closing delimiter.
+  return rawMatter.replace(/^\r?\n/, '').split('\n').length + 2;
+}
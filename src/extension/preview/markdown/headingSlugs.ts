@@ -0,0 +1,96 @@
+export type HeadingSlugStyle = 'github' | 'gitlab' | 'vscode';
+
+// Turns heading text into an id. Duplicates are numbered afterwards (`id`, `id-1`, `id-2`, ...).
+export type HeadingSlugify = (text: string) => string;
+
+// A built-in style or a custom slug function.
+export type HeadingSlugs = HeadingSlugStyle | HeadingSlugify;
+
+// `preview.customHeadingSlug`, used when `preview.headingSlugs` is `custom`.
+export interface CustomHeadingSlugOptions {
+  // Regular expression (Unicode mode) matching the characters to remove.
+  remove?: string;
+  // Replaces each run of whitespace.
+  separator?: string;
+  lowercase?: boolean;
+}
+
+export const DEFAULT_HEADING_SLUG_STYLE: HeadingSlugStyle = 'github';
+export const DEFAULT_CUSTOM_HEADING_SLUG_REMOVE =
+  '[^\\p{L}\\p{M}\\p{N}\\p{Pc}\\s-]';
+
+// Everything but letters, marks, numbers, connector punctuation, spaces and hyphens.
+const NON_WORD_PATTERN = /[^\p{L}\p{M}\p{N}\p{Pc} -]/gu;
+
+// ASCII and CJK punctuation removed by VS Code's built-in Markdown preview.
+const VSCODE_PUNCTUATION_PATTERN =
+  /[\][!/'"#$%&()*+,.:;<=>?@\\^{|}~`。，、；：？！…—·ˉ¨‘’“”々～‖∶＂＇｀｜〃〔〕〈〉《》「」『』．〖〗【】（）［］｛｝]/g;
+
+const HEADING_SLUGIFIERS: Record<HeadingSlugStyle, HeadingSlugify> = {
+  // github-slugger: punctuation and emoji are dropped, every space becomes a hyphen.
+  github: (text) =>
+    text.toLowerCase().replace(NON_WORD_PATTERN, '').replace(/ /g, '-'),
+  // GitLab additionally collapses hyphen runs.
+  gitlab: (text) =>
+    text
+      .trim()
+      .toLowerCase()
+      .replace(NON_WORD_PATTERN, '')
+      .replace(/ /g, '-')
+      .replace(/-+/g, '-'),
+  // VS Code keeps emoji and symbols, collapses whitespace and trims hyphens.
+  vscode: (text) =>
+    text
+      .trim()
+      .toLowerCase()
+      .replace(/\s+/g, '-')
+      .replace(VSCODE_PUNCTUATION_PATTERN, '')
+      .replace(/^-+|-+$/g, '')
+};
+
+// Throws when `remove` is not a valid regular expression.
+export function createCustomHeadingSlugify(
+  options: CustomHeadingSlugOptions
+): HeadingSlugify {
+  const remove = new RegExp(
+    options.remove ?? DEFAULT_CUSTOM_HEADING_SLUG_REMOVE,
+    'gu'
+  );
+  const separator = options.separator ?? '-';
+  const lowercase = options.lowercase ?? true;
+  return (text) =>
+    (lowercase ? text.toLowerCase() : text)
+      .replace(remove, '')
+      .trim()
+      .replace(/\s+/g, separator);
+}
+
+// Reads `preview.headingSlugs` and `preview.customHeadingSlug`. Unknown styles and custom settings
+// that do not parse fall back to GitHub ids.
+export function readHeadingSlugs(
+  style: unknown,
+  custom: unknown
+): HeadingSlugs {
+  if (style === 'gitlab' || style === 'vscode') return style;
+  if (style !== 'custom') return DEFAULT_HEADING_SLUG_STYLE;
+  const options = (
+    custom && typeof custom === 'object' ? custom : {}
+  ) as Record<string, unknown>;
+  try {
+    return createCustomHeadingSlugify({
+      remove: typeof options.remove === 'string' ? options.remove : undefined,
+      separator:
+        typeof options.separator === 'string' ? options.separator : undefined,
+      lowercase:
+        typeof options.lowercase === 'boolean' ? options.lowercase : undefined
+    });
+  } catch {
+    return DEFAULT_HEADING_SLUG_STYLE;
+  }
+}
+
+export function getHeadingSlugify(
+  slugs: HeadingSlugs = DEFAULT_HEADING_SLUG_STYLE
+): HeadingSlugify {
+  return typeof slugs === 'function' ? slugs : HEADING_SLUGIFIERS[slugs];
+}
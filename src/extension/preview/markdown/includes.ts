@@ -0,0 +1,283 @@
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+
+import { parseFrontmatter } from './frontmatter';
+import { MARKDOWN_FILE_PATTERN, resolveLinkTarget } from './linkResolver';
+
+// `!include part.md` or the Quarto-style `{{< include part.md >}}`, each on a line of its own.
+const INCLUDE_DIRECTIVE_PATTERN =
+  /^ {0,3}(?:!include[ \t]+(.+?)|\{\{<[ \t]*include[ \t]+(.+?)[ \t]*>\}\})[ \t]*$/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+export const MAX_INCLUDE_DEPTH = 8;
+// Bounds the expanded document: repeating a fragment at every level grows it exponentially, and
+// expansion runs on each render.
+export const MAX_INCLUDED_LINES = 20000;
+
+// Text of every file reachable through include directives, keyed by URI string. `undefined` marks
+// a file that could not be read, so it still counts as a dependency of the rendered document.
+export type MarkdownIncludeFiles = ReadonlyMap<string, string | undefined>;
+
+export interface SourceLineOrigin {
+  // Included file relative to the rendered document's folder; unset for the document's own lines.
+  file?: string;
+  // Line in `file` (or in the rendered document), counting stripped frontmatter.
+  line: number;
+  // Line of the rendered document; included lines map to their top-level include directive.
+  rootLine: number;
+}
+
+export interface ExpandedMarkdown {
+  content: string;
+  // One entry per line of `content`.
+  origins: SourceLineOrigin[];
+}
+
+interface IncludeDirective {
+  line: number;
+  target: string;
+}
+
+export function findIncludeDirectives(content: string): IncludeDirective[] {
+  const directives: IncludeDirective[] = [];
+  let fence: string | undefined;
+  content.split('\n').forEach((line, index) => {
+    const marker = FENCE_PATTERN.exec(line)?.[1];
+    if (fence) {
+      if (
+        marker &&
+        marker[0] === fence[0] &&
+        marker.length >= fence.length &&
+        !line.trim().slice(marker.length)
+      ) {
+        fence = undefined;
+      }
+      return;
+    }
+    if (marker) {
+      fence = marker;
+      return;
+    }
+    const match = INCLUDE_DIRECTIVE_PATTERN.exec(line.replace(/\r$/, ''));
+    const target = unquote(match?.[1] ?? match?.[2] ?? '');
+    if (target) directives.push({ line: index, target });
+  });
+  return directives;
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  const match = /^(?:"(.*)"|'(.*)'|<(.*)>)$/.exec(trimmed);
+  return (match ? (match[1] ?? match[2] ?? match[3] ?? '') : trimmed).trim();
+}
+
+// Includes resolve like relative links and must stay inside the workspace folder.
+export function resolveIncludeTarget(
+  source: vscode.Uri,
+  target: string
+): { uri: vscode.Uri } | { error: string } {
+  const resolved = resolveLinkTarget(source, target);
+  if (resolved.kind === 'outside-workspace') {
+    return { error: 'outside the workspace folder' };
+  }
+  if (resolved.kind !== 'workspace' || !resolved.uri) {
+    return { error: 'not a workspace file' };
+  }
+  if (!MARKDOWN_FILE_PATTERN.test(resolved.uri.path)) {
+    return { error: 'not a Markdown file' };
+  }
+  return { uri: resolved.uri };
+}
+
+// Open editors win over the file on disk so unsaved edits show up in the preview.
+export async function readWorkspaceText(uri: vscode.Uri): Promise<string> {
+  const open = vscode.workspace.textDocuments.find(
+    (document) => document.uri.toString() === uri.toString()
+  );
+  return (
+    open?.getText() ??
+    Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8')
+  );
+}
+
+// Reads every file the document includes, directly or transitively, up to MAX_INCLUDE_DEPTH.
+// Rendering stays synchronous: renderMarkdown splices these texts in with expandMarkdownIncludes.
+export async function loadMarkdownIncludes(
+  input: string,
+  sourceUri: vscode.Uri,
+  read: (uri: vscode.Uri) => Promise<string> = readWorkspaceText
+): Promise<MarkdownIncludeFiles> {
+  const files = new Map<string, string | undefined>();
+  // A file reached again at a shallower depth is revisited so its own includes are not cut off.
+  const depths = new Map<string, number>();
+
+  const visit = async (
+    content: string,
+    uri: vscode.Uri,
+    depth: number
+  ): Promise<void> => {
+    if (depth >= MAX_INCLUDE_DEPTH) return;
+    for (const directive of findIncludeDirectives(content)) {
+      const resolved = resolveIncludeTarget(uri, directive.target);
+      if (!('uri' in resolved)) continue;
+      const key = resolved.uri.toString();
+      if ((depths.get(key) ?? Infinity) <= depth + 1) continue;
+      depths.set(key, depth + 1);
+      if (!files.has(key)) {
+        files.set(key, await read(resolved.uri).catch(() => undefined));
+      }
+      const text = files.get(key);
+      if (text !== undefined) {
+        await visit(parseFrontmatter(text).content, resolved.uri, depth + 1);
+      }
+    }
+  };
+
+  await visit(parseFrontmatter(input).content, sourceUri, 0);
+  return files;
+}
+
+// Replaces include directives in the frontmatter-stripped `content` with the included files.
+// Failed includes (missing, outside the workspace, circular, too deep, over MAX_INCLUDED_LINES)
+// become a caution alert.
+// Returns `undefined` when the document has no include directives.
+export function expandMarkdownIncludes(
+  content: string,
+  options: {
+    sourceUri: vscode.Uri;
+    files: MarkdownIncludeFiles;
+    lineOffset: number;
+  }
+): ExpandedMarkdown | undefined {
+  if (findIncludeDirectives(content).length === 0) return undefined;
+
+  const lines: string[] = [];
+  const origins: SourceLineOrigin[] = [];
+  const sourceFolder = path.posix.dirname(options.sourceUri.path);
+
+  const expand = (
+    text: string,
+    uri: vscode.Uri,
+    file: string | undefined,
+    lineOffset: number,
+    chain: vscode.Uri[],
+    rootLine: number | undefined
+  ): void => {
+    const directives = new Map(
+      findIncludeDirectives(text).map((directive) => [
+        directive.line,
+        directive
+      ])
+    );
+    text.split('\n').forEach((line, index) => {
+      const origin: SourceLineOrigin = {
+        file,
+        line: index + lineOffset,
+        rootLine: rootLine ?? index + lineOffset
+      };
+      const directive = directives.get(index);
+      if (!directive) {
+        lines.push(line);
+        origins.push(origin);
+        return;
+      }
+
+      // Blank lines keep included blocks from merging with the surrounding paragraphs.
+      const push = (value: string) => {
+        lines.push(value);
+        origins.push(origin);
+      };
+      let included = resolveIncludedFile(
+        uri,
+        directive.target,
+        chain,
+        options.files
+      );
+      if (
+        'text' in included &&
+        lines.length + included.text.split('\n').length > MAX_INCLUDED_LINES
+      ) {
+        included = {
+          error: `expanded document would exceed ${MAX_INCLUDED_LINES} lines`
+        };
+      }
+      push('');
+      if ('error' in included) {
+        push('> [!CAUTION]');
+        push(
+          `> Include failed: ${toCodeSpan(directive.target)} (${included.error})`
+        );
+      } else {
+        const parsed = parseFrontmatter(included.text);
+        expand(
+          parsed.content,
+          included.uri,
+          path.posix.relative(sourceFolder, included.uri.path),
+          parsed.lineOffset,
+          [...chain, included.uri],
+          origin.rootLine
+        );
+      }
+      push('');
+    });
+  };
+
+  expand(
+    content,
+    options.sourceUri,
+    undefined,
+    options.lineOffset,
+    [options.sourceUri],
+    undefined
+  );
+  return { content: lines.join('\n'), origins };
+}
+
+function resolveIncludedFile(
+  source: vscode.Uri,
+  target: string,
+  chain: vscode.Uri[],
+  files: MarkdownIncludeFiles
+): { uri: vscode.Uri; text: string } | { error: string } {
+  const resolved = resolveIncludeTarget(source, target);
+  if (!('uri' in resolved)) return resolved;
+  const key = resolved.uri.toString();
+  if (chain.some((uri) => uri.toString() === key)) {
+    const names = [...chain, resolved.uri].map((uri) =>
+      toCodeSpan(path.posix.basename(uri.path))
+    );
+    return { error: `circular include: ${names.join(' → ')}` };
+  }
+  if (chain.length > MAX_INCLUDE_DEPTH) {
+    return { error: `more than ${MAX_INCLUDE_DEPTH} levels of includes` };
+  }
+  const text = files.get(key);
+  return text === undefined
+    ? { error: 'file not found' }
+    : { uri: resolved.uri, text };
+}
+
+function toCodeSpan(value: string): string {
+  const longestRun = Math.max(
+    0,
+    ...(value.match(/`+/g) ?? []).map((run) => run.length)
+  );
+  const fence = '`'.repeat(longestRun + 1);
+  return `${fence} ${value} ${fence}`;
+}
+
+// Relative link and image targets in an included file are written against that file's folder;
+// the rendered document resolves them against its own, so they are rewritten to match.
+export function rebaseIncludedHref(href: string, file: string): string {
+  const folder = path.posix.dirname(file);
+  if (
+    folder === '.' ||
+    !href ||
+    href.startsWith('#') ||
+    href.startsWith('/') ||
+    /^[a-z][a-z0-9+.-]*:/i.test(href)
+  ) {
+    return href;
+  }
+  return path.posix.join(encodeURI(folder), href);
+}
@@ -0,0 +1,80 @@
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+
+import { parseFrontmatter } from './frontmatter';
+import type { HeadingSlugs } from './headingSlugs';
+import type { MarkdownIncludeFiles } from './includes';
+import { collectMarkdownHeadings } from './markdownPipeline';
+
+// Long sections are cut at the last blank line within this many lines so hover popovers stay small.
+export const LINK_PREVIEW_MAX_LINES = 40;
+
+export interface LinkPreviewSource {
+  markdown: string;
+  // The included file the section was taken from; its relative links resolve against it.
+  includedUri?: vscode.Uri;
+}
+
+// Markdown shown when hovering a link: the section under the `fragment` heading (up to the next
+// heading of the same or a higher level), or the start of the document without its frontmatter.
+// Headings from included files are cut from that file, up to its next such heading or its end.
+// Returns `undefined` when the heading does not exist or there is nothing to show.
+export function extractLinkPreviewSource(
+  text: string,
+  fragment: string | undefined,
+  includes?: { sourceUri: vscode.Uri; files: MarkdownIncludeFiles },
+  headingSlugs?: HeadingSlugs
+): LinkPreviewSource | undefined {
+  let lines = text.split(/\r?\n/);
+  let includedUri: vscode.Uri | undefined;
+  let start: number;
+  let end: number;
+  if (fragment) {
+    const headings = collectMarkdownHeadings(text, includes, headingSlugs);
+    const index = headings.findIndex((heading) => heading.id === fragment);
+    const heading = headings[index];
+    if (!heading) return undefined;
+    const { file, fileLine } = heading;
+    if (file !== undefined && fileLine !== undefined && includes) {
+      const source = includes.sourceUri;
+      includedUri = vscode.Uri.joinPath(
+        source.with({ path: path.posix.dirname(source.path) }),
+        file
+      );
+      const includedText = includes.files.get(includedUri.toString());
+      if (includedText === undefined) return undefined;
+      lines = includedText.split(/\r?\n/);
+      const next = headings
+        .slice(index + 1)
+        .find(
+          (item) =>
+            item.level <= heading.level &&
+            item.file === file &&
+            item.fileLine !== undefined &&
+            item.fileLine > fileLine
+        );
+      start = fileLine;
+      end = next?.fileLine ?? lines.length;
+    } else {
+      const next = headings
+        .slice(index + 1)
+        .find(
+          (item) => item.level <= heading.level && item.line > heading.line
+        );
+      start = heading.line;
+      end = next?.line ?? lines.length;
+    }
+  } else {
+    start = parseFrontmatter(text).lineOffset;
+    end = lines.length;
+  }
+
+  let section = lines.slice(start, end);
+  if (section.length > LINK_PREVIEW_MAX_LINES) {
+    section = section.slice(0, LINK_PREVIEW_MAX_LINES);
+    const lastBlank = section.map((line) => line.trim()).lastIndexOf('');
+    if (lastBlank > 0) section = section.slice(0, lastBlank);
+  }
+  const markdown = section.join('\n').trim();
+  return markdown ? { markdown, includedUri } : undefined;
+}
@@ -9,6 +9,21 @@ export interface ResolvedLink {
   fragment?: string;
 }
 
+export const MARKDOWN_FILE_PATTERN = /\.(?:md|markdown)$/i;
+
+export function isMarkdownFile(uri: vscode.Uri): boolean {
+  return MARKDOWN_FILE_PATTERN.test(uri.path);
+}
+
+// Malformed percent escapes are kept as written.
+export function decodeHref(href: string): string {
+  try {
+    return decodeURI(href);
+  } catch {
+    return href;
+  }
+}
+
 export function isHttpUrl(raw: string): boolean {
   return /^https?:\/\//i.test(raw);
 }
@@ -26,35 +26,82 @@ import {
   setHtmlAttribute
 } from '../htmlImageTags';
 import { parseFrontmatter } from './frontmatter';
+import { getHeadingSlugify } from './headingSlugs';
+import type { HeadingSlugify, HeadingSlugs } from './headingSlugs';
+import { expandMarkdownIncludes, rebaseIncludedHref } from './includes';
+import type { MarkdownIncludeFiles, SourceLineOrigin } from './includes';
 import { resolveImageUri } from './linkResolver';
+import { installWikiLinks } from './wikiLinks';
+import type { WikiLinkResolver, WikiLinkTokenMeta } from './wikiLinks';
 
 interface RenderEnvironment {
   toc: TocItem[];
+  links: MarkdownLinkReference[];
+  // Lines removed by frontmatter parsing; token maps are relative to the stripped content.
+  lineOffset: number;
+  // Set when include directives were expanded; token maps then index these instead.
+  origins?: SourceLineOrigin[];
+  // Set by collectMarkdownHeadings to also record where included headings come from.
+  headings?: MarkdownHeading[];
+  // Set by collectHtmlAnchorIds.
+  anchors?: string[];
+}
+
+// A heading with the id the preview assigns. `line` of a heading from an included file is its
+// top-level include directive; `file` and `fileLine` locate it in the included file.
+export interface MarkdownHeading extends TocItem {
+  file?: string;
+  fileLine?: number;
+}
+
+interface SourceLocation {
+  line: number;
+  endLine?: number;
+  // Included file the block comes from, relative to the rendered document's folder.
+  file?: string;
+  rootLine: number;
 }
 
 export interface MarkdownRenderOptions {
   sourceUri: vscode.Uri;
-  webview: vscode.Webview;
+  // Only resource URIs are needed; folder export passes an identity mapping.
+  webview: Pick<vscode.Webview, 'asWebviewUri'>;
   allowHtml: boolean;
   allowRemoteImages: boolean;
   remoteImageOverrides?: ReadonlyMap<string, vscode.Uri>;
   maxImageMB: number;
+  // Files loaded by loadMarkdownIncludes; without them include directives render as plain text.
+  includes?: MarkdownIncludeFiles;
+  // Workspace index lookup for `[[wiki links]]`; without it every wiki link renders as unresolved.
+  resolveWikiLink?: WikiLinkResolver;
+  // Heading id style, or a custom slug function; GitHub-compatible ids by default.
+  headingSlugs?: HeadingSlugs;
+}
+
+// A Markdown link or image destination and the source lines of the block containing it.
+export interface MarkdownLinkReference {
+  kind: 'link' | 'image' | 'wiki';
+  href: string;
+  // The link as written when that differs from `href` (`[[Page#Heading]]` for wiki links).
+  raw?: string;
+  line: number;
+  endLine: number;
 }
 
 export interface MarkdownRenderResult {
   html: string;
   toc: TocItem[];
+  links: MarkdownLinkReference[];
   frontmatter?: FrontmatterInfo;
   lineCount: number;
 }
 
-function slugify(value: string): string {
-  return value
-    .trim()
-    .toLowerCase()
-    .replace(/[^a-z0-9\s-]/g, '')
-    .replace(/\s+/g, '-')
-    .replace(/-+/g, '-');
+// The text markdown-it-anchor slugs: inline markup is dropped, code spans are kept.
+function getHeadingText(inline: MarkdownIt.Token): string {
+  return (inline.children ?? [])
+    .filter((child) => child.type === 'text' || child.type === 'code_inline')
+    .map((child) => child.content)
+    .join('');
 }
 
 function applySourceLineAttributes(md: MarkdownIt): void {
@@ -68,24 +115,85 @@ function applySourceLineAttributes(md: MarkdownIt): void {
   md.core.ruler.push('omv_source_lines', (state) => {
     for (const token of state.tokens) {
       if (!token.map || token.map.length < 2) continue;
-      if (!sourceLineTokenTypes.has(token.type)) continue;
-      const [start, endExclusive] = token.map;
-      if (!Number.isFinite(start)) continue;
-      token.attrSet('data-source-line', String(start));
-      if (Number.isFinite(endExclusive) && endExclusive > start) {
-        token.attrSet('data-source-line-end', String(endExclusive));
+      if (!sourceLineTokenTypes.has(token.type) && !isTaskListItem(token) && !isAlertContainer(token)) {
+        continue;
+      }
+      const location = getSourceLocation(state.env, token.map);
+      if (!location) continue;
+      token.attrSet('data-source-line', String(location.line));
+      if (location.endLine !== undefined) {
+        token.attrSet('data-source-line-end', String(location.endLine));
+      }
+      if (location.file) {
+        token.attrSet('data-source-file', location.file);
       }
     }
   });
 }
 
-function sourceLineAttrString(token: MarkdownIt.Token): string {
-  const start = token.map?.[0];
-  const endExclusive = token.map?.[1];
-  if (!Number.isFinite(start)) return '';
-  const attrs = [`data-source-line="${String(start)}"`];
-  if (Number.isFinite(endExclusive) && Number(endExclusive) > Number(start)) {
-    attrs.push(`data-source-line-end="${String(endExclusive)}"`);
+// Task items carry their source line so preview checkbox clicks can be written back to the document.
+function isTaskListItem(token: MarkdownIt.Token): boolean {
+  if (token.type !== 'list_item_open') return false;
+  return (token.attrGet('class') ?? '').split(/\s+/).includes('task-list-item');
+}
+
+function isAlertContainer(token: MarkdownIt.Token): boolean {
+  if (token.type !== 'blockquote_open') return false;
+  return (token.attrGet('class') ?? '').split(/\s+/).includes('markdown-alert');
+}
+
+function getLineOffset(env: unknown): number {
+  const lineOffset = (env as Partial<RenderEnvironment> | undefined)?.lineOffset;
+  return typeof lineOffset === 'number' && Number.isFinite(lineOffset) ? lineOffset : 0;
+}
+
+// Blocks from included files report lines of that file plus `file`; scroll sync skips them and
+// double-click opens the included file instead.
+function getSourceLocation(
+  env: unknown,
+  map: [number, number] | null | undefined
+): SourceLocation | undefined {
+  const start = map?.[0];
+  const endExclusive = map?.[1];
+  if (start === undefined || !Number.isFinite(start)) return undefined;
+  const hasEnd = endExclusive !== undefined && Number.isFinite(endExclusive) && endExclusive > start;
+  const origins = (env as Partial<RenderEnvironment> | undefined)?.origins;
+  if (!origins) {
+    const lineOffset = getLineOffset(env);
+    return {
+      line: start + lineOffset,
+      endLine: hasEnd ? endExclusive + lineOffset : undefined,
+      rootLine: start + lineOffset
+    };
+  }
+  const first = origins[start];
+  if (!first) return undefined;
+  // Blocks can end on the blank lines that separate an include from the including file.
+  let last: SourceLineOrigin | undefined;
+  for (let i = hasEnd ? endExclusive - 1 : start; i > start && !last; i -= 1) {
+    if (origins[i]?.file === first.file) last = origins[i];
+  }
+  return {
+    line: first.line,
+    endLine: last ? last.line + 1 : hasEnd ? first.line + 1 : undefined,
+    file: first.file,
+    rootLine: first.rootLine
+  };
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function sourceLineAttrString(token: MarkdownIt.Token, env: unknown): string {
+  const location = getSourceLocation(env, token.map);
+  if (!location) return '';
+  const attrs = [`data-source-line="${String(location.line)}"`];
+  if (location.endLine !== undefined) {
+    attrs.push(`data-source-line-end="${String(location.endLine)}"`);
+  }
+  if (location.file) {
+    attrs.push(`data-source-file="${escapeAttribute(location.file)}"`);
   }
   return ` ${attrs.join(' ')}`;
 }
@@ -542,17 +650,73 @@ function installMathRules(md: MarkdownIt): void {
     return renderMathPlaceholder(token.content, 'omv-math-inline');
   };
 
-  md.renderer.rules.math_block = (tokens, idx) => {
+  md.renderer.rules.math_block = (tokens, idx, _opts, env) => {
     const token = tokens[idx];
-    const lineAttrs = sourceLineAttrString(token);
+    const lineAttrs = sourceLineAttrString(token, env);
     return renderMathPlaceholder(token.content, 'omv-math-block', lineAttrs);
   };
 }
 
+const GITHUB_ALERT_TITLES: Record<string, string> = {
+  note: 'Note',
+  tip: 'Tip',
+  important: 'Important',
+  warning: 'Warning',
+  caution: 'Caution'
+};
+
+// Mirrors GitHub's alert markup (`markdown-alert-*` classes) so installed GitHub styles apply as well.
+// Icons are CSS masks on a plain span, which keeps the output inside DOMPurify's default allowlist.
+function installGitHubAlerts(md: MarkdownIt): void {
+  md.core.ruler.before('inline', 'omv_github_alerts', (state) => {
+    const tokens = state.tokens;
+    for (let i = 0; i < tokens.length; i += 1) {
+      const open = tokens[i];
+      if (open?.type !== 'blockquote_open') continue;
+      const paragraphOpen = tokens[i + 1];
+      const inline = tokens[i + 2];
+      if (paragraphOpen?.type !== 'paragraph_open' || inline?.type !== 'inline') continue;
+
+      const match = /^\[!(note|tip|important|warning|caution)\][ \t]*(?:\n|$)/i.exec(inline.content);
+      const kind = match?.[1]?.toLowerCase();
+      if (!match || !kind) continue;
+
+      const close = tokens.slice(i + 1).find((token) => token.type === 'blockquote_close' && token.level === open.level);
+      if (!close) continue;
+      open.tag = 'div';
+      close.tag = 'div';
+      open.attrJoin('class', `markdown-alert markdown-alert-${kind}`);
+
+      const title = new state.Token('omv_alert_title', 'p', 0);
+      title.block = true;
+      title.meta = { kind };
+
+      const rest = inline.content.slice(match[0].length);
+      if (rest.trim()) {
+        inline.content = rest;
+        if (paragraphOpen.map) {
+          paragraphOpen.map = [paragraphOpen.map[0] + 1, paragraphOpen.map[1]];
+        }
+        tokens.splice(i + 1, 0, title);
+      } else {
+        // The marker was the whole first paragraph; drop it instead of rendering an empty <p>.
+        tokens.splice(i + 1, 3, title);
+      }
+    }
+  });
+
+  md.renderer.rules.omv_alert_title = (tokens, idx) => {
+    const kind = String(tokens[idx]?.meta?.kind ?? 'note');
+    const label = GITHUB_ALERT_TITLES[kind] ?? 'Note';
+    return `<p class="markdown-alert-title"><span class="markdown-alert-icon" aria-hidden="true"></span>${label}</p>\n`;
+  };
+}
+
 // We use markdown-it for speed and predictable token maps (line mapping for scroll sync / outline).
-function createMarkdownIt(options: MarkdownRenderOptions): MarkdownIt {
+// The parser alone is enough for TOC/link collection; createMarkdownIt adds the preview renderers.
+function createMarkdownParser(allowHtml: boolean, slugify: HeadingSlugify): MarkdownIt {
   const md = new MarkdownIt({
-    html: options.allowHtml,
+    html: allowHtml,
     linkify: true,
     breaks: false,
     typographer: false
@@ -560,39 +724,117 @@ function createMarkdownIt(options: MarkdownRenderOptions): MarkdownIt {
 
   md.use(deflist);
   md.use(footnote);
-  // Preview should be read-only; task checkboxes stay non-interactive unless wired back to document edits.
+  // Checkboxes render disabled (and stay so in exports); the preview enables them and writes toggles back.
   md.use(taskLists, { enabled: false, label: true, labelAfter: true });
+  // markdown-it-anchor numbers repeated slugs (`id`, `id-1`, ...) like GitHub, GitLab and VS Code do.
   md.use(anchor, {
     slugify
   });
   installMathRules(md);
+  installGitHubAlerts(md);
   applySourceLineAttributes(md);
 
+  // Runs before the collectors so included links resolve against the rendered document's folder.
+  md.core.ruler.push('omv_include_links', (state) => {
+    const origins = (state.env as Partial<RenderEnvironment>).origins;
+    if (!origins) return;
+    for (const token of state.tokens) {
+      const file = token.map ? origins[token.map[0]]?.file : undefined;
+      if (token.type !== 'inline' || !token.children || !file) continue;
+      for (const child of token.children) {
+        const name = child.type === 'link_open' ? 'href' : child.type === 'image' ? 'src' : undefined;
+        const value = name ? child.attrGet(name) : null;
+        // Wiki link targets are already resolved against the rendered document.
+        if (!name || !value || (child.meta as Partial<WikiLinkTokenMeta> | null)?.wikiLink) continue;
+        child.attrSet(name, rebaseIncludedHref(value, file));
+      }
+    }
+  });
+
   md.core.ruler.push('collect_toc', (state) => {
     const env = state.env as RenderEnvironment;
+    const lineOffset = getLineOffset(env);
     env.toc = [];
     for (let i = 0; i < state.tokens.length; i += 1) {
       const token = state.tokens[i];
       if (token.type !== 'heading_open') continue;
       const inline = state.tokens[i + 1];
       if (!inline || inline.type !== 'inline') continue;
-      const idAttr = token.attrGet('id') ?? slugify(inline.content);
+      const idAttr = token.attrGet('id') ?? slugify(getHeadingText(inline));
       token.attrSet('id', idAttr);
       const level = Number(token.tag.slice(1));
-      env.toc.push({
+      const location = getSourceLocation(env, token.map);
+      const item: TocItem = {
         id: idAttr,
         level,
         text: inline.content,
-        line: token.map?.[0] ?? 0
-      });
+        line: location?.rootLine ?? lineOffset
+      };
+      env.toc.push(item);
+      env.headings?.push(location?.file ? { ...item, file: location.file, fileLine: location.line } : item);
+    }
+  });
+
+  md.core.ruler.push('collect_html_anchors', (state) => {
+    const anchors = (state.env as Partial<RenderEnvironment>).anchors;
+    if (!anchors) return;
+    for (const token of state.tokens) {
+      if (token.type === 'html_block') anchors.push(...getHtmlAnchorIds(token.content));
+      for (const child of token.children ?? []) {
+        if (child.type === 'html_inline') anchors.push(...getHtmlAnchorIds(child.content));
+      }
     }
   });
 
+  md.core.ruler.push('collect_links', (state) => {
+    const env = state.env as RenderEnvironment;
+    env.links = [];
+    let blockMap: [number, number] | undefined;
+    for (const token of state.tokens) {
+      if (token.map) blockMap = [token.map[0], token.map[1]];
+      if (token.type !== 'inline' || !token.children || !blockMap) continue;
+      // Links in included files belong to those files (and their diagnostics).
+      const location = getSourceLocation(env, blockMap);
+      if (!location || location.file) continue;
+      const line = location.line;
+      const endLine = location.endLine ?? line + 1;
+      for (const child of token.children) {
+        const href =
+          child.type === 'link_open'
+            ? child.attrGet('href')
+            : child.type === 'image'
+              ? child.attrGet('src')
+              : null;
+        if (!href) continue;
+        const raw = (child.meta as Partial<WikiLinkTokenMeta> | null)?.raw;
+        env.links.push({
+          kind: child.type === 'image' ? 'image' : raw ? 'wiki' : 'link',
+          href,
+          line,
+          endLine,
+          ...(raw ? { raw } : {})
+        });
+      }
+    }
+  });
+
+  return md;
+}
+
+function createMarkdownIt(options: MarkdownRenderOptions): MarkdownIt {
+  const slugify = getHeadingSlugify(options.headingSlugs);
+  const md = createMarkdownParser(options.allowHtml, slugify);
+  installWikiLinks(md, {
+    sourceUri: options.sourceUri,
+    resolve: options.resolveWikiLink,
+    slugify
+  });
+
   const fence = md.renderer.rules.fence;
   md.renderer.rules.fence = (tokens, idx, opts, env, self) => {
     const token = tokens[idx];
     const info = (token.info || '').trim().split(/\s+/)[0] ?? '';
-    const lineAttrs = sourceLineAttrString(token);
+    const lineAttrs = sourceLineAttrString(token, env);
     if (info === 'mermaid') {
       const encoded = Buffer.from(token.content, 'utf8').toString('base64');
       return `<div class="omv-mermaid"${lineAttrs} data-mermaid="${encoded}"></div>`;
@@ -608,7 +850,7 @@ function createMarkdownIt(options: MarkdownRenderOptions): MarkdownIt {
   const codeBlock = md.renderer.rules.code_block;
   md.renderer.rules.code_block = (tokens, idx, opts, env, self) => {
     const token = tokens[idx];
-    const lineAttrs = sourceLineAttrString(token);
+    const lineAttrs = sourceLineAttrString(token, env);
     const html = codeBlock ? codeBlock(tokens, idx, opts, env, self) : self.renderToken(tokens, idx, opts);
     return lineAttrs ? html.replace(/<pre\b/i, `<pre${lineAttrs}`) : html;
   };
@@ -687,14 +929,96 @@ function createMarkdownIt(options: MarkdownRenderOptions): MarkdownIt {
 export function renderMarkdown(input: string, options: MarkdownRenderOptions): MarkdownRenderResult {
   const parsed = parseFrontmatter(input);
   const md = createMarkdownIt(options);
-  const env: RenderEnvironment = { toc: [] };
-  const html = rewriteRawHtmlImages(md.render(parsed.content, env), options);
+  const expanded = options.includes
+    ? expandMarkdownIncludes(parsed.content, {
+        sourceUri: options.sourceUri,
+        files: options.includes,
+        lineOffset: parsed.lineOffset
+      })
+    : undefined;
+  const env: RenderEnvironment = {
+    toc: [],
+    links: [],
+    lineOffset: parsed.lineOffset,
+    origins: expanded?.origins
+  };
+  const html = rewriteRawHtmlImages(md.render(expanded?.content ?? parsed.content, env), options);
   const lineCount = input.split(/\r?\n/).length;
 
   return {
     html,
     toc: env.toc,
+    links: env.links,
     frontmatter: parsed.frontmatter,
     lineCount
   };
 }
+
+// Headings with the same ids the preview assigns, without rendering (used to check `file.md#fragment` links).
+export function collectMarkdownHeadings(
+  input: string,
+  includes?: { sourceUri: vscode.Uri; files: MarkdownIncludeFiles },
+  headingSlugs?: HeadingSlugs
+): MarkdownHeading[] {
+  const parsed = parseFrontmatter(input);
+  const expanded = includes
+    ? expandMarkdownIncludes(parsed.content, { ...includes, lineOffset: parsed.lineOffset })
+    : undefined;
+  const env: RenderEnvironment = {
+    toc: [],
+    links: [],
+    lineOffset: parsed.lineOffset,
+    origins: expanded?.origins,
+    headings: []
+  };
+  createMarkdownParser(true, getHeadingSlugify(headingSlugs)).parse(expanded?.content ?? parsed.content, env);
+  return env.headings ?? [];
+}
+
+// `id` attributes of raw HTML elements and `name` attributes of `<a>` elements, which links can
+// target with a fragment just like headings (`<a id="x"></a>`, `<a name="x"></a>`, `<div id="x">`).
+export function collectHtmlAnchorIds(
+  input: string,
+  includes?: { sourceUri: vscode.Uri; files: MarkdownIncludeFiles }
+): string[] {
+  const parsed = parseFrontmatter(input);
+  const expanded = includes
+    ? expandMarkdownIncludes(parsed.content, { ...includes, lineOffset: parsed.lineOffset })
+    : undefined;
+  const env: RenderEnvironment = {
+    toc: [],
+    links: [],
+    lineOffset: parsed.lineOffset,
+    origins: expanded?.origins,
+    anchors: []
+  };
+  createMarkdownParser(true, getHeadingSlugify()).parse(expanded?.content ?? parsed.content, env);
+  return env.anchors ?? [];
+}
+
+const HTML_START_TAG_PATTERN = /<([a-z][\w-]*)(\s[^>]*)?>/gi;
+const HTML_ANCHOR_ATTRIBUTE_PATTERN = /\s(id|name)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+))/gi;
+
+function getHtmlAnchorIds(html: string): string[] {
+  const ids: string[] = [];
+  for (const tag of html.matchAll(HTML_START_TAG_PATTERN)) {
+    const isLink = tag[1]?.toLowerCase() === 'a';
+    for (const attr of (tag[2] ?? '').matchAll(HTML_ANCHOR_ATTRIBUTE_PATTERN)) {
+      const value = attr[2] ?? attr[3] ?? attr[4];
+      if (value && (isLink || attr[1]?.toLowerCase() === 'id')) ids.push(value);
+    }
+  }
+  return ids;
+}
+
+// Link, image and wiki link references of a document without rendering it (used by the workspace
+// index). Wiki links are left unresolved; their `raw` text carries the target.
+export function collectMarkdownLinks(input: string, sourceUri: vscode.Uri): MarkdownLinkReference[] {
+  const parsed = parseFrontmatter(input);
+  const env: RenderEnvironment = { toc: [], links: [], lineOffset: parsed.lineOffset };
+  const slugify = getHeadingSlugify();
+  const md = createMarkdownParser(true, slugify);
+  installWikiLinks(md, { sourceUri, slugify });
+  md.parse(parsed.content, env);
+  return env.links;
+}
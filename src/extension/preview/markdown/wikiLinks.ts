@@ -0,0 +1,194 @@
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+import type MarkdownIt from 'markdown-it';
+
+import { parseFrontmatter } from './frontmatter';
+import { isWithinWorkspace, MARKDOWN_FILE_PATTERN } from './linkResolver';
+
+// `[[Page]]`, `[[Page#Heading]]`, `[[Page|label]]` or `[[#Heading]]`. Inside tables the pipe can be
+// written as `\|`.
+export interface WikiLink {
+  target: string;
+  heading?: string;
+  label?: string;
+}
+
+export interface WikiPage {
+  uri: vscode.Uri;
+  // Frontmatter `title`, else the first level-one heading.
+  title?: string;
+}
+
+// Supplied by the workspace index; `undefined` marks the link as unresolved.
+export type WikiLinkResolver = (target: string) => vscode.Uri | undefined;
+
+export interface WikiLinkTokenMeta {
+  wikiLink: WikiLink;
+  // Source text, `[[…]]` included.
+  raw: string;
+  missing: boolean;
+}
+
+export function parseWikiLink(inner: string): WikiLink | undefined {
+  if (/[[\]\n]/.test(inner)) return undefined;
+  const pipe = /\\?\|/.exec(inner);
+  const destination = pipe ? inner.slice(0, pipe.index) : inner;
+  const label = pipe ? inner.slice(pipe.index + pipe[0].length).trim() : '';
+  const hashIndex = destination.indexOf('#');
+  const target = (
+    hashIndex >= 0 ? destination.slice(0, hashIndex) : destination
+  ).trim();
+  const heading = hashIndex >= 0 ? destination.slice(hashIndex + 1).trim() : '';
+  if (!target && !heading) return undefined;
+  return {
+    target,
+    heading: heading || undefined,
+    label: label || undefined
+  };
+}
+
+export function getWikiLinkLabel(link: WikiLink): string {
+  if (link.label) return link.label;
+  if (!link.target) return link.heading ?? '';
+  return link.heading ? `${link.target} > ${link.heading}` : link.target;
+}
+
+// Targets match a page's file name without extension, a workspace-relative path when they contain
+// a slash, or else its title, all case-insensitively. Only pages in the source's workspace folder
+// count; ties go to the page closest to the source, then to the shorter path.
+export function resolveWikiPage(
+  pages: Iterable<WikiPage>,
+  target: string,
+  source: vscode.Uri
+): vscode.Uri | undefined {
+  const folder = vscode.workspace.getWorkspaceFolder(source);
+  if (!folder) return undefined;
+  const wanted = normalizeWikiTarget(target);
+  if (!wanted) return undefined;
+
+  const byName: WikiPage[] = [];
+  const byTitle: WikiPage[] = [];
+  for (const page of pages) {
+    if (!isWithinWorkspace(page.uri, folder.uri)) continue;
+    const relative = normalizeWikiTarget(
+      path.posix.relative(folder.uri.path, page.uri.path)
+    );
+    const matchesName = wanted.includes('/')
+      ? relative === wanted || relative.endsWith(`/${wanted}`)
+      : path.posix.basename(relative) === wanted;
+    if (matchesName) {
+      byName.push(page);
+    } else if (page.title?.trim().toLowerCase() === wanted) {
+      byTitle.push(page);
+    }
+  }
+
+  const sourceFolder = path.posix.dirname(source.path);
+  const distance = (page: WikiPage) =>
+    path.posix.relative(sourceFolder, page.uri.path).split('/').length;
+  const candidates = byName.length > 0 ? byName : byTitle;
+  candidates.sort(
+    (a, b) =>
+      distance(a) - distance(b) ||
+      a.uri.path.length - b.uri.path.length ||
+      a.uri.path.localeCompare(b.uri.path)
+  );
+  return candidates[0]?.uri;
+}
+
+function normalizeWikiTarget(value: string): string {
+  return value
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^(?:\.\/|\/)+/, '')
+    .replace(MARKDOWN_FILE_PATTERN, '')
+    .toLowerCase();
+}
+
+// Unresolved links point at the page "Create Page" would add next to the source document.
+export function getMissingWikiPageUri(
+  source: vscode.Uri,
+  target: string
+): vscode.Uri {
+  const fileName = MARKDOWN_FILE_PATTERN.test(target) ? target : `${target}.md`;
+  return vscode.Uri.joinPath(
+    source.with({ path: path.posix.dirname(source.path) }),
+    fileName.replace(/\\/g, '/')
+  );
+}
+
+export function getNewWikiPageContent(uri: vscode.Uri): string {
+  const name = path.posix.basename(uri.path).replace(MARKDOWN_FILE_PATTERN, '');
+  return `# ${name}\n`;
+}
+
+export function getMarkdownTitle(text: string): string | undefined {
+  const parsed = parseFrontmatter(text);
+  const title = parsed.frontmatter?.data.title;
+  if (typeof title === 'string' && title.trim()) return title.trim();
+  const heading = /^ {0,3}#[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/m.exec(
+    parsed.content
+  );
+  return heading?.[1]?.trim() || undefined;
+}
+
+export function installWikiLinks(
+  md: MarkdownIt,
+  options: {
+    sourceUri: vscode.Uri;
+    resolve?: WikiLinkResolver;
+    slugify: (value: string) => string;
+  }
+): void {
+  md.inline.ruler.before('link', 'omv_wiki_link', (state, silent) => {
+    const { src, pos, posMax } = state;
+    if (src.charCodeAt(pos) !== 0x5b || src.charCodeAt(pos + 1) !== 0x5b) {
+      return false;
+    }
+    const close = src.indexOf(']]', pos + 2);
+    if (close < 0 || close + 2 > posMax) return false;
+    const link = parseWikiLink(src.slice(pos + 2, close));
+    if (!link) return false;
+
+    if (!silent) {
+      const resolved = link.target
+        ? options.resolve?.(link.target)
+        : options.sourceUri;
+      const target =
+        resolved ?? getMissingWikiPageUri(options.sourceUri, link.target);
+      const fragment = link.heading
+        ? `#${encodeURIComponent(options.slugify(link.heading))}`
+        : '';
+      const href =
+        target.toString() === options.sourceUri.toString()
+          ? fragment || '#'
+          : `${encodeURI(
+              path.posix.relative(
+                path.posix.dirname(options.sourceUri.path),
+                target.path
+              )
+            )}${fragment}`;
+
+      const open = state.push('link_open', 'a', 1);
+      open.attrSet('href', href);
+      open.attrSet(
+        'class',
+        resolved ? 'omv-wiki-link' : 'omv-wiki-link omv-wiki-link-missing'
+      );
+      if (!resolved) {
+        open.attrSet('title', `No page named "${link.target}"`);
+      }
+      const meta: WikiLinkTokenMeta = {
+        wikiLink: link,
+        raw: src.slice(pos, close + 2),
+        missing: !resolved
+      };
+      open.meta = meta;
+      const text = state.push('text', '', 0);
+      text.content = getWikiLinkLabel(link);
+      state.push('link_close', 'a', -1);
+    }
+    state.pos = close + 2;
+    return true;
+  });
+}
@@ -0,0 +1,222 @@
+import { spawn } from 'node:child_process';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Readable, Writable } from 'node:stream';
+
+import { findNamedDestinationPages } from './pdfDestinations';
+import {
+  PDF_CONTENTS_PAGE_ATTR,
+  buildPdfHeaderFooterTemplate
+} from './pdfOptions';
+import type { PdfPageOptions } from './pdfOptions';
+
+interface DevToolsMessage {
+  id?: number;
+  method?: string;
+  sessionId?: string;
+  result?: Record<string, unknown>;
+  error?: { message?: string };
+}
+
+const PRINT_TIMEOUT_MS = 60_000;
+
+// Prints `htmlUrl` with a headless Chromium-based browser driven over the DevTools protocol
+// (`--remote-debugging-pipe`, so no port is opened), which unlike the `--print-to-pdf` flag
+// supports paper size, margins, backgrounds and header/footer templates.
+export async function printPdfWithDevTools(
+  executable: string,
+  htmlUrl: string,
+  options: PdfPageOptions,
+  title: string
+): Promise<Buffer> {
+  const profileDir = await fs.mkdtemp(path.join(os.tmpdir(), 'omv-chrome-'));
+  const child = spawn(
+    executable,
+    [
+      '--headless=new',
+      '--disable-gpu',
+      '--no-first-run',
+      '--no-default-browser-check',
+      '--allow-file-access-from-files',
+      '--remote-debugging-pipe',
+      `--user-data-dir=${profileDir}`,
+      'about:blank'
+    ],
+    { stdio: ['ignore', 'ignore', 'ignore', 'pipe', 'pipe'] }
+  );
+  const input = child.stdio[3] as Writable;
+  const output = child.stdio[4] as Readable;
+
+  let nextId = 1;
+  const pending = new Map<
+    number,
+    { resolve: (message: DevToolsMessage) => void; reject: (e: Error) => void }
+  >();
+  const eventWaiters: Array<{
+    method: string;
+    sessionId: string;
+    resolve: () => void;
+    reject: (e: Error) => void;
+  }> = [];
+  let failure: Error | undefined;
+  const fail = (error: Error) => {
+    failure ??= error;
+    for (const waiter of [...pending.values(), ...eventWaiters]) {
+      waiter.reject(failure);
+    }
+    pending.clear();
+    eventWaiters.length = 0;
+  };
+
+  let buffered = '';
+  output.setEncoding('utf8');
+  output.on('data', (chunk: string) => {
+    buffered += chunk;
+    let end = buffered.indexOf('\0');
+    while (end >= 0) {
+      let message: DevToolsMessage;
+      try {
+        message = JSON.parse(buffered.slice(0, end)) as DevToolsMessage;
+      } catch {
+        fail(new Error('Browser sent an invalid DevTools message'));
+        return;
+      }
+      buffered = buffered.slice(end + 1);
+      end = buffered.indexOf('\0');
+      if (message.id !== undefined) {
+        const request = pending.get(message.id);
+        pending.delete(message.id);
+        if (message.error) {
+          request?.reject(
+            new Error(message.error.message ?? 'DevTools request failed')
+          );
+        } else {
+          request?.resolve(message);
+        }
+        continue;
+      }
+      const waiter = eventWaiters.findIndex(
+        (candidate) =>
+          candidate.method === message.method &&
+          candidate.sessionId === message.sessionId
+      );
+      if (waiter >= 0) eventWaiters.splice(waiter, 1)[0]?.resolve();
+    }
+  });
+  child.on('error', fail);
+  child.on('exit', () => fail(new Error('Browser exited unexpectedly')));
+  input.on('error', fail);
+
+  const send = (
+    method: string,
+    params: Record<string, unknown> = {},
+    sessionId?: string
+  ): Promise<Record<string, unknown>> =>
+    new Promise((resolve, reject) => {
+      if (failure) {
+        reject(failure);
+        return;
+      }
+      const id = nextId++;
+      pending.set(id, {
+        resolve: (message) => resolve(message.result ?? {}),
+        reject
+      });
+      input.write(`${JSON.stringify({ id, method, params, sessionId })}\0`);
+    });
+
+  const timer = setTimeout(
+    () => fail(new Error('Timed out waiting for the browser to print')),
+    PRINT_TIMEOUT_MS
+  );
+  try {
+    const { targetId } = await send('Target.createTarget', {
+      url: 'about:blank'
+    });
+    const { sessionId } = await send('Target.attachToTarget', {
+      targetId,
+      flatten: true
+    });
+    const session = String(sessionId);
+    await send('Page.enable', {}, session);
+    const loaded = new Promise<void>((resolve, reject) => {
+      eventWaiters.push({
+        method: 'Page.loadEventFired',
+        sessionId: session,
+        resolve,
+        reject
+      });
+    });
+    // Settled below; a failed navigation must not leave this rejection unhandled.
+    loaded.catch(() => undefined);
+    const { errorText } = await send(
+      'Page.navigate',
+      { url: htmlUrl },
+      session
+    );
+    if (typeof errorText === 'string' && errorText) {
+      throw new Error(`Could not load the printable HTML (${errorText})`);
+    }
+    await loaded;
+
+    const { margin } = options;
+    const displayHeaderFooter = Boolean(
+      options.headerTemplate || options.footerTemplate
+    );
+    const print = async (): Promise<Buffer> => {
+      const { data } = await send(
+        'Page.printToPDF',
+        {
+          paperWidth: options.width,
+          paperHeight: options.height,
+          marginTop: margin.top,
+          marginRight: margin.right,
+          marginBottom: margin.bottom,
+          marginLeft: margin.left,
+          printBackground: options.printBackground,
+          displayHeaderFooter,
+          headerTemplate: buildPdfHeaderFooterTemplate(
+            options.headerTemplate,
+            title
+          ),
+          footerTemplate: buildPdfHeaderFooterTemplate(
+            options.footerTemplate,
+            title
+          ),
+          generateDocumentOutline: options.outline
+        },
+        session
+      );
+      if (typeof data !== 'string') {
+        throw new Error('Browser returned no PDF data');
+      }
+      return Buffer.from(data, 'base64');
+    };
+
+    let pdf = await print();
+    if (options.contentsPage) {
+      // Page numbers are only known after layout: print once, read where each heading landed,
+      // fill the fixed-width number slots (which cannot change pagination) and print again.
+      const pages = Object.fromEntries(findNamedDestinationPages(pdf));
+      if (Object.keys(pages).length > 0) {
+        await send(
+          'Runtime.evaluate',
+          {
+            expression: `(() => { const pages = ${JSON.stringify(pages)}; for (const slot of document.querySelectorAll('[${PDF_CONTENTS_PAGE_ATTR}]')) { slot.textContent = String(pages[slot.getAttribute('${PDF_CONTENTS_PAGE_ATTR}')] ?? ''); } })()`
+          },
+          session
+        );
+        pdf = await print();
+      }
+    }
+    await send('Browser.close').catch(() => undefined);
+    return pdf;
+  } finally {
+    clearTimeout(timer);
+    if (child.exitCode === null) child.kill();
+    await fs
+      .rm(profileDir, { recursive: true, force: true })
+      .catch(() => undefined);
+  }
+}
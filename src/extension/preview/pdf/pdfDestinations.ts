@@ -0,0 +1,98 @@
+// Reads the named destinations Chromium writes for link targets (heading ids) and maps each to its
+// 1-based page number. Chromium (Skia) PDFs keep every object except content streams as plain text,
+// so a small object scan is enough; anything unexpected yields an empty map.
+export function findNamedDestinationPages(pdf: Buffer): Map<string, number> {
+  const source = pdf.toString('latin1');
+  const objects = new Map<number, string>();
+  for (const match of source.matchAll(
+    /(?:^|[\r\n])(\d+) 0 obj\b([\s\S]*?)\bendobj/g
+  )) {
+    const body = match[2] ?? '';
+    if (!/\bstream[\r\n]/.test(body)) {
+      objects.set(Number(match[1]), body);
+    }
+  }
+
+  const catalog = [...objects.values()].find((body) =>
+    /\/Type\s*\/Catalog\b/.test(body)
+  );
+  const rootPages = catalog ? getReference(catalog, 'Pages') : undefined;
+  if (rootPages === undefined) return new Map();
+
+  const pageNumbers = new Map<number, number>();
+  const visit = (objectNumber: number, depth: number) => {
+    const body = objects.get(objectNumber);
+    if (!body || depth > 32) return;
+    if (/\/Type\s*\/Page\b/.test(body)) {
+      pageNumbers.set(objectNumber, pageNumbers.size + 1);
+      return;
+    }
+    const kids = /\/Kids\s*\[([^\]]*)\]/.exec(body)?.[1] ?? '';
+    for (const kid of kids.matchAll(/(\d+)\s+0\s+R/g)) {
+      visit(Number(kid[1]), depth + 1);
+    }
+  };
+  visit(rootPages, 0);
+
+  const destinations = new Map<string, number>();
+  const record = (name: string, pageObject: string | undefined) => {
+    const page = pageNumbers.get(Number(pageObject));
+    if (page !== undefined && !destinations.has(name)) {
+      destinations.set(name, page);
+    }
+  };
+
+  // Older builds use a `/Dests` dictionary keyed by names, newer ones a `/Names` tree keyed by strings.
+  const destsRef = catalog ? getReference(catalog, 'Dests') : undefined;
+  const dests = destsRef !== undefined ? objects.get(destsRef) : undefined;
+  for (const match of dests?.matchAll(
+    /\/([^\s/[\]<>()]+)\s*\[\s*(\d+)\s+0\s+R/g
+  ) ?? []) {
+    record(decodePdfName(match[1] ?? ''), match[2]);
+  }
+  for (const body of objects.values()) {
+    if (!/\/Names\s*\[/.test(body)) continue;
+    for (const match of body.matchAll(
+      /\(((?:\\.|[^\\)])*)\)\s*\[\s*(\d+)\s+0\s+R/g
+    )) {
+      record(decodePdfString(match[1] ?? ''), match[2]);
+    }
+  }
+  return destinations;
+}
+
+function getReference(body: string, key: string): number | undefined {
+  const match = new RegExp(`/${key}\\s+(\\d+)\\s+0\\s+R`).exec(body);
+  return match ? Number(match[1]) : undefined;
+}
+
+function decodePdfName(value: string): string {
+  return decodeUtf8(
+    value.replace(/#([0-9a-f]{2})/gi, (_match, hex: string) =>
+      String.fromCharCode(parseInt(hex, 16))
+    )
+  );
+}
+
+function decodePdfString(value: string): string {
+  return decodeUtf8(
+    value.replace(/\\([0-7]{1,3}|.)/g, (_match, escaped: string) => {
+      if (/^[0-7]+$/.test(escaped)) {
+        return String.fromCharCode(parseInt(escaped, 8));
+      }
+      const controls: Record<string, string> = {
+        n: '\n',
+        r: '\r',
+        t: '\t',
+        b: '\b',
+        f: '\f'
+      };
+      return controls[escaped] ?? escaped;
+    })
+  );
+}
+
+// PDF names and strings are bytes; heading ids are UTF-8.
+function decodeUtf8(latin1: string): string {
+  return Buffer.from(latin1, 'latin1').toString('utf8');
+}
@@ -0,0 +1,225 @@
+import type { TocItem } from '../../messaging/protocol';
+
+// PDF page setup as configured (settings or the per-export quick pick), before validation.
+export interface PdfExportSettings {
+  // A preset name (`A4`, `Letter`, …) or `WIDTH x HEIGHT` with units, e.g. `180mm x 240mm`.
+  pageSize: string;
+  orientation: 'portrait' | 'landscape';
+  // CSS margin shorthand with one to four lengths, e.g. `15mm` or `20mm 15mm`.
+  margin: string;
+  printBackground: boolean;
+  // Plain text with `{title}`, `{date}`, `{page}` and `{pages}` placeholders; empty hides it.
+  headerTemplate: string;
+  footerTemplate: string;
+  // PDF bookmarks built from the heading levels.
+  outline: boolean;
+  // A leading "Contents" page linking every heading with its page number.
+  contentsPage: boolean;
+}
+
+interface PdfMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// Resolved page setup; all lengths are inches, the unit the DevTools protocol expects.
+export interface PdfPageOptions {
+  width: number;
+  height: number;
+  margin: PdfMargins;
+  printBackground: boolean;
+  headerTemplate: string;
+  footerTemplate: string;
+  outline: boolean;
+  contentsPage: boolean;
+}
+
+export const PDF_CONTENTS_PAGE_ATTR = 'data-omv-contents-page';
+
+export const PDF_PAGE_SIZE_PRESETS = [
+  'A3',
+  'A4',
+  'A5',
+  'Letter',
+  'Legal',
+  'Tabloid'
+] as const;
+
+const MM_PER_INCH = 25.4;
+const PRESET_SIZES_MM: Record<string, [number, number]> = {
+  a3: [297, 420],
+  a4: [210, 297],
+  a5: [148, 210],
+  letter: [215.9, 279.4],
+  legal: [215.9, 355.6],
+  tabloid: [279.4, 431.8]
+};
+const UNITS_PER_INCH: Record<string, number> = {
+  mm: MM_PER_INCH,
+  cm: MM_PER_INCH / 10,
+  in: 1,
+  pt: 72,
+  px: 96
+};
+const TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+  date: '<span class="date"></span>',
+  page: '<span class="pageNumber"></span>',
+  pages: '<span class="totalPages"></span>'
+};
+
+export function resolvePdfPageOptions(
+  settings: PdfExportSettings
+): PdfPageOptions {
+  const size = parsePdfPageSize(settings.pageSize);
+  if (!size) {
+    throw new Error(
+      `Unsupported PDF page size "${settings.pageSize}". Use ${PDF_PAGE_SIZE_PRESETS.join(', ')} or WIDTH x HEIGHT (e.g. 180mm x 240mm).`
+    );
+  }
+  const margin = parsePdfMargins(settings.margin);
+  if (!margin) {
+    throw new Error(
+      `Unsupported PDF margin "${settings.margin}". Use one to four lengths such as 15mm or 0.5in 0.75in.`
+    );
+  }
+  const [short, long] = [
+    Math.min(size.width, size.height),
+    Math.max(size.width, size.height)
+  ];
+  const landscape = settings.orientation === 'landscape';
+  const width = landscape ? long : short;
+  const height = landscape ? short : long;
+  if (
+    margin.left + margin.right >= width ||
+    margin.top + margin.bottom >= height
+  ) {
+    throw new Error('PDF margins leave no room for content on the page.');
+  }
+  return {
+    width,
+    height,
+    margin,
+    printBackground: settings.printBackground,
+    headerTemplate: settings.headerTemplate.trim(),
+    footerTemplate: settings.footerTemplate.trim(),
+    outline: settings.outline,
+    contentsPage: settings.contentsPage
+  };
+}
+
+export function parsePdfPageSize(
+  value: string
+): { width: number; height: number } | undefined {
+  const trimmed = value.trim();
+  const preset = PRESET_SIZES_MM[trimmed.toLowerCase()];
+  if (preset) {
+    return { width: preset[0] / MM_PER_INCH, height: preset[1] / MM_PER_INCH };
+  }
+  const match = /^(\S+)\s*[x×]\s*(\S+)$/i.exec(trimmed);
+  const width = match ? parsePdfLength(match[1] ?? '') : undefined;
+  const height = match ? parsePdfLength(match[2] ?? '') : undefined;
+  return width && height ? { width, height } : undefined;
+}
+
+export function parsePdfMargins(value: string): PdfMargins | undefined {
+  const lengths = value.trim().split(/\s+/).map(parsePdfLength);
+  if (
+    lengths.length < 1 ||
+    lengths.length > 4 ||
+    lengths.some((length) => length === undefined)
+  ) {
+    return undefined;
+  }
+  const [top = 0, right = top, bottom = top, left = right] =
+    lengths as number[];
+  return { top, right, bottom, left };
+}
+
+// Inches, or `undefined` for anything but a non-negative length with a unit (a bare `0` is fine).
+export function parsePdfLength(value: string): number | undefined {
+  const match = /^(\d+(?:\.\d+)?|\.\d+)(mm|cm|in|pt|px)?$/i.exec(value.trim());
+  if (!match) return undefined;
+  const amount = Number(match[1]);
+  const unit = match[2]?.toLowerCase();
+  if (!unit) return amount === 0 ? 0 : undefined;
+  return amount / (UNITS_PER_INCH[unit] ?? 1);
+}
+
+// `@page` rules so the browser's own Print → Save as PDF path matches the headless export, plus the
+// contents page layout.
+export function buildPdfPrintCss(options: PdfPageOptions): string {
+  const inches = (value: number) => `${Number(value.toFixed(4))}in`;
+  const { margin } = options;
+  const colorAdjust = options.printBackground ? 'exact' : 'economy';
+  return `@page { size: ${inches(options.width)} ${inches(options.height)}; margin: ${inches(margin.top)} ${inches(margin.right)} ${inches(margin.bottom)} ${inches(margin.left)}; }
+@media print { html, body { -webkit-print-color-adjust: ${colorAdjust}; print-color-adjust: ${colorAdjust}; } }
+.omv-pdf-contents { break-after: page; }
+.omv-pdf-contents ol { list-style: none; margin: 0; padding: 0; }
+.omv-pdf-contents a { display: flex; gap: 0.5em; color: inherit; text-decoration: none; }
+.omv-pdf-contents a::after { content: ''; order: 1; flex: 1; border-bottom: 1px dotted currentColor; margin-bottom: 0.3em; }
+.omv-pdf-contents [${PDF_CONTENTS_PAGE_ATTR}] { order: 2; min-width: 2.5em; text-align: right; }`;
+}
+
+// The "Contents" page: one link per heading, indented by level. Page numbers are filled in once
+// the printed layout is known (`PDF_CONTENTS_PAGE_ATTR` marks their slots).
+export function buildPdfContentsHtml(toc: readonly TocItem[]): string {
+  if (toc.length === 0) return '';
+  const minLevel = Math.min(...toc.map((item) => item.level));
+  const entries = toc
+    .map(
+      (item) =>
+        `<li style="padding-left:${(item.level - minLevel) * 1.25}em"><a href="#${escapeTemplateText(encodeURIComponent(item.id))}"><span>${escapeTemplateText(item.text)}</span><span ${PDF_CONTENTS_PAGE_ATTR}="${escapeTemplateText(item.id)}"></span></a></li>`
+    )
+    .join('');
+  return `<nav class="omv-pdf-contents"><h1>Contents</h1><ol>${entries}</ol></nav>`;
+}
+
+// Chromium header/footer markup for a plain-text template; Chromium fills the date and page spans.
+export function buildPdfHeaderFooterTemplate(
+  template: string,
+  title: string
+): string {
+  if (!template.trim()) return '<span></span>';
+  const content = escapeTemplateText(template).replace(
+    /\{(title|date|page|pages)\}/g,
+    (_match, name: string) =>
+      name === 'title'
+        ? escapeTemplateText(title)
+        : (TEMPLATE_PLACEHOLDERS[name] ?? '')
+  );
+  // Templates render outside the page's stylesheet and default to a near-invisible font size.
+  return `<div style="width:100%;margin:0 0.4in;font-family:sans-serif;font-size:9px;color:#555;text-align:center;">${content}</div>`;
+}
+
+// Options only DevTools printing applies; the `--print-to-pdf` fallback keeps the `@page` size,
+// margins and backgrounds from the print CSS but drops these.
+export function getPrintToPdfIgnoredOptions(options: PdfPageOptions): string[] {
+  const ignored: string[] = [];
+  if (options.headerTemplate.trim()) ignored.push('header');
+  if (options.footerTemplate.trim()) ignored.push('footer');
+  if (options.contentsPage) ignored.push('contents page numbers');
+  return ignored;
+}
+
+export function describePdfExportSettings(settings: PdfExportSettings): string {
+  const parts = [
+    `${settings.pageSize} ${settings.orientation}`,
+    `${settings.margin} margins`,
+    settings.printBackground ? 'backgrounds' : 'no backgrounds'
+  ];
+  if (settings.headerTemplate.trim()) parts.push('header');
+  if (settings.footerTemplate.trim()) parts.push('footer');
+  if (settings.outline) parts.push('bookmarks');
+  if (settings.contentsPage) parts.push('contents page');
+  return parts.join(', ');
+}
+
+function escapeTemplateText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,211 @@
+import * as vscode from 'vscode';
+
+import {
+  PDF_PAGE_SIZE_PRESETS,
+  describePdfExportSettings,
+  parsePdfMargins,
+  parsePdfPageSize
+} from './pdfOptions';
+import type { PdfExportSettings } from './pdfOptions';
+
+interface SetupItem<T> extends vscode.QuickPickItem {
+  value: T;
+}
+
+const CUSTOM = Symbol('custom');
+
+const HEADER_FOOTER_PRESETS: Array<{
+  label: string;
+  headerTemplate: string;
+  footerTemplate: string;
+}> = [
+  { label: 'None', headerTemplate: '', footerTemplate: '' },
+  {
+    label: 'Page numbers',
+    headerTemplate: '',
+    footerTemplate: '{page} / {pages}'
+  },
+  {
+    label: 'Title and page numbers',
+    headerTemplate: '{title}',
+    footerTemplate: '{page} / {pages}'
+  },
+  {
+    label: 'Title, date and page numbers',
+    headerTemplate: '{title} · {date}',
+    footerTemplate: 'Page {page} of {pages}'
+  }
+];
+
+// Per-export page setup: either the configured settings as-is or a short series of pickers
+// seeded with them. `undefined` when the user cancels.
+export async function pickPdfExportSettings(
+  defaults: PdfExportSettings
+): Promise<PdfExportSettings | undefined> {
+  const mode = await vscode.window.showQuickPick(
+    [
+      {
+        label: 'Use PDF Settings',
+        description: describePdfExportSettings(defaults),
+        value: 'defaults' as const
+      },
+      {
+        label: 'Customize Page Setup…',
+        description:
+          'Page size, orientation, margins, background, header, footer and navigation',
+        value: 'customize' as const
+      }
+    ],
+    { placeHolder: 'PDF page setup' }
+  );
+  if (!mode) return undefined;
+  if (mode.value === 'defaults') return defaults;
+
+  const pageSize = await pickWithCustomValue(
+    'Page size',
+    [...PDF_PAGE_SIZE_PRESETS],
+    defaults.pageSize,
+    {
+      prompt: 'Page size as WIDTH x HEIGHT (mm, cm, in, pt or px)',
+      placeHolder: '180mm x 240mm',
+      validate: (value) =>
+        parsePdfPageSize(value)
+          ? undefined
+          : 'Enter a preset name or a size such as 180mm x 240mm'
+    }
+  );
+  if (pageSize === undefined) return undefined;
+
+  const orientation = await pickSetupItem<PdfExportSettings['orientation']>(
+    'Orientation',
+    [
+      { label: 'Portrait', value: 'portrait' },
+      { label: 'Landscape', value: 'landscape' }
+    ],
+    defaults.orientation
+  );
+  if (orientation === undefined) return undefined;
+
+  const margin = await pickWithCustomValue(
+    'Margins',
+    ['0', '10mm', '20mm', '25mm 20mm'],
+    defaults.margin,
+    {
+      prompt: 'Margins as one to four lengths (top right bottom left)',
+      placeHolder: '20mm 15mm',
+      validate: (value) =>
+        parsePdfMargins(value)
+          ? undefined
+          : 'Enter lengths such as 15mm or 0.5in 0.75in'
+    }
+  );
+  if (margin === undefined) return undefined;
+
+  const printBackground = await pickSetupItem(
+    'Background colors and images',
+    [
+      { label: 'Print backgrounds', value: true },
+      { label: 'Omit backgrounds', value: false }
+    ],
+    defaults.printBackground
+  );
+  if (printBackground === undefined) return undefined;
+
+  const configured = {
+    label: 'From settings',
+    headerTemplate: defaults.headerTemplate,
+    footerTemplate: defaults.footerTemplate
+  };
+  const headerFooter = await pickSetupItem(
+    'Header and footer',
+    [configured, ...HEADER_FOOTER_PRESETS].map((preset) => ({
+      label: preset.label,
+      description: [preset.headerTemplate, preset.footerTemplate]
+        .filter(Boolean)
+        .join(' | '),
+      value: preset
+    })),
+    configured
+  );
+  if (headerFooter === undefined) return undefined;
+
+  const navigation = await pickSetupItem(
+    'Navigation',
+    [
+      {
+        label: 'Bookmarks and contents page',
+        description: 'Outline plus a leading page listing every heading',
+        value: 'contents' as const
+      },
+      {
+        label: 'Bookmarks only',
+        description: 'PDF outline built from the headings',
+        value: 'outline' as const
+      },
+      { label: 'None', value: 'none' as const }
+    ],
+    defaults.contentsPage ? 'contents' : defaults.outline ? 'outline' : 'none'
+  );
+  if (navigation === undefined) return undefined;
+
+  return {
+    pageSize,
+    orientation,
+    margin,
+    printBackground,
+    headerTemplate: headerFooter.headerTemplate,
+    footerTemplate: headerFooter.footerTemplate,
+    outline: navigation !== 'none',
+    contentsPage: navigation === 'contents'
+  };
+}
+
+async function pickSetupItem<T>(
+  title: string,
+  items: SetupItem<T>[],
+  current: T
+): Promise<T | undefined> {
+  // Start on the configured value so Enter keeps it.
+  const ordered = [
+    ...items.filter((item) => item.value === current),
+    ...items.filter((item) => item.value !== current)
+  ];
+  const picked = await vscode.window.showQuickPick(ordered, {
+    title: `PDF Page Setup: ${title}`
+  });
+  return picked?.value;
+}
+
+async function pickWithCustomValue(
+  title: string,
+  presets: string[],
+  current: string,
+  input: {
+    prompt: string;
+    placeHolder: string;
+    validate: (value: string) => string | undefined;
+  }
+): Promise<string | undefined> {
+  const values = [current, ...presets.filter((preset) => preset !== current)];
+  const picked = await pickSetupItem<string | typeof CUSTOM>(
+    title,
+    [
+      ...values.map((value) => ({
+        label: value,
+        description: value === current ? 'current' : undefined,
+        value
+      })),
+      { label: 'Custom…', value: CUSTOM }
+    ],
+    current
+  );
+  if (picked !== CUSTOM) return picked;
+  const value = await vscode.window.showInputBox({
+    title: `PDF Page Setup: ${title}`,
+    prompt: input.prompt,
+    placeHolder: input.placeHolder,
+    value: current,
+    validateInput: input.validate
+  });
+  return value?.trim();
+}
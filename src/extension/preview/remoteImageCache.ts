@@ -0,0 +1,323 @@
+import * as vscode from 'vscode';
+
+import {
+  OMV_EXPORT_SRCSET_ATTR,
+  OMV_LOCAL_SRC_ATTR,
+  OMV_REMOTE_SRC_ATTR
+} from '../../previewImageMetadata';
+import {
+  getHtmlAttribute,
+  mapHtmlImgTags,
+  parseHtmlImgTag,
+  parseHtmlSrcset
+} from './htmlImageTags';
+
+export interface RemoteImageCacheEntry {
+  url: string;
+  // File name inside the cache directory.
+  file: string;
+  contentType: string;
+  size: number;
+  // Epoch milliseconds.
+  fetchedAt: number;
+  lastUsedAt: number;
+  // Markdown documents (URI strings) whose preview showed this image.
+  documents: string[];
+}
+
+export interface RemoteImageCacheEvictionPolicy {
+  // 0 disables the size limit.
+  maxBytes: number;
+  // 0 disables age-based expiry.
+  maxAgeMs: number;
+}
+
+interface RemoteImageCacheIndexFile {
+  version: 1;
+  entries: RemoteImageCacheEntry[];
+}
+
+export const REMOTE_IMAGE_CACHE_INDEX_FILE = 'index.json';
+
+// `lastUsedAt` only needs to be accurate enough to order evictions; avoid rewriting the index on
+// every keystroke-driven render.
+const USAGE_WRITE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Persistent URL → cached file index, one `index.json` per cache directory, so downloaded remote
+// images keep rendering after the preview or VS Code restarts.
+export class RemoteImageCacheIndex {
+  private readonly indexes = new Map<
+    string,
+    Promise<Map<string, RemoteImageCacheEntry>>
+  >();
+  private readonly writes = new Map<string, Promise<void>>();
+
+  // URL → local file for every cached image whose file still exists.
+  async getOverrides(
+    dir: vscode.Uri
+  ): Promise<ReadonlyMap<string, vscode.Uri>> {
+    const entries = await this.load(dir);
+    const overrides = new Map<string, vscode.Uri>();
+    for (const entry of entries.values()) {
+      overrides.set(entry.url, vscode.Uri.joinPath(dir, entry.file));
+    }
+    return overrides;
+  }
+
+  async getEntries(dir: vscode.Uri): Promise<RemoteImageCacheEntry[]> {
+    return [...(await this.load(dir)).values()];
+  }
+
+  async record(dir: vscode.Uri, entry: RemoteImageCacheEntry): Promise<void> {
+    const entries = await this.load(dir);
+    const previous = entries.get(entry.url);
+    entries.set(entry.url, {
+      ...entry,
+      documents: [
+        ...new Set([...(previous?.documents ?? []), ...entry.documents])
+      ]
+    });
+    await this.persist(dir, entries);
+    if (previous && previous.file !== entry.file) {
+      // A refreshed image whose content type changed is stored under a new extension.
+      await vscode.workspace.fs
+        .delete(vscode.Uri.joinPath(dir, previous.file), { useTrash: false })
+        .then(undefined, () => undefined);
+    }
+  }
+
+  async markUsed(
+    dir: vscode.Uri,
+    urls: Iterable<string>,
+    documentUri: vscode.Uri,
+    now = Date.now()
+  ): Promise<void> {
+    const entries = await this.load(dir);
+    const documentKey = documentUri.toString();
+    let changed = false;
+    for (const url of urls) {
+      const entry = entries.get(url);
+      if (!entry) continue;
+      if (!entry.documents.includes(documentKey)) {
+        entry.documents.push(documentKey);
+        changed = true;
+      }
+      if (now - entry.lastUsedAt >= USAGE_WRITE_INTERVAL_MS) {
+        entry.lastUsedAt = now;
+        changed = true;
+      }
+    }
+    if (changed) {
+      await this.persist(dir, entries);
+    }
+  }
+
+  // Deletes the cached files and index entries for `urls`.
+  async remove(dir: vscode.Uri, urls: Iterable<string>): Promise<void> {
+    const entries = await this.load(dir);
+    let changed = false;
+    for (const url of urls) {
+      const entry = entries.get(url);
+      if (!entry) continue;
+      entries.delete(url);
+      changed = true;
+      try {
+        await vscode.workspace.fs.delete(vscode.Uri.joinPath(dir, entry.file), {
+          useTrash: false
+        });
+      } catch {
+        // Already gone; the index entry is what matters.
+      }
+    }
+    if (changed) {
+      await this.persist(dir, entries);
+    }
+  }
+
+  async evict(
+    dir: vscode.Uri,
+    policy: RemoteImageCacheEvictionPolicy,
+    now = Date.now()
+  ): Promise<RemoteImageCacheEntry[]> {
+    const entries = await this.getEntries(dir);
+    const evicted = selectEvictions(entries, policy, now);
+    await this.remove(
+      dir,
+      evicted.map((entry) => entry.url)
+    );
+    return evicted;
+  }
+
+  // Forget loaded indexes, e.g. after cache directories were deleted.
+  reset(): void {
+    this.indexes.clear();
+  }
+
+  private load(dir: vscode.Uri): Promise<Map<string, RemoteImageCacheEntry>> {
+    const key = dir.toString();
+    let loaded = this.indexes.get(key);
+    if (!loaded) {
+      loaded = readIndex(dir);
+      this.indexes.set(key, loaded);
+    }
+    return loaded;
+  }
+
+  private persist(
+    dir: vscode.Uri,
+    entries: Map<string, RemoteImageCacheEntry>
+  ): Promise<void> {
+    const key = dir.toString();
+    // Serialize writes per directory so concurrent downloads cannot interleave index updates.
+    const previous = this.writes.get(key) ?? Promise.resolve();
+    const next = previous.then(async () => {
+      const data: RemoteImageCacheIndexFile = {
+        version: 1,
+        entries: [...entries.values()]
+      };
+      await vscode.workspace.fs.createDirectory(dir);
+      await vscode.workspace.fs.writeFile(
+        vscode.Uri.joinPath(dir, REMOTE_IMAGE_CACHE_INDEX_FILE),
+        Buffer.from(`${JSON.stringify(data, null, 2)}\n`, 'utf8')
+      );
+    });
+    const settled = next.catch(() => undefined);
+    this.writes.set(key, settled);
+    return next;
+  }
+}
+
+async function readIndex(
+  dir: vscode.Uri
+): Promise<Map<string, RemoteImageCacheEntry>> {
+  const entries = new Map<string, RemoteImageCacheEntry>();
+  let parsed: unknown;
+  try {
+    const raw = await vscode.workspace.fs.readFile(
+      vscode.Uri.joinPath(dir, REMOTE_IMAGE_CACHE_INDEX_FILE)
+    );
+    parsed = JSON.parse(Buffer.from(raw).toString('utf8'));
+  } catch {
+    return entries;
+  }
+
+  const list = (parsed as Partial<RemoteImageCacheIndexFile> | null)?.entries;
+  if (!Array.isArray(list)) return entries;
+  for (const candidate of list) {
+    if (!isCacheEntry(candidate)) continue;
+    const entry: RemoteImageCacheEntry = {
+      ...candidate,
+      // Indexes written before usage tracking existed lack these fields.
+      lastUsedAt:
+        typeof candidate.lastUsedAt === 'number'
+          ? candidate.lastUsedAt
+          : candidate.fetchedAt,
+      documents: Array.isArray(candidate.documents)
+        ? candidate.documents.filter(
+            (document): document is string => typeof document === 'string'
+          )
+        : []
+    };
+    // Files removed outside the extension drop out of the index instead of rendering broken images.
+    try {
+      await vscode.workspace.fs.stat(vscode.Uri.joinPath(dir, entry.file));
+    } catch {
+      continue;
+    }
+    entries.set(entry.url, entry);
+  }
+  return entries;
+}
+
+// Expired entries first, then least recently used ones until the cache fits in `maxBytes`.
+export function selectEvictions(
+  entries: readonly RemoteImageCacheEntry[],
+  policy: RemoteImageCacheEvictionPolicy,
+  now: number
+): RemoteImageCacheEntry[] {
+  const evicted: RemoteImageCacheEntry[] = [];
+  const kept: RemoteImageCacheEntry[] = [];
+  for (const entry of entries) {
+    if (policy.maxAgeMs > 0 && now - entry.fetchedAt > policy.maxAgeMs) {
+      evicted.push(entry);
+    } else {
+      kept.push(entry);
+    }
+  }
+  if (policy.maxBytes <= 0) return evicted;
+
+  let total = kept.reduce((sum, entry) => sum + entry.size, 0);
+  kept.sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+  for (const entry of kept) {
+    if (total <= policy.maxBytes) break;
+    evicted.push(entry);
+    total -= entry.size;
+  }
+  return evicted;
+}
+
+// Cached URLs whose files the rendered HTML actually references (directly or via `srcset`).
+export function collectUsedCacheUrls(
+  html: string,
+  overrides: ReadonlyMap<string, vscode.Uri>
+): string[] {
+  if (overrides.size === 0) return [];
+  const urlByFile = new Map<string, string>();
+  for (const [url, file] of overrides) {
+    urlByFile.set(file.toString(), url);
+  }
+  const used = new Set<string>();
+  const attrPattern = new RegExp(
+    `(?:${OMV_LOCAL_SRC_ATTR}|${OMV_EXPORT_SRCSET_ATTR})="([^"]*)"`,
+    'g'
+  );
+  for (const match of html.matchAll(attrPattern)) {
+    for (const part of (match[1] ?? '').split(/[\s,]+/)) {
+      const url = urlByFile.get(part);
+      if (url) used.add(url);
+    }
+  }
+  return [...used];
+}
+
+function isCacheEntry(
+  value: unknown
+): value is Omit<RemoteImageCacheEntry, 'lastUsedAt' | 'documents'> &
+  Partial<Record<'lastUsedAt' | 'documents', unknown>> {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.url === 'string' &&
+    typeof entry.file === 'string' &&
+    // Index entries must stay inside the cache directory.
+    /^[\w-]+(?:\.\w+)?$/.test(entry.file) &&
+    typeof entry.contentType === 'string' &&
+    typeof entry.size === 'number' &&
+    typeof entry.fetchedAt === 'number'
+  );
+}
+
+// Every blocked remote URL in rendered preview HTML: each image's blocked source plus any remote
+// `srcset` candidates, in document order without duplicates.
+export function collectBlockedRemoteImageUrls(html: string): string[] {
+  const urls = new Set<string>();
+  mapHtmlImgTags(html, (tag) => {
+    const parsed = parseHtmlImgTag(tag);
+    const remoteSrc = parsed
+      ? getHtmlAttribute(parsed.attributes, OMV_REMOTE_SRC_ATTR)?.value
+      : undefined;
+    if (!parsed || !remoteSrc) return tag;
+    urls.add(remoteSrc);
+    const srcset = getHtmlAttribute(
+      parsed.attributes,
+      OMV_EXPORT_SRCSET_ATTR
+    )?.value;
+    for (const candidate of parseHtmlSrcset(srcset ?? '')) {
+      if (/^https?:\/\//i.test(candidate.url)) {
+        urls.add(candidate.url);
+      }
+    }
+    return tag;
+  });
+  return [...urls];
+}
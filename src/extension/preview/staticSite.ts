@@ -0,0 +1,324 @@
+import * as path from 'node:path';
+
+import type { TocItem } from '../messaging/protocol';
+
+// One rendered page of a static site export; `path` is the page's output path relative to the
+// site root, always with forward slashes (`guide/setup.html`).
+export interface StaticSitePage {
+  path: string;
+  title: string;
+  order?: number;
+  toc: TocItem[];
+  text: string;
+}
+
+export interface StaticSiteNavNode {
+  title: string;
+  path?: string;
+  order?: number;
+  children: StaticSiteNavNode[];
+}
+
+// Markup and styles wrapped around a page's exported article.
+export interface StaticSitePageChrome {
+  title: string;
+  css: string;
+  bodyStart: string;
+  bodyEnd: string;
+}
+
+export const STATIC_SITE_SEARCH_INDEX_FILE = 'search-index.js';
+export const STATIC_SITE_SCRIPT_FILE = 'site.js';
+
+const INDEX_PAGE_NAMES = new Set(['index', 'readme']);
+
+// Sidebar tree: one node per folder (linked when the folder has an index/README page) and one per
+// page. Siblings sort by frontmatter `order`, then pages before folders, then title.
+export function buildStaticSiteNavigation(
+  pages: readonly StaticSitePage[]
+): StaticSiteNavNode[] {
+  const root: StaticSiteNavNode = { title: '', children: [] };
+  const folders = new Map<string, StaticSiteNavNode>([['', root]]);
+  const getFolder = (dir: string): StaticSiteNavNode => {
+    const existing = folders.get(dir);
+    if (existing) return existing;
+    const parentDir = path.posix.dirname(dir);
+    const node: StaticSiteNavNode = {
+      title: path.posix.basename(dir),
+      children: []
+    };
+    getFolder(parentDir === '.' ? '' : parentDir).children.push(node);
+    folders.set(dir, node);
+    return node;
+  };
+
+  for (const page of pages) {
+    const dir = path.posix.dirname(page.path);
+    const folder = getFolder(dir === '.' ? '' : dir);
+    if (folder !== root && isIndexPage(page.path) && !folder.path) {
+      folder.title = page.title;
+      folder.path = page.path;
+      folder.order = page.order;
+      continue;
+    }
+    folder.children.push({
+      title: page.title,
+      path: page.path,
+      // The site's own index/README leads the sidebar unless it sets an order.
+      order:
+        page.order ??
+        (folder === root && isIndexPage(page.path)
+          ? Number.NEGATIVE_INFINITY
+          : undefined),
+      children: []
+    });
+  }
+  sortNavigation(root.children);
+  return root.children;
+}
+
+export function renderStaticSiteSidebar(
+  nav: readonly StaticSiteNavNode[],
+  currentPath: string
+): string {
+  const renderNodes = (nodes: readonly StaticSiteNavNode[]): string =>
+    `<ul>${nodes
+      .map((node) => {
+        const label = node.path
+          ? `<a href="${escapeHtml(getRelativeSiteHref(currentPath, node.path))}"${node.path === currentPath ? ' aria-current="page"' : ''}>${escapeHtml(node.title)}</a>`
+          : `<span>${escapeHtml(node.title)}</span>`;
+        const children =
+          node.children.length > 0 ? renderNodes(node.children) : '';
+        return `<li${node.children.length > 0 ? ' class="omv-site-folder"' : ''}>${label}${children}</li>`;
+      })
+      .join('')}</ul>`;
+  return renderNodes(nav);
+}
+
+export function renderStaticSitePageToc(toc: readonly TocItem[]): string {
+  if (toc.length === 0) return '';
+  const minLevel = Math.min(...toc.map((item) => item.level));
+  const entries = toc
+    .map(
+      (item) =>
+        `<li style="padding-left:${(item.level - minLevel) * 0.75}rem"><a href="#${escapeHtml(encodeURIComponent(item.id))}">${escapeHtml(item.text)}</a></li>`
+    )
+    .join('');
+  return `<h2>On this page</h2><ol>${entries}</ol>`;
+}
+
+export function buildStaticSitePageChrome(options: {
+  siteTitle: string;
+  homePath?: string;
+  nav: readonly StaticSiteNavNode[];
+  page: StaticSitePage;
+}): StaticSitePageChrome {
+  const { page } = options;
+  const rootHref = getRelativeSiteHref(page.path, '');
+  const home = options.homePath
+    ? `<a class="omv-site-home" href="${escapeHtml(getRelativeSiteHref(page.path, options.homePath))}">${escapeHtml(options.siteTitle)}</a>`
+    : `<span class="omv-site-home">${escapeHtml(options.siteTitle)}</span>`;
+  const toc = renderStaticSitePageToc(page.toc);
+  return {
+    title:
+      page.title === options.siteTitle
+        ? page.title
+        : `${page.title} – ${options.siteTitle}`,
+    css: STATIC_SITE_CSS,
+    bodyStart: `<div class="omv-site" data-omv-site-root="${escapeHtml(rootHref)}">
+<nav class="omv-site-sidebar" aria-label="Site">
+${home}
+<input class="omv-site-search" type="search" placeholder="Search" aria-label="Search this site" />
+<ol class="omv-site-results" hidden></ol>
+${renderStaticSiteSidebar(options.nav, page.path)}
+</nav>
+<main class="omv-site-main">`,
+    bodyEnd: `</main>
+${toc ? `<aside class="omv-site-toc">${toc}</aside>\n` : ''}</div>
+<script src="${escapeHtml(rootHref + STATIC_SITE_SEARCH_INDEX_FILE)}"></script>
+<script src="${escapeHtml(rootHref + STATIC_SITE_SCRIPT_FILE)}"></script>`
+  };
+}
+
+// Loaded with a script tag rather than fetched, so search also works from file:// URLs.
+export function buildStaticSiteSearchIndex(
+  pages: readonly StaticSitePage[]
+): string {
+  const entries = pages.map((page) => ({
+    title: page.title,
+    path: page.path,
+    headings: page.toc.map((item) => ({ id: item.id, text: item.text })),
+    text: page.text
+  }));
+  return `window.omvSiteSearchIndex = ${JSON.stringify(entries)};\n`;
+}
+
+// Plain text of a rendered page for the search index.
+export function htmlToSearchText(html: string): string {
+  return html
+    .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<annotation\b[^>]*>[\s\S]*?<\/annotation>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&(?:#(\d+)|#x([0-9a-f]+)|(amp|lt|gt|quot|nbsp));/gi, decodeEntity)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function getRelativeSiteHref(fromPath: string, toPath: string): string {
+  const fromDir = path.posix.dirname(fromPath);
+  const relative = path.posix.relative(fromDir === '.' ? '' : fromDir, toPath);
+  if (!toPath) return relative ? `${relative}/` : '';
+  return relative
+    .split('/')
+    .map((segment) => encodeURIComponent(segment))
+    .join('/');
+}
+
+function isIndexPage(pagePath: string): boolean {
+  return INDEX_PAGE_NAMES.has(
+    path.posix.basename(pagePath, path.posix.extname(pagePath)).toLowerCase()
+  );
+}
+
+function sortNavigation(nodes: StaticSiteNavNode[]): void {
+  nodes.sort(
+    (a, b) =>
+      (a.order ?? Number.POSITIVE_INFINITY) -
+        (b.order ?? Number.POSITIVE_INFINITY) ||
+      Number(a.children.length > 0) - Number(b.children.length > 0) ||
+      a.title.localeCompare(b.title)
+  );
+  for (const node of nodes) sortNavigation(node.children);
+}
+
+function decodeEntity(
+  _match: string,
+  decimal: string | undefined,
+  hex: string | undefined,
+  named: string | undefined
+): string {
+  if (decimal) return String.fromCodePoint(Number(decimal));
+  if (hex) return String.fromCodePoint(parseInt(hex, 16));
+  const entities: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    nbsp: ' '
+  };
+  return entities[named?.toLowerCase() ?? ''] ?? '';
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const STATIC_SITE_CSS = `.omv-site { display: grid; grid-template-columns: 260px minmax(0, 1fr) 220px; min-height: 100vh; }
+.omv-site-sidebar, .omv-site-toc { position: sticky; top: 0; align-self: start; max-height: 100vh; overflow: auto; padding: 1rem; font-size: 0.9rem; }
+.omv-site-sidebar { border-right: 1px solid var(--omv-border); }
+.omv-site-toc { border-left: 1px solid var(--omv-border); }
+.omv-site-main { min-width: 0; }
+.omv-site-home { display: block; font-weight: 600; margin-bottom: 0.75rem; color: inherit; text-decoration: none; }
+.omv-site-search { width: 100%; padding: 0.3rem 0.5rem; margin-bottom: 0.75rem; color: inherit; background: transparent; border: 1px solid var(--omv-border); border-radius: 4px; }
+.omv-site-sidebar ul, .omv-site-toc ol, .omv-site-results { list-style: none; margin: 0; padding: 0; }
+.omv-site-sidebar ul ul { padding-left: 0.9rem; }
+.omv-site-sidebar li, .omv-site-toc li { margin: 0.2rem 0; }
+.omv-site-folder > span, .omv-site-folder > a { font-weight: 600; }
+.omv-site-sidebar a, .omv-site-toc a { color: inherit; text-decoration: none; }
+.omv-site-sidebar a:hover, .omv-site-toc a:hover { color: var(--omv-accent); }
+.omv-site-sidebar a[aria-current='page'] { color: var(--omv-accent); font-weight: 600; }
+.omv-site-toc h2 { font-size: 0.8rem; text-transform: uppercase; letter-spacing: 0.04em; color: var(--omv-muted); margin: 0 0 0.5rem; }
+.omv-site-results { margin-bottom: 1rem; border-bottom: 1px solid var(--omv-border); padding-bottom: 0.5rem; }
+.omv-site-results li { margin: 0.4rem 0; }
+.omv-site-results a { display: block; color: var(--omv-accent); }
+.omv-site-results small { display: block; color: var(--omv-muted); }
+@media (max-width: 1100px) { .omv-site { grid-template-columns: 240px minmax(0, 1fr); } .omv-site-toc { display: none; } }
+@media (max-width: 760px) { .omv-site { display: block; } .omv-site-sidebar { position: static; max-height: none; border-right: 0; border-bottom: 1px solid var(--omv-border); } }
+@media print { .omv-site { display: block; } .omv-site-sidebar, .omv-site-toc { display: none; } }`;
+
+// Client-side search over `window.omvSiteSearchIndex`: every term must appear in the page title,
+// a heading, or the text; title and heading hits rank first and link to the matching heading.
+export const STATIC_SITE_SCRIPT = `(function () {
+  var site = document.querySelector('.omv-site');
+  var input = document.querySelector('.omv-site-search');
+  var results = document.querySelector('.omv-site-results');
+  var index = window.omvSiteSearchIndex || [];
+  if (!site || !input || !results) return;
+  var root = site.getAttribute('data-omv-site-root') || '';
+
+  function snippet(text, term) {
+    var at = text.toLowerCase().indexOf(term);
+    if (at < 0) return '';
+    var start = Math.max(0, at - 60);
+    return (start > 0 ? '… ' : '') + text.slice(start, at + term.length + 80) + ' …';
+  }
+
+  function search(query) {
+    var terms = query.toLowerCase().split(/\\s+/).filter(Boolean);
+    var matches = [];
+    if (terms.length === 0) return matches;
+    index.forEach(function (page) {
+      var title = page.title.toLowerCase();
+      var text = page.text.toLowerCase();
+      var score = 0;
+      var heading;
+      for (var i = 0; i < terms.length; i += 1) {
+        var term = terms[i];
+        var headingHit = page.headings.find(function (item) {
+          return item.text.toLowerCase().indexOf(term) >= 0;
+        });
+        if (title.indexOf(term) >= 0) score += 10;
+        else if (headingHit) score += 5;
+        else if (text.indexOf(term) >= 0) score += 1;
+        else return;
+        heading = heading || headingHit;
+      }
+      matches.push({ page: page, score: score, heading: heading, terms: terms });
+    });
+    return matches
+      .sort(function (a, b) {
+        return b.score - a.score || a.page.title.localeCompare(b.page.title);
+      })
+      .slice(0, 20);
+  }
+
+  input.addEventListener('input', function () {
+    var matches = search(input.value);
+    results.textContent = '';
+    results.hidden = input.value.trim() === '';
+    if (results.hidden) return;
+    if (matches.length === 0) {
+      var empty = document.createElement('li');
+      empty.textContent = 'No results';
+      results.appendChild(empty);
+      return;
+    }
+    matches.forEach(function (match) {
+      var item = document.createElement('li');
+      var link = document.createElement('a');
+      link.href =
+        root +
+        match.page.path.split('/').map(encodeURIComponent).join('/') +
+        (match.heading ? '#' + encodeURIComponent(match.heading.id) : '');
+      link.textContent = match.heading
+        ? match.page.title + ' › ' + match.heading.text
+        : match.page.title;
+      var context = document.createElement('small');
+      context.textContent = snippet(match.page.text, match.terms[0]);
+      item.appendChild(link);
+      item.appendChild(context);
+      results.appendChild(item);
+    });
+  });
+
+  input.addEventListener('keydown', function (event) {
+    if (event.key !== 'Enter') return;
+    var first = results.querySelector('a');
+    if (first) window.location.href = first.href;
+  });
+})();
+`;
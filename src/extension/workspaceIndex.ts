@@ -0,0 +1,223 @@
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+
+import { readWorkspaceText } from './preview/markdown/includes';
+import {
+  decodeHref,
+  MARKDOWN_FILE_PATTERN,
+  resolveImageUri,
+  resolveLinkTarget
+} from './preview/markdown/linkResolver';
+import { collectMarkdownLinks } from './preview/markdown/markdownPipeline';
+import type { MarkdownLinkReference } from './preview/markdown/markdownPipeline';
+import {
+  getMarkdownTitle,
+  parseWikiLink,
+  resolveWikiPage
+} from './preview/markdown/wikiLinks';
+import type { WikiPage } from './preview/markdown/wikiLinks';
+
+const MARKDOWN_GLOB = '**/*.{md,markdown}';
+const EXCLUDED_GLOB = '**/node_modules/**';
+
+interface IndexedLink {
+  // Wiki link targets stay unresolved until lookup: which page they name depends on every page.
+  target: vscode.Uri | string;
+  line: number;
+  text: string;
+}
+
+interface IndexedPage extends WikiPage {
+  links: IndexedLink[];
+}
+
+export interface Backlink {
+  source: vscode.Uri;
+  line: number;
+  // Trimmed source line containing the link.
+  text: string;
+}
+
+// Markdown files of the open workspace folders with their titles and outgoing links. Built on first
+// use (the first preview, or the first document with a wiki link) and kept current by a file
+// watcher, so titles and links update when a file is saved.
+export class MarkdownWorkspaceIndex implements vscode.Disposable {
+  private readonly pages = new Map<string, IndexedPage>();
+  private building: Promise<void> | undefined;
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private readonly linksEmitter = new vscode.EventEmitter<void>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  // Fires when pages are added or removed, or a title changes.
+  readonly onDidChange = this.changeEmitter.event;
+  // Fires when pages are added or removed, or their links change.
+  readonly onDidChangeLinks = this.linksEmitter.event;
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher(MARKDOWN_GLOB);
+    this.disposables.push(
+      watcher,
+      this.changeEmitter,
+      this.linksEmitter,
+      watcher.onDidCreate((uri) => void this.update(uri)),
+      watcher.onDidChange((uri) => void this.update(uri)),
+      watcher.onDidDelete((uri) => void this.remove(uri)),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => {
+        this.building = undefined;
+        this.pages.clear();
+        this.changeEmitter.fire();
+        this.linksEmitter.fire();
+      })
+    );
+  }
+
+  ready(): Promise<void> {
+    this.building ??= this.build();
+    return this.building;
+  }
+
+  getPages(): WikiPage[] {
+    return [...this.pages.values()];
+  }
+
+  resolveWikiLink(target: string, source: vscode.Uri): vscode.Uri | undefined {
+    return resolveWikiPage(this.pages.values(), target, source);
+  }
+
+  // Links from other indexed pages to `target`, one entry per source line, ordered by path.
+  getBacklinks(target: vscode.Uri): Backlink[] {
+    const key = target.toString();
+    const names = new Set(
+      [
+        path.posix.basename(target.path).replace(MARKDOWN_FILE_PATTERN, ''),
+        this.pages.get(key)?.title
+      ].map((name) => name?.trim().toLowerCase())
+    );
+    const backlinks: Backlink[] = [];
+    for (const page of this.pages.values()) {
+      if (page.uri.toString() === key) continue;
+      let lastLine = -1;
+      for (const link of page.links) {
+        if (link.line === lastLine) continue;
+        const matches =
+          typeof link.target === 'string'
+            ? mayNameWikiPage(link.target, names) &&
+              this.resolveWikiLink(link.target, page.uri)?.toString() === key
+            : link.target.toString() === key;
+        if (!matches) continue;
+        lastLine = link.line;
+        backlinks.push({ source: page.uri, line: link.line, text: link.text });
+      }
+    }
+    return backlinks.sort(
+      (a, b) => a.source.path.localeCompare(b.source.path) || a.line - b.line
+    );
+  }
+
+  private async build(): Promise<void> {
+    const files = await vscode.workspace.findFiles(
+      MARKDOWN_GLOB,
+      EXCLUDED_GLOB
+    );
+    for (const uri of files) {
+      await this.read(uri);
+    }
+  }
+
+  private async update(uri: vscode.Uri): Promise<void> {
+    if (!this.building || /\/node_modules\//.test(uri.path)) return;
+    await this.building;
+    const key = uri.toString();
+    const previous = this.pages.get(key);
+    await this.read(uri);
+    const next = this.pages.get(key);
+    if (previous?.title !== next?.title || !previous !== !next) {
+      this.changeEmitter.fire();
+    }
+    if (JSON.stringify(previous?.links) !== JSON.stringify(next?.links)) {
+      this.linksEmitter.fire();
+    }
+  }
+
+  private async remove(uri: vscode.Uri): Promise<void> {
+    if (!this.building) return;
+    await this.building;
+    if (this.pages.delete(uri.toString())) {
+      this.changeEmitter.fire();
+      this.linksEmitter.fire();
+    }
+  }
+
+  private async read(uri: vscode.Uri): Promise<void> {
+    try {
+      const text = await readWorkspaceText(uri);
+      this.pages.set(uri.toString(), {
+        uri,
+        title: getMarkdownTitle(text),
+        links: indexLinks(text, uri)
+      });
+    } catch {
+      this.pages.delete(uri.toString());
+    }
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+  }
+}
+
+function indexLinks(text: string, source: vscode.Uri): IndexedLink[] {
+  const lines = text.split(/\r?\n/);
+  const links: IndexedLink[] = [];
+  for (const link of collectMarkdownLinks(text, source)) {
+    const target = getIndexedTarget(link, source);
+    if (!target || target.toString() === source.toString()) continue;
+    const line = findLinkLine(lines, link);
+    links.push({ target, line, text: lines[line]?.trim() ?? '' });
+  }
+  return links;
+}
+
+function getIndexedTarget(
+  link: MarkdownLinkReference,
+  source: vscode.Uri
+): vscode.Uri | string | undefined {
+  if (link.kind === 'wiki') {
+    return parseWikiLink(link.raw?.slice(2, -2) ?? '')?.target || undefined;
+  }
+  const href = decodeHref(link.href);
+  if (link.kind === 'image') {
+    return resolveImageUri(source, href)?.with({ fragment: '', query: '' });
+  }
+  const resolved = resolveLinkTarget(source, href.replace(/\?[^#]*/, ''));
+  return resolved.kind === 'workspace' && resolved.uri
+    ? resolved.uri.with({ fragment: '' })
+    : undefined;
+}
+
+// References only know their block; the context line is the one that contains the link itself.
+function findLinkLine(lines: string[], link: MarkdownLinkReference): number {
+  const variants = [link.raw ?? link.href, decodeHref(link.href)];
+  for (let line = link.line; line < link.endLine; line += 1) {
+    if (variants.some((variant) => lines[line]?.includes(variant))) {
+      return line;
+    }
+  }
+  return link.line;
+}
+
+// Cheap check before resolving: a wiki link can only name a page by its file name or title.
+function mayNameWikiPage(
+  target: string,
+  names: ReadonlySet<string | undefined>
+): boolean {
+  const normalized = target.trim().replace(/\\/g, '/').toLowerCase();
+  return (
+    names.has(normalized) ||
+    names.has(
+      path.posix.basename(normalized).replace(MARKDOWN_FILE_PATTERN, '')
+    )
+  );
+}
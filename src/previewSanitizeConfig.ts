@@ -0,0 +1,29 @@
+import {
+  OMV_EXPORT_SRCSET_ATTR,
+  OMV_IMAGE_BLOCKED_ATTR,
+  OMV_LOCAL_SRC_ATTR,
+  OMV_MAX_MB_ATTR,
+  OMV_REMOTE_SRC_ATTR
+} from './previewImageMetadata';
+
+// DOMPurify options for rendered Markdown, shared by the webview and folder exports so both keep
+// the same raw HTML.
+export const PREVIEW_SANITIZE_CONFIG = {
+  USE_PROFILES: { html: true },
+  ADD_ATTR: [
+    'data-mermaid',
+    'data-math',
+    'data-omv-link',
+    OMV_LOCAL_SRC_ATTR,
+    OMV_EXPORT_SRCSET_ATTR,
+    OMV_REMOTE_SRC_ATTR,
+    OMV_IMAGE_BLOCKED_ATTR,
+    OMV_MAX_MB_ATTR,
+    'data-source-line',
+    'data-source-line-end',
+    'data-source-file',
+    'data-align',
+    'align'
+  ],
+  FORBID_TAGS: ['script', 'iframe', 'object', 'embed', 'form']
+};
@@ -0,0 +1,43 @@
+import type { BacklinkItem } from '../../extension/messaging/protocol';
+
+export class BacklinksView {
+  constructor(
+    private readonly root: HTMLElement,
+    private readonly onClick: (item: BacklinkItem) => void
+  ) {}
+
+  // `undefined` clears the section until the workspace index has answered.
+  render(items: BacklinkItem[] | undefined): void {
+    this.root.innerHTML = '';
+    this.root.hidden = items === undefined;
+    if (!items) return;
+
+    const title = document.createElement('h2');
+    title.textContent = 'Backlinks';
+    this.root.appendChild(title);
+
+    if (items.length === 0) {
+      const empty = document.createElement('div');
+      empty.textContent = 'No backlinks';
+      empty.style.opacity = '0.7';
+      empty.style.padding = '0.35rem 0.4rem';
+      this.root.appendChild(empty);
+      return;
+    }
+
+    for (const item of items) {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.title = `${item.path}:${item.line + 1}`;
+      const source = document.createElement('span');
+      source.className = 'omv-backlink-source';
+      source.textContent = `${item.path}:${item.line + 1}`;
+      const context = document.createElement('span');
+      context.className = 'omv-backlink-context';
+      context.textContent = item.text;
+      button.append(source, context);
+      button.addEventListener('click', () => this.onClick(item));
+      this.root.appendChild(button);
+    }
+  }
+}
@@ -0,0 +1,385 @@
+import type {
+  DocxBlock,
+  DocxInline,
+  DocxListItem,
+  DocxMathNode,
+  DocxTableCell
+} from '../../extension/messaging/protocol';
+import { OMV_LOCAL_SRC_ATTR } from '../../previewImageMetadata';
+import {
+  getExportSize,
+  rasterizeSvg,
+  serializeMermaidSvg
+} from './mermaidExport';
+
+interface InlineFormat {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  href?: string;
+}
+
+const DIAGRAM_SCALE = 2;
+const SKIPPED_SELECTOR =
+  '.omv-heading-anchor,.omv-remote-image,.omv-mermaid-toolbar,.omv-mermaid-hint,.katex-html,input';
+const BLOCK_TAGS = new Set([
+  'P',
+  'H1',
+  'H2',
+  'H3',
+  'H4',
+  'H5',
+  'H6',
+  'UL',
+  'OL',
+  'BLOCKQUOTE',
+  'TABLE',
+  'PRE',
+  'HR',
+  'DIV',
+  'SECTION',
+  'DETAILS',
+  'FIGURE'
+]);
+
+// Walks the rendered preview (after KaTeX/Mermaid enhancement) into the document model the
+// extension writes as DOCX, so diagrams and math come out exactly as they appear in the preview.
+export async function buildDocxModel(
+  content: HTMLElement
+): Promise<DocxBlock[]> {
+  return convertBlocks(content.childNodes);
+}
+
+async function convertBlocks(
+  nodes: NodeListOf<ChildNode>
+): Promise<DocxBlock[]> {
+  const blocks: DocxBlock[] = [];
+  let pending: ChildNode[] = [];
+  const flushInlines = () => {
+    const content = trimInlines(convertInlines(pending, {}));
+    if (content.length > 0) {
+      blocks.push({ type: 'paragraph', content });
+    }
+    pending = [];
+  };
+
+  for (const node of Array.from(nodes)) {
+    if (node instanceof HTMLElement && BLOCK_TAGS.has(node.tagName)) {
+      flushInlines();
+      blocks.push(...(await convertBlock(node)));
+    } else {
+      pending.push(node);
+    }
+  }
+  flushInlines();
+  return blocks;
+}
+
+async function convertBlock(el: HTMLElement): Promise<DocxBlock[]> {
+  if (el.matches(SKIPPED_SELECTOR)) return [];
+
+  const heading = /^H([1-6])$/.exec(el.tagName);
+  if (heading) {
+    return [
+      {
+        type: 'heading',
+        level: Number(heading[1]),
+        id: el.id || undefined,
+        content: trimInlines(convertInlines(el.childNodes, {}))
+      }
+    ];
+  }
+
+  switch (el.tagName) {
+    case 'P': {
+      const bold = el.classList.contains('markdown-alert-title');
+      const content = trimInlines(convertInlines(el.childNodes, { bold }));
+      return content.length > 0 ? [{ type: 'paragraph', content }] : [];
+    }
+    case 'UL':
+    case 'OL':
+      return [await convertList(el)];
+    case 'BLOCKQUOTE':
+      return [{ type: 'quote', blocks: await convertBlocks(el.childNodes) }];
+    case 'TABLE':
+      return [convertTable(el as HTMLTableElement)];
+    case 'PRE':
+      return [{ type: 'code', text: el.textContent ?? '' }];
+    case 'HR':
+      return [{ type: 'rule' }];
+    default:
+      break;
+  }
+
+  if (el.classList.contains('markdown-alert')) {
+    return [{ type: 'quote', blocks: await convertBlocks(el.childNodes) }];
+  }
+  if (el.classList.contains('omv-math-block')) {
+    const math = convertKatex(el);
+    return math
+      ? [{ type: 'math', math }]
+      : [{ type: 'code', text: el.textContent ?? '' }];
+  }
+  if (el.classList.contains('omv-mermaid')) {
+    return convertMermaid(el);
+  }
+  return convertBlocks(el.childNodes);
+}
+
+async function convertList(el: HTMLElement): Promise<DocxBlock> {
+  const items: DocxListItem[] = [];
+  for (const li of Array.from(el.children)) {
+    if (!(li instanceof HTMLLIElement)) continue;
+    const checkbox = li.querySelector<HTMLInputElement>(
+      ':scope > input.task-list-item-checkbox, :scope > p > input.task-list-item-checkbox'
+    );
+    items.push({
+      checked: checkbox ? checkbox.checked : undefined,
+      blocks: await convertBlocks(li.childNodes)
+    });
+  }
+  const start = Number(el.getAttribute('start') ?? '1');
+  return {
+    type: 'list',
+    ordered: el.tagName === 'OL',
+    start: Number.isInteger(start) && start >= 0 ? start : 1,
+    items
+  };
+}
+
+function convertTable(table: HTMLTableElement): DocxBlock {
+  const rows = Array.from(table.rows).map((row) => ({
+    header:
+      row.parentElement?.tagName === 'THEAD' ||
+      Array.from(row.cells).every((cell) => cell.tagName === 'TH'),
+    cells: Array.from(row.cells).map(
+      (cell): DocxTableCell => ({
+        content: trimInlines(convertInlines(cell.childNodes, {})),
+        align: getCellAlignment(cell)
+      })
+    )
+  }));
+  return { type: 'table', rows };
+}
+
+function getCellAlignment(cell: HTMLTableCellElement): DocxTableCell['align'] {
+  const align = (
+    cell.style.textAlign ||
+    cell.getAttribute('align') ||
+    ''
+  ).toLowerCase();
+  return align === 'left' || align === 'center' || align === 'right'
+    ? align
+    : undefined;
+}
+
+async function convertMermaid(el: HTMLElement): Promise<DocxBlock[]> {
+  const svg = el.querySelector<SVGSVGElement>('svg');
+  if (!svg) {
+    const source = el.querySelector('.omv-mermaid-error-source');
+    return source ? [{ type: 'code', text: source.textContent ?? '' }] : [];
+  }
+  const viewport = svg.closest<HTMLElement>('.omv-mermaid-viewport');
+  const background = viewport
+    ? getComputedStyle(viewport).backgroundColor
+    : undefined;
+  const size = getExportSize(svg);
+  const markup = serializeMermaidSvg(svg, background);
+  try {
+    return [
+      {
+        type: 'diagram',
+        png: await rasterizeSvg(markup, size, DIAGRAM_SCALE, background),
+        svg: markup,
+        width: size.width,
+        height: size.height,
+        alt: svg.getAttribute('aria-roledescription') ?? 'Diagram'
+      }
+    ];
+  } catch {
+    // A diagram the browser refuses to rasterize still leaves a marker in the document.
+    return [
+      { type: 'paragraph', content: [{ type: 'text', text: '[Diagram]' }] }
+    ];
+  }
+}
+
+function convertInlines(
+  nodes: Iterable<ChildNode> | ArrayLike<ChildNode>,
+  format: InlineFormat
+): DocxInline[] {
+  const result: DocxInline[] = [];
+  for (const node of Array.from(nodes)) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const raw = node.textContent ?? '';
+      const text = format.code ? raw : raw.replace(/\s+/g, ' ');
+      if (text) result.push({ type: 'text', text, ...format });
+      continue;
+    }
+    if (!(node instanceof HTMLElement)) continue;
+    if (node.matches(SKIPPED_SELECTOR)) continue;
+
+    if (node.classList.contains('omv-math-inline')) {
+      const math = convertKatex(node);
+      result.push(
+        math
+          ? { type: 'math', math }
+          : { type: 'text', text: node.textContent ?? '', ...format }
+      );
+      continue;
+    }
+
+    switch (node.tagName) {
+      case 'BR':
+        result.push({ type: 'break' });
+        break;
+      case 'IMG':
+        result.push(convertImage(node as HTMLImageElement, format));
+        break;
+      case 'STRONG':
+      case 'B':
+        result.push(
+          ...convertInlines(node.childNodes, { ...format, bold: true })
+        );
+        break;
+      case 'EM':
+      case 'I':
+        result.push(
+          ...convertInlines(node.childNodes, { ...format, italic: true })
+        );
+        break;
+      case 'S':
+      case 'DEL':
+        result.push(
+          ...convertInlines(node.childNodes, { ...format, strike: true })
+        );
+        break;
+      case 'CODE':
+        result.push(
+          ...convertInlines(node.childNodes, { ...format, code: true })
+        );
+        break;
+      case 'A': {
+        const href = node.getAttribute('href') ?? undefined;
+        result.push(
+          ...convertInlines(node.childNodes, {
+            ...format,
+            href: href || format.href
+          })
+        );
+        break;
+      }
+      default:
+        result.push(...convertInlines(node.childNodes, format));
+        break;
+    }
+  }
+  return result;
+}
+
+function convertImage(img: HTMLImageElement, format: InlineFormat): DocxInline {
+  const src = img.getAttribute(OMV_LOCAL_SRC_ATTR);
+  const alt = img.getAttribute('alt') ?? '';
+  if (!src) {
+    return { type: 'text', text: alt ? `[${alt}]` : '[image]', ...format };
+  }
+  // Rendered size keeps width attributes and max-width scaling; hidden images fall back to natural size.
+  const rect = img.getBoundingClientRect();
+  return {
+    type: 'image',
+    src,
+    alt,
+    width: Math.round(rect.width || img.naturalWidth || 1),
+    height: Math.round(rect.height || img.naturalHeight || 1)
+  };
+}
+
+function trimInlines(inlines: DocxInline[]): DocxInline[] {
+  const first = inlines[0];
+  if (first?.type === 'text' && !first.code) {
+    first.text = first.text.trimStart();
+  }
+  const last = inlines[inlines.length - 1];
+  if (last?.type === 'text' && !last.code) {
+    last.text = last.text.trimEnd();
+  }
+  return inlines.filter(
+    (inline) => inline.type !== 'text' || inline.text.length > 0
+  );
+}
+
+function convertKatex(el: HTMLElement): DocxMathNode | undefined {
+  const math = el.querySelector('.katex-mathml math');
+  return math ? convertMathElement(math) : undefined;
+}
+
+function convertMathElement(el: Element): DocxMathNode {
+  const children = Array.from(el.children);
+  const child = (index: number): DocxMathNode => {
+    const node = children[index];
+    return node ? convertMathElement(node) : { type: 'row', children: [] };
+  };
+
+  switch (el.tagName.toLowerCase()) {
+    case 'semantics':
+      return child(0);
+    case 'mi': {
+      const text = el.textContent ?? '';
+      return {
+        type: 'text',
+        text,
+        normal:
+          el.getAttribute('mathvariant') === 'normal' || [...text].length > 1
+      };
+    }
+    case 'mn':
+    case 'mo':
+      return { type: 'text', text: el.textContent ?? '' };
+    case 'mtext':
+    case 'ms':
+      return { type: 'text', text: el.textContent ?? '', normal: true };
+    case 'mspace':
+      return { type: 'row', children: [] };
+    case 'mfrac':
+      return { type: 'frac', num: child(0), den: child(1) };
+    case 'msub':
+      return { type: 'sub', base: child(0), sub: child(1) };
+    case 'msup':
+      return { type: 'sup', base: child(0), sup: child(1) };
+    case 'msubsup':
+      return { type: 'subsup', base: child(0), sub: child(1), sup: child(2) };
+    case 'msqrt':
+      return {
+        type: 'rad',
+        body: { type: 'row', children: children.map(convertMathElement) }
+      };
+    case 'mroot':
+      return { type: 'rad', body: child(0), degree: child(1) };
+    case 'mover':
+      return {
+        type: 'over',
+        base: child(0),
+        over: child(1),
+        accent: el.getAttribute('accent') === 'true'
+      };
+    case 'munder':
+      return { type: 'under', base: child(0), under: child(1) };
+    case 'munderover':
+      return {
+        type: 'over',
+        base: { type: 'under', base: child(0), under: child(1) },
+        over: child(2),
+        accent: false
+      };
+    case 'mtable':
+      return {
+        type: 'matrix',
+        rows: children.map((row) =>
+          Array.from(row.children).map(convertMathElement)
+        )
+      };
+    default:
+      return { type: 'row', children: children.map(convertMathElement) };
+  }
+}
@@ -0,0 +1,135 @@
+export interface LinkPreviewBridge {
+  requestPreview(requestId: number, href: string): void;
+  renderPreview(target: HTMLElement, html: string): Promise<void>;
+  onOpenLink(href: string): void;
+}
+
+const SHOW_DELAY_MS = 400;
+const HIDE_DELAY_MS = 250;
+const VIEWPORT_MARGIN_PX = 8;
+
+// Hover popover for `#heading` and relative Markdown links. The extension renders the target
+// section; answers for a link that is no longer hovered are dropped.
+export class LinkPreviewPopover {
+  private readonly popover: HTMLElement;
+  private anchor: HTMLAnchorElement | undefined;
+  private requestId = 0;
+  private showTimer: number | undefined;
+  private hideTimer: number | undefined;
+
+  constructor(
+    private readonly host: HTMLElement,
+    container: HTMLElement,
+    private readonly bridge: LinkPreviewBridge
+  ) {
+    this.popover = document.createElement('div');
+    this.popover.className = 'omv-link-preview';
+    this.popover.setAttribute('role', 'tooltip');
+    this.popover.hidden = true;
+    container.append(this.popover);
+
+    this.host.addEventListener('mouseover', (event) =>
+      this.handleMouseOver(event)
+    );
+    this.host.addEventListener('mouseout', (event) =>
+      this.handleMouseOut(event)
+    );
+    this.popover.addEventListener('mouseenter', () => this.cancelHide());
+    this.popover.addEventListener('mouseleave', () => this.scheduleHide());
+    // The popover is read-only; clicking it follows the hovered link.
+    this.popover.addEventListener('click', (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      const href = this.anchor?.getAttribute('href');
+      this.hide();
+      if (href) this.bridge.onOpenLink(href);
+    });
+    window.addEventListener('keydown', (event) => {
+      if (event.key === 'Escape') this.hide();
+    });
+  }
+
+  async handleResponse(requestId: number, html?: string): Promise<void> {
+    if (requestId !== this.requestId || !this.anchor) return;
+    if (!html) {
+      this.hide();
+      return;
+    }
+    await this.bridge.renderPreview(this.popover, html);
+    if (requestId !== this.requestId || !this.anchor) return;
+    this.popover.hidden = false;
+    this.popover.scrollTop = 0;
+    this.position(this.anchor);
+  }
+
+  hide(): void {
+    window.clearTimeout(this.showTimer);
+    this.cancelHide();
+    this.requestId += 1;
+    this.anchor = undefined;
+    this.popover.hidden = true;
+    this.popover.innerHTML = '';
+  }
+
+  private handleMouseOver(event: MouseEvent): void {
+    const anchor = (
+      event.target as HTMLElement | null
+    )?.closest<HTMLAnchorElement>('a[href][data-omv-link]');
+    if (!anchor || !this.host.contains(anchor)) return;
+    this.cancelHide();
+    if (anchor === this.anchor) return;
+    const href = anchor.getAttribute('href') ?? '';
+    if (!isInternalMarkdownHref(href)) return;
+
+    this.hide();
+    this.anchor = anchor;
+    const requestId = this.requestId;
+    this.showTimer = window.setTimeout(() => {
+      if (requestId === this.requestId) {
+        this.bridge.requestPreview(requestId, href);
+      }
+    }, SHOW_DELAY_MS);
+  }
+
+  private handleMouseOut(event: MouseEvent): void {
+    if (!this.anchor) return;
+    const next = event.relatedTarget as Node | null;
+    if (next && (this.anchor.contains(next) || this.popover.contains(next))) {
+      return;
+    }
+    this.scheduleHide();
+  }
+
+  private scheduleHide(): void {
+    this.cancelHide();
+    this.hideTimer = window.setTimeout(() => this.hide(), HIDE_DELAY_MS);
+  }
+
+  private cancelHide(): void {
+    window.clearTimeout(this.hideTimer);
+    this.hideTimer = undefined;
+  }
+
+  // Below the link when it fits, otherwise above it; always inside the viewport.
+  private position(anchor: HTMLElement): void {
+    const rect = anchor.getBoundingClientRect();
+    const { offsetWidth: width, offsetHeight: height } = this.popover;
+    const left = Math.max(
+      VIEWPORT_MARGIN_PX,
+      Math.min(rect.left, window.innerWidth - width - VIEWPORT_MARGIN_PX)
+    );
+    const below = rect.bottom + 6;
+    const top =
+      below + height <= window.innerHeight - VIEWPORT_MARGIN_PX
+        ? below
+        : Math.max(VIEWPORT_MARGIN_PX, rect.top - height - 6);
+    this.popover.style.left = `${left}px`;
+    this.popover.style.top = `${top}px`;
+  }
+}
+
+export function isInternalMarkdownHref(href: string): boolean {
+  if (href.startsWith('#')) return href.length > 1;
+  if (/^[a-z][a-z0-9+.-]*:/i.test(href)) return false;
+  return /\.(?:md|markdown)$/i.test(href.split(/[?#]/)[0] ?? '');
+}
@@ -0,0 +1,131 @@
+export type MermaidExportFormat = 'svg' | 'png';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Preview styling reaches Mermaid SVGs through theme variables and stylesheet rules that a standalone
+// file cannot see, so the effective values of these properties are copied onto every element.
+const INLINED_STYLE_PROPERTIES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-opacity',
+  'stroke-width',
+  'stroke-dasharray',
+  'opacity',
+  'color',
+  'background-color',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'font-style',
+  'text-anchor',
+  'dominant-baseline',
+  'text-decoration',
+  'white-space',
+  'line-height'
+] as const;
+
+export function serializeMermaidSvg(
+  svg: SVGSVGElement,
+  background?: string
+): string {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const liveElements = [svg, ...svg.querySelectorAll<Element>('*')];
+  const cloneElements = [clone, ...clone.querySelectorAll<Element>('*')];
+  const rootStyle = getComputedStyle(svg);
+
+  liveElements.forEach((live, index) => {
+    const target = cloneElements[index];
+    if (!target) return;
+    const computed = getComputedStyle(live);
+    const declarations = INLINED_STYLE_PROPERTIES.map((property) => {
+      const value = computed.getPropertyValue(property);
+      return value ? `${property}: ${value};` : '';
+    }).join(' ');
+    const existing = target.getAttribute('style') ?? '';
+    target.setAttribute(
+      'style',
+      `${resolveCssVariables(existing, rootStyle)} ${declarations}`.trim()
+    );
+    target.removeAttribute('nonce');
+  });
+
+  for (const style of clone.querySelectorAll('style')) {
+    style.textContent = resolveCssVariables(style.textContent ?? '', rootStyle);
+  }
+
+  const size = getExportSize(svg);
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(size.width));
+  clone.setAttribute('height', String(size.height));
+  clone.classList.remove('omv-mermaid-svg');
+  if (background) {
+    clone.style.backgroundColor = background;
+  }
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}`;
+}
+
+// Returns base64 PNG bytes (no data: prefix).
+export async function rasterizeSvg(
+  markup: string,
+  size: { width: number; height: number },
+  scale: number,
+  background?: string
+): Promise<string> {
+  const image = new Image();
+  image.decoding = 'async';
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  await image.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(size.width * scale));
+  canvas.height = Math.max(1, Math.round(size.height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is unavailable.');
+  }
+  if (background) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const dataUrl = canvas.toDataURL('image/png');
+  return dataUrl.slice(dataUrl.indexOf(',') + 1);
+}
+
+export function getExportSize(svg: SVGSVGElement): {
+  width: number;
+  height: number;
+} {
+  const viewBox = svg.viewBox.baseVal;
+  if (viewBox && viewBox.width > 0 && viewBox.height > 0) {
+    return {
+      width: Math.ceil(viewBox.width),
+      height: Math.ceil(viewBox.height)
+    };
+  }
+  const rect = svg.getBoundingClientRect();
+  return {
+    width: Math.max(1, Math.ceil(rect.width)),
+    height: Math.max(1, Math.ceil(rect.height))
+  };
+}
+
+function resolveCssVariables(
+  cssText: string,
+  scope: CSSStyleDeclaration
+): string {
+  let resolved = cssText;
+  // Fallbacks can themselves reference variables; a few passes settle nested var() chains.
+  for (let pass = 0; pass < 4 && resolved.includes('var(--'); pass += 1) {
+    resolved = resolved.replace(
+      /var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*(?:\([^()]*\)[^()]*)*))?\)/g,
+      (match, name: string, fallback?: string) => {
+        const value = scope.getPropertyValue(name).trim();
+        if (value) return value;
+        return fallback?.trim() || match;
+      }
+    );
+  }
+  return resolved;
+}
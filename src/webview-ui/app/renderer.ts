@@ -14,12 +14,16 @@ import type {
   TocItem
 } from '../../extension/messaging/protocol';
 import {
-  OMV_EXPORT_SRCSET_ATTR,
-  OMV_IMAGE_BLOCKED_ATTR,
   OMV_LOCAL_SRC_ATTR,
-  OMV_MAX_MB_ATTR,
   OMV_REMOTE_SRC_ATTR
 } from '../../previewImageMetadata';
+import { PREVIEW_SANITIZE_CONFIG } from '../../previewSanitizeConfig';
+import {
+  getExportSize,
+  rasterizeSvg,
+  serializeMermaidSvg
+} from './mermaidExport';
+import type { MermaidExportFormat } from './mermaidExport';
 import { markRemoteImagePreviewHidden } from './remoteImageAttrs';
 import { getEffectiveMermaidThemeKind } from './themeUtils';
 
@@ -32,8 +36,23 @@ export interface RendererBridge {
   onCopyHeadingLink(id: string): void;
   onOpenImage(src: string): void;
   onDownloadRemoteImage(src: string): void;
+  onDownloadAllRemoteImages(): void;
+  onToggleTask(line: number, checked: boolean): void;
+  onRevealSourceRange(startLine: number, endLine: number, file?: string): void;
+  onExportDiagram(
+    format: MermaidExportFormat,
+    data: string,
+    index: number
+  ): void;
+  onDiagramExportError(message: string): void;
 }
 
+type MermaidDiagramExporter = (
+  svg: SVGSVGElement,
+  format: MermaidExportFormat,
+  scale: number
+) => void;
+
 interface MermaidRecoveryAttempt {
   code: string;
   strategy: string;
@@ -50,6 +69,7 @@ export class PreviewRenderer {
   private readonly styledRoot: HTMLElement;
   private readonly frontmatter: HTMLDetailsElement;
   private readonly banner: HTMLElement;
+  private readonly remoteImagesBanner: HTMLElement;
   private mermaidInitialized = false;
   private mermaidThemeSignature = '';
 
@@ -61,6 +81,11 @@ export class PreviewRenderer {
     this.banner.className = 'omv-status-banner';
     this.banner.hidden = true;
 
+    this.remoteImagesBanner = document.createElement('div');
+    this.remoteImagesBanner.className =
+      'omv-status-banner omv-remote-images-banner';
+    this.remoteImagesBanner.hidden = true;
+
     this.frontmatter = document.createElement('details');
     this.frontmatter.className = 'omv-frontmatter';
     this.frontmatter.hidden = true;
@@ -74,8 +99,16 @@ export class PreviewRenderer {
 
     this.styledRoot.append(this.content);
 
-    this.host.append(this.banner, this.frontmatter, this.styledRoot);
+    this.host.append(
+      this.banner,
+      this.remoteImagesBanner,
+      this.frontmatter,
+      this.styledRoot
+    );
     this.host.addEventListener('click', (event) => this.handleClick(event));
+    this.host.addEventListener('dblclick', (event) =>
+      this.handleDoubleClick(event)
+    );
   }
 
   getContentElement(): HTMLElement {
@@ -100,33 +133,15 @@ export class PreviewRenderer {
     this.renderFrontmatter(payload);
     const tableAlignments = extractTableAlignments(payload.html);
 
-    // Render-time sanitization happens in the webview (same trust boundary as actual DOM insertion).
-    const sanitized = payload.settings.sanitizeHtml
-      ? DOMPurify.sanitize(payload.html, {
-          USE_PROFILES: { html: true },
-          ADD_ATTR: [
-            'data-mermaid',
-            'data-math',
-            'data-omv-link',
-            OMV_LOCAL_SRC_ATTR,
-            OMV_EXPORT_SRCSET_ATTR,
-            OMV_REMOTE_SRC_ATTR,
-            OMV_IMAGE_BLOCKED_ATTR,
-            OMV_MAX_MB_ATTR,
-            'data-source-line',
-            'data-source-line-end',
-            'data-align',
-            'align'
-          ],
-          FORBID_TAGS: ['script', 'iframe', 'object', 'embed', 'form']
-        })
-      : payload.html;
-
-    this.content.innerHTML = String(sanitized);
+    this.content.innerHTML = sanitizePreviewHtml(
+      payload.html,
+      payload.settings.sanitizeHtml
+    );
     applyContentTheme(this.styledRoot);
     applyTableAlignments(this.content, tableAlignments);
     this.decorateHeadings();
     this.decorateImageActions();
+    this.decorateTaskCheckboxes();
     this.renderBanner(payload.settings.sanitizeHtml);
 
     Prism.highlightAllUnder(this.content);
@@ -136,6 +151,38 @@ export class PreviewRenderer {
     await this.enhanceMermaid(payload.settings.enableMermaid);
   }
 
+  getThemeRoot(): HTMLElement {
+    return this.styledRoot;
+  }
+
+  // Fills a hover popover with rendered Markdown: sanitized, highlighted and typeset like the
+  // preview, but read-only, without ids or source lines that would clash with the document.
+  async renderLinkPreview(
+    target: HTMLElement,
+    html: string,
+    settings: RenderPayload['settings']
+  ): Promise<void> {
+    const tableAlignments = extractTableAlignments(html);
+    target.innerHTML = sanitizePreviewHtml(html, settings.sanitizeHtml);
+    for (const element of target.querySelectorAll<HTMLElement>(
+      '[id],[data-source-line],[data-omv-link]'
+    )) {
+      element.removeAttribute('id');
+      element.removeAttribute('data-source-line');
+      element.removeAttribute('data-source-line-end');
+      element.removeAttribute('data-source-file');
+      element.removeAttribute('data-omv-link');
+    }
+    for (const checkbox of target.querySelectorAll<HTMLInputElement>(
+      'input.task-list-item-checkbox'
+    )) {
+      checkbox.disabled = true;
+    }
+    applyTableAlignments(target, tableAlignments);
+    Prism.highlightAllUnder(target);
+    await this.enhanceMath(settings.enableMath, target);
+  }
+
   setActiveHeading(id?: string): void {
     this.activeHeadingId = id;
   }
@@ -204,6 +251,17 @@ export class PreviewRenderer {
     }
   }
 
+  private decorateTaskCheckboxes(): void {
+    const checkboxes = this.content.querySelectorAll<HTMLInputElement>(
+      // Tasks from included files stay read-only; toggles only write back to this document.
+      'li.task-list-item[data-source-line]:not([data-source-file]) > input.task-list-item-checkbox'
+    );
+    for (const checkbox of checkboxes) {
+      checkbox.disabled = false;
+      checkbox.title = 'Toggle task in source';
+    }
+  }
+
   private decorateImageActions(): void {
     const imgs = this.content.querySelectorAll<HTMLImageElement>(
       `img[${OMV_LOCAL_SRC_ATTR}]`
@@ -246,12 +304,35 @@ export class PreviewRenderer {
       }
       img.insertAdjacentElement('afterend', block);
     }
+    this.renderRemoteImagesBanner(remoteImgs.length);
   }
 
-  private async enhanceMath(enableMath: boolean): Promise<void> {
-    const nodes = [
-      ...this.content.querySelectorAll<HTMLElement>('[data-math]')
-    ];
+  private renderRemoteImagesBanner(blockedCount: number): void {
+    if (blockedCount < 2) {
+      this.remoteImagesBanner.hidden = true;
+      this.remoteImagesBanner.replaceChildren();
+      return;
+    }
+    const text = document.createElement('span');
+    text.textContent = `${blockedCount} remote images are blocked by settings.`;
+    const btn = document.createElement('button');
+    btn.type = 'button';
+    btn.className = 'omv-remote-image-btn';
+    btn.textContent = 'Download All';
+    btn.addEventListener('click', () => {
+      // Re-enabled by the re-render that follows the download.
+      btn.disabled = true;
+      this.bridge.onDownloadAllRemoteImages();
+    });
+    this.remoteImagesBanner.replaceChildren(text, btn);
+    this.remoteImagesBanner.hidden = false;
+  }
+
+  private async enhanceMath(
+    enableMath: boolean,
+    root: HTMLElement = this.content
+  ): Promise<void> {
+    const nodes = [...root.querySelectorAll<HTMLElement>('[data-math]')];
     if (!enableMath) {
       for (const node of nodes) {
         const expr = decodeBase64(node.dataset.math ?? '');
@@ -352,6 +433,10 @@ export class PreviewRenderer {
       return { node, code, diagramType };
     });
 
+    const exportDiagram: MermaidDiagramExporter = (svg, format, scale) => {
+      void this.exportMermaidDiagram(svg, format, scale);
+    };
+
     let index = 0;
     for (const job of jobs) {
       const { node, code, diagramType } = job;
@@ -360,7 +445,9 @@ export class PreviewRenderer {
         const rendered = await mermaid.render(id, code);
         node.removeAttribute('data-omv-mermaid-recovered');
         node.removeAttribute('data-omv-mermaid-recovery-strategy');
-        node.replaceChildren(buildMermaidSvgNode(rendered.svg, diagramType));
+        node.replaceChildren(
+          buildMermaidSvgNode(rendered.svg, diagramType, exportDiagram)
+        );
       } catch (error) {
         const recovery = buildMermaidRecoveryAttempt(code, diagramType);
         if (recovery) {
@@ -375,7 +462,7 @@ export class PreviewRenderer {
               recovery.strategy
             );
             node.replaceChildren(
-              buildMermaidSvgNode(recovered.svg, diagramType)
+              buildMermaidSvgNode(recovered.svg, diagramType, exportDiagram)
             );
             continue;
           } catch (recoveryError) {
@@ -401,6 +488,61 @@ export class PreviewRenderer {
     }
   }
 
+  private async exportMermaidDiagram(
+    svg: SVGSVGElement,
+    format: MermaidExportFormat,
+    scale: number
+  ): Promise<void> {
+    const container = svg.closest<HTMLElement>('.omv-mermaid');
+    const index = container
+      ? [...this.content.querySelectorAll('.omv-mermaid')].indexOf(container)
+      : -1;
+    const viewport = svg.closest<HTMLElement>('.omv-mermaid-viewport');
+    const background = viewport
+      ? getComputedStyle(viewport).backgroundColor
+      : undefined;
+    try {
+      const markup = serializeMermaidSvg(svg, background);
+      const data =
+        format === 'svg'
+          ? markup
+          : await rasterizeSvg(markup, getExportSize(svg), scale, background);
+      this.bridge.onExportDiagram(format, data, Math.max(0, index));
+    } catch (error) {
+      this.bridge.onDiagramExportError(
+        `Diagram export failed: ${getErrorMessage(error)}`
+      );
+    }
+  }
+
+  private handleDoubleClick(event: MouseEvent): void {
+    const target = event.target as HTMLElement | null;
+    if (!target || !this.content.contains(target)) return;
+    // Controls and the Mermaid viewer (double-click to fit) keep their own double-click behavior.
+    if (
+      target.closest(
+        'a,button,input,select,textarea,.omv-mermaid-viewport,.omv-mermaid-toolbar'
+      )
+    ) {
+      return;
+    }
+
+    const block = target.closest<HTMLElement>('[data-source-line]');
+    if (!block || !this.content.contains(block)) return;
+    const startLine = Number(block.dataset.sourceLine);
+    if (!Number.isInteger(startLine) || startLine < 0) return;
+    const endLine = Number(block.dataset.sourceLineEnd);
+    event.preventDefault();
+    window.getSelection()?.removeAllRanges();
+    this.bridge.onRevealSourceRange(
+      startLine,
+      Number.isInteger(endLine) && endLine > startLine
+        ? endLine
+        : startLine + 1,
+      block.dataset.sourceFile
+    );
+  }
+
   private handleClick(event: MouseEvent): void {
     const target = event.target as HTMLElement | null;
     if (!target) return;
@@ -417,6 +559,21 @@ export class PreviewRenderer {
       return;
     }
 
+    if (
+      target instanceof HTMLInputElement &&
+      target.classList.contains('task-list-item-checkbox')
+    ) {
+      const line = Number(
+        target.closest<HTMLElement>('li.task-list-item')?.dataset.sourceLine
+      );
+      // The source document is the truth: keep the old state until the re-render arrives.
+      event.preventDefault();
+      if (Number.isInteger(line) && line >= 0) {
+        this.bridge.onToggleTask(line, target.checked);
+      }
+      return;
+    }
+
     const heading = target.closest<HTMLElement>('h1,h2,h3,h4,h5,h6');
     if (heading && heading.id && target.tagName !== 'A') {
       this.bridge.onHeadingSelect(heading.id);
@@ -896,7 +1053,11 @@ function parseHexColor(
   return [r, g, b];
 }
 
-function buildMermaidSvgNode(svgMarkup: string, diagramType?: string): Node {
+function buildMermaidSvgNode(
+  svgMarkup: string,
+  diagramType?: string,
+  exportDiagram?: MermaidDiagramExporter
+): Node {
   const wrapper = document.createElement('div');
   wrapper.innerHTML = svgMarkup;
 
@@ -944,7 +1105,7 @@ function buildMermaidSvgNode(svgMarkup: string, diagramType?: string): Node {
       normalizePieLegendColors(svg);
     }
     styleMermaidEdgeLabelBackgrounds(svg, diagramType);
-    return createMermaidInteractiveViewer(svg);
+    return createMermaidInteractiveViewer(svg, exportDiagram);
   }
 
   return wrapper.firstElementChild ?? document.createTextNode(svgMarkup);
@@ -1203,7 +1364,10 @@ function getErrorMessage(error: unknown): string {
   }
 }
 
-function createMermaidInteractiveViewer(svg: SVGSVGElement): HTMLElement {
+function createMermaidInteractiveViewer(
+  svg: SVGSVGElement,
+  exportDiagram?: MermaidDiagramExporter
+): HTMLElement {
   const root = document.createElement('div');
   root.className = 'omv-mermaid-interactive';
 
@@ -1307,6 +1471,23 @@ function createMermaidInteractiveViewer(svg: SVGSVGElement): HTMLElement {
     button('100%', 'Reset to original size', setOneToOne),
     hint
   );
+  if (exportDiagram) {
+    const scaleSelect = document.createElement('select');
+    scaleSelect.className = 'omv-mermaid-select';
+    scaleSelect.title = 'PNG export scale';
+    for (const scale of [1, 2, 3, 4]) {
+      scaleSelect.append(
+        new Option(`${scale}×`, String(scale), false, scale === 2)
+      );
+    }
+    toolbar.append(
+      button('SVG', 'Save diagram as SVG', () => exportDiagram(svg, 'svg', 1)),
+      button('PNG', 'Save diagram as PNG at the selected scale', () =>
+        exportDiagram(svg, 'png', Number(scaleSelect.value) || 2)
+      ),
+      scaleSelect
+    );
+  }
 
   viewport.addEventListener(
     'wheel',
@@ -1549,6 +1730,12 @@ function nextTick(): Promise<void> {
   });
 }
 
+// Render-time sanitization happens in the webview (same trust boundary as actual DOM insertion).
+function sanitizePreviewHtml(html: string, sanitizeHtml: boolean): string {
+  if (!sanitizeHtml) return html;
+  return String(DOMPurify.sanitize(html, PREVIEW_SANITIZE_CONFIG));
+}
+
 type TableAlignment = Array<'left' | 'center' | 'right' | undefined>;
 
 function extractTableAlignments(rawHtml: string): TableAlignment[] {
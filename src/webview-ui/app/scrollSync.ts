@@ -35,7 +35,7 @@ export class ScrollSyncController {
       subtree: true,
       childList: true,
       attributes: true,
-      attributeFilter: ['data-source-line', 'data-source-line-end', 'style', 'class']
+      attributeFilter: ['data-source-line', 'data-source-line-end', 'data-source-file', 'style', 'class']
     });
     window.addEventListener('resize', () => {
       this.markerCacheDirty = true;
@@ -51,6 +51,14 @@ export class ScrollSyncController {
     );
   }
 
+  getScrollPosition(): { percent: number; line?: number } {
+    const max = Math.max(1, this.scroller.scrollHeight - this.scroller.clientHeight);
+    return {
+      percent: Math.min(1, Math.max(0, this.scroller.scrollTop / max)),
+      line: this.estimateLineAtScrollTop(this.scroller.scrollTop)
+    };
+  }
+
   scrollHeadingIntoView(id: string): void {
     const el = this.scroller.querySelector<HTMLElement>(`#${CSS.escape(id)}`);
     if (!el) return;
@@ -71,7 +79,10 @@ export class ScrollSyncController {
 
   private getMarkers(): Array<{ el: HTMLElement; line: number; endLine?: number }> {
     if (!this.markerCache || this.markerCacheDirty) {
-      this.markerCache = Array.from(this.markerRoot.querySelectorAll<HTMLElement>('[data-source-line]'))
+      // Blocks from included files carry lines of those files, not of the synced editor.
+      this.markerCache = Array.from(
+        this.markerRoot.querySelectorAll<HTMLElement>('[data-source-line]:not([data-source-file])')
+      )
         .map((el) => {
           const line = Number.parseInt(el.getAttribute('data-source-line') ?? '', 10);
           const endLine = Number.parseInt(el.getAttribute('data-source-line-end') ?? '', 10);
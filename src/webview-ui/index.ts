@@ -8,6 +8,9 @@ import type {
 } from '../extension/messaging/protocol';
 import { parseExtensionMessage } from '../extension/messaging/validate';
 import { OMV_REMOTE_SRC_ATTR } from '../previewImageMetadata';
+import { BacklinksView } from './app/backlinks';
+import { buildDocxModel } from './app/docxModel';
+import { LinkPreviewPopover } from './app/linkPreview';
 import { PreviewRenderer } from './app/renderer';
 import { restoreRemoteImageExportVisibility } from './app/remoteImageAttrs';
 import { PreviewSearch } from './app/search';
@@ -22,6 +25,9 @@ declare function acquireVsCodeApi(): {
 };
 
 interface ViewState {
+  documentUri?: string;
+  scrollPercent?: number;
+  scrollLine?: number;
   activeHeadingId?: string;
   searchQuery?: string;
   lastRenderRequestId?: number;
@@ -64,7 +70,10 @@ root.innerHTML = `
     <button type="button" data-action="clear">Clear</button>
   </div>
   <div class="omv-main" id="omv-main">
-    <aside class="omv-toc" id="omv-toc" aria-label="Table of contents"></aside>
+    <aside class="omv-toc" id="omv-toc" aria-label="Table of contents">
+      <nav class="omv-toc-contents"></nav>
+      <section class="omv-backlinks" aria-label="Backlinks" hidden></section>
+    </aside>
     <div class="omv-preview-scroll">
       <article class="omv-preview"></article>
     </div>
@@ -76,6 +85,8 @@ const searchInput = root.querySelector<HTMLInputElement>(
 );
 const meta = root.querySelector<HTMLElement>('.omv-meta');
 const tocEl = root.querySelector<HTMLElement>('.omv-toc');
+const tocContentsEl = root.querySelector<HTMLElement>('.omv-toc-contents');
+const backlinksEl = root.querySelector<HTMLElement>('.omv-backlinks');
 const article = root.querySelector<HTMLElement>('.omv-preview');
 const scroller = root.querySelector<HTMLElement>('.omv-preview-scroll');
 const searchToolbar = root.querySelector<HTMLElement>('#omv-search-toolbar');
@@ -85,6 +96,8 @@ if (
   !searchInput ||
   !meta ||
   !tocEl ||
+  !tocContentsEl ||
+  !backlinksEl ||
   !article ||
   !scroller ||
   !searchToolbar ||
@@ -97,6 +110,9 @@ const state = (vscode.getState() as ViewState | undefined) ?? {};
 const boot = getBootData();
 
 let lastRender: RenderPayload | undefined;
+// A revived panel restores its saved scroll position once, on the first render of the same document.
+let pendingScrollRestore = state.scrollPercent !== undefined;
+let scrollPersistTimer: number | undefined;
 let searchUiVisible =
   state.searchUiVisible ?? boot.initialUiState?.searchUiVisible ?? true;
 let tocVisible = state.tocVisible ?? boot.initialUiState?.tocVisible ?? true;
@@ -120,6 +136,27 @@ const renderer = new PreviewRenderer(article, {
   },
   onDownloadRemoteImage(src) {
     vscode.postMessage({ type: 'downloadRemoteImage', src });
+  },
+  onDownloadAllRemoteImages() {
+    vscode.postMessage({ type: 'downloadAllRemoteImages' });
+  },
+  onToggleTask(line, checked) {
+    if (!lastRender) return;
+    vscode.postMessage({
+      type: 'toggleTask',
+      line,
+      checked,
+      version: lastRender.version
+    });
+  },
+  onRevealSourceRange(startLine, endLine, file) {
+    vscode.postMessage({ type: 'revealSourceRange', startLine, endLine, file });
+  },
+  onExportDiagram(format, data, index) {
+    vscode.postMessage({ type: 'exportDiagram', format, data, index });
+  },
+  onDiagramExportError(message) {
+    meta.textContent = message;
   }
 });
 
@@ -141,7 +178,7 @@ const scrollSync = new ScrollSyncController(
   }
 );
 
-const toc = new TocView(tocEl, (item) => {
+const toc = new TocView(tocContentsEl, (item) => {
   renderer.setActiveHeading(item.id);
   toc.render(renderer.getToc(), item.id);
   scrollSync.scrollHeadingIntoView(item.id);
@@ -149,6 +186,31 @@ const toc = new TocView(tocEl, (item) => {
   persistState();
 });
 
+const linkPreview = new LinkPreviewPopover(
+  renderer.getContentElement(),
+  renderer.getThemeRoot(),
+  {
+    requestPreview(requestId, href) {
+      vscode.postMessage({ type: 'requestLinkPreview', requestId, href });
+    },
+    async renderPreview(target, html) {
+      if (!lastRender) return;
+      await renderer.renderLinkPreview(target, html, lastRender.settings);
+    },
+    onOpenLink(href) {
+      vscode.postMessage({
+        type: 'openLink',
+        href,
+        kindHint: href.startsWith('#') ? 'heading' : 'relative'
+      });
+    }
+  }
+);
+
+const backlinks = new BacklinksView(backlinksEl, (item) => {
+  vscode.postMessage({ type: 'openBacklink', uri: item.uri, line: item.line });
+});
+
 initTheme(() => {
   if (lastRender) {
     void renderer.refreshTheme(lastRender.settings);
@@ -157,6 +219,20 @@ initTheme(() => {
 
 searchInput.value = state.searchQuery ?? '';
 applyUiVisibility();
+scroller.addEventListener(
+  'scroll',
+  () => {
+    linkPreview.hide();
+    window.clearTimeout(scrollPersistTimer);
+    scrollPersistTimer = window.setTimeout(() => {
+      const position = scrollSync.getScrollPosition();
+      state.scrollPercent = position.percent;
+      state.scrollLine = position.line;
+      persistState();
+    }, 200);
+  },
+  { passive: true }
+);
 searchInput.addEventListener('input', () => {
   const query = searchInput.value;
   search.query(query);
@@ -256,19 +332,40 @@ async function handleMessage(
       break;
     }
     case 'render': {
+      if (lastRender?.documentUri !== message.documentUri) {
+        backlinks.render(undefined);
+      }
       lastRender = message;
+      linkPreview.hide();
       await renderer.render(message);
       toc.render(message.toc, state.activeHeadingId);
       if (searchInput.value.trim()) {
         search.query(searchInput.value);
       }
-      if (state.activeHeadingId) {
+      if (pendingScrollRestore && state.documentUri === message.documentUri) {
+        scrollSync.applyEditorScroll(
+          state.scrollPercent ?? 0,
+          state.scrollLine
+        );
+      } else if (state.activeHeadingId) {
         scrollSync.scrollHeadingIntoView(state.activeHeadingId);
       }
+      pendingScrollRestore = false;
+      state.documentUri = message.documentUri;
       state.lastRenderRequestId = message.requestId;
       persistState();
       break;
     }
+    case 'backlinks': {
+      if (message.documentUri === lastRender?.documentUri) {
+        backlinks.render(message.items);
+      }
+      break;
+    }
+    case 'linkPreview': {
+      await linkPreview.handleResponse(message.requestId, message.html);
+      break;
+    }
     case 'editorScroll': {
       scrollSync.applyEditorScroll(message.percent, message.line);
       break;
@@ -318,6 +415,15 @@ async function handleMessage(
       });
       break;
     }
+    case 'requestDocxSnapshot': {
+      const blocks = await buildDocxModel(renderer.getContentElement());
+      vscode.postMessage({
+        type: 'docxSnapshot',
+        requestId: message.requestId,
+        blocks
+      });
+      break;
+    }
   }
 }
 
@@ -459,6 +565,14 @@ function buildRenderedHtmlExportSnapshot(): {
     restoreRemoteImageExportVisibility(img);
   }
 
+  // Exports stay read-only; only the live preview writes task toggles back.
+  for (const checkbox of clone.querySelectorAll<HTMLInputElement>(
+    'input.task-list-item-checkbox'
+  )) {
+    checkbox.setAttribute('disabled', '');
+    checkbox.removeAttribute('title');
+  }
+
   // Remove preview-only state attrs.
   for (const el of clone.querySelectorAll<HTMLElement>(
     '[aria-current],[aria-busy]'
@@ -0,0 +1,193 @@
+import { inflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+
+import { buildDocx } from '../../src/extension/preview/docx/docxWriter';
+import { crc32 } from '../../src/extension/preview/docx/zip';
+import type { DocxBlock } from '../../src/extension/messaging/protocol';
+
+function readZip(archive: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+  let offset = 0;
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const method = archive.readUInt16LE(offset + 8);
+    const crc = archive.readUInt32LE(offset + 14);
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const name = archive.toString(
+      'utf8',
+      offset + 30,
+      offset + 30 + nameLength
+    );
+    const start = offset + 30 + nameLength;
+    const body = archive.subarray(start, start + compressedSize);
+    const data = method === 8 ? inflateRawSync(body) : body;
+    expect(crc32(data)).toBe(crc);
+    entries.set(name, data);
+    offset = start + compressedSize;
+  }
+  expect(archive.readUInt32LE(offset)).toBe(0x02014b50);
+  return entries;
+}
+
+const PNG_BYTES = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+describe('docxWriter', () => {
+  it('packages a readable WordprocessingML document', async () => {
+    const blocks: DocxBlock[] = [
+      {
+        type: 'heading',
+        level: 1,
+        id: 'intro',
+        content: [{ type: 'text', text: 'Intro & Setup' }]
+      },
+      {
+        type: 'paragraph',
+        content: [
+          { type: 'text', text: 'See ' },
+          { type: 'text', text: 'docs', href: 'https://example.com/docs' },
+          { type: 'text', text: ' and ' },
+          { type: 'text', text: 'the intro', href: '#intro' },
+          { type: 'text', text: ' then run ' },
+          { type: 'text', text: 'npm test', code: true }
+        ]
+      },
+      {
+        type: 'list',
+        ordered: true,
+        start: 3,
+        items: [
+          {
+            checked: false,
+            blocks: [
+              { type: 'paragraph', content: [{ type: 'text', text: 'todo' }] }
+            ]
+          }
+        ]
+      },
+      {
+        type: 'math',
+        math: {
+          type: 'frac',
+          num: { type: 'text', text: 'a' },
+          den: {
+            type: 'sup',
+            base: { type: 'text', text: 'b' },
+            sup: { type: 'text', text: '2' }
+          }
+        }
+      },
+      {
+        type: 'table',
+        rows: [
+          {
+            header: true,
+            cells: [
+              { content: [{ type: 'text', text: 'Name' }], align: 'right' }
+            ]
+          },
+          { header: false, cells: [{ content: [{ type: 'text', text: 'x' }] }] }
+        ]
+      },
+      { type: 'code', text: 'a\nb\n' }
+    ];
+
+    const archive = await buildDocx(blocks, {
+      title: 'Guide',
+      loadImage: async () => undefined
+    });
+    const entries = readZip(archive);
+
+    expect([...entries.keys()]).toEqual(
+      expect.arrayContaining([
+        '[Content_Types].xml',
+        '_rels/.rels',
+        'word/document.xml',
+        'word/styles.xml',
+        'word/numbering.xml',
+        'word/_rels/document.xml.rels',
+        'docProps/core.xml'
+      ])
+    );
+    const document = entries.get('word/document.xml')?.toString('utf8') ?? '';
+    expect(document).toContain('<w:pStyle w:val="Heading1"/>');
+    expect(document).toContain('Intro &amp; Setup');
+    expect(document).toMatch(
+      /<w:bookmarkStart w:id="0" w:name="(_omv_intro_0)"\/>.*<w:hyperlink w:anchor="\1">/
+    );
+    expect(document).toMatch(/<w:hyperlink r:id="rId3">/);
+    expect(document).toContain('<w:rStyle w:val="InlineCode"/>');
+    expect(document).toContain('☐ ');
+    expect(document).toContain(
+      '<m:f><m:num><m:r><m:t xml:space="preserve">a</m:t></m:r></m:num><m:den><m:sSup>'
+    );
+    expect(document).toContain('<w:tblHeader/>');
+    expect(document).toContain('<w:jc w:val="right"/>');
+    expect(document).toContain(
+      '<w:t xml:space="preserve">a</w:t></w:r><w:r><w:br/></w:r>'
+    );
+
+    const rels =
+      entries.get('word/_rels/document.xml.rels')?.toString('utf8') ?? '';
+    expect(rels).toContain('Target="https://example.com/docs"');
+    expect(entries.get('word/numbering.xml')?.toString('utf8')).toContain(
+      '<w:startOverride w:val="3"/>'
+    );
+    expect(entries.get('docProps/core.xml')?.toString('utf8')).toContain(
+      '<dc:title>Guide</dc:title>'
+    );
+  });
+
+  it('embeds images and diagrams, falling back to alt text', async () => {
+    const archive = await buildDocx(
+      [
+        {
+          type: 'paragraph',
+          content: [
+            {
+              type: 'image',
+              src: 'file:///docs/pic.png',
+              alt: 'pic',
+              width: 2000,
+              height: 1000
+            },
+            {
+              type: 'image',
+              src: 'file:///docs/icon.svg',
+              alt: 'icon',
+              width: 16,
+              height: 16
+            }
+          ]
+        },
+        {
+          type: 'diagram',
+          png: PNG_BYTES.toString('base64'),
+          svg: '<svg xmlns="http://www.w3.org/2000/svg"/>',
+          width: 100,
+          height: 50,
+          alt: 'flowchart'
+        }
+      ],
+      {
+        loadImage: async (src) =>
+          src.endsWith('.png')
+            ? { data: PNG_BYTES, extension: 'png' }
+            : undefined
+      }
+    );
+    const entries = readZip(archive);
+
+    expect(entries.get('word/media/image1.png')).toEqual(PNG_BYTES);
+    expect(entries.get('word/media/image3.svg')?.toString('utf8')).toContain(
+      '<svg'
+    );
+    const document = entries.get('word/document.xml')?.toString('utf8') ?? '';
+    // 2000px is wider than the page, so the drawing is scaled to 6.5in keeping its aspect ratio.
+    expect(document).toContain('<wp:extent cx="5943600" cy="2971800"/>');
+    expect(document).toContain('[icon]');
+    expect(document).toContain('<asvg:svgBlip r:embed="rId5"/>');
+  });
+});
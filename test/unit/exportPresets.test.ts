@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  expandExportOutputPattern,
+  getExportOutputVariables,
+  mergeExportPresetOptions,
+  readExportPresets,
+  readFrontmatterExportOverrides
+} from '../../src/extension/preview/exportPresets';
+
+describe('exportPresets', () => {
+  it('reads presets from settings and reports invalid entries', () => {
+    const { presets, invalid } = readExportPresets({
+      print: { format: 'pdf', pdf: { margin: '20mm' } },
+      handout: { format: 'html', theme: 'light', embedImages: true },
+      broken: { format: 'epub' },
+      typo: { embedImage: true }
+    });
+    expect(presets.map((preset) => preset.name)).toEqual(['handout', 'print']);
+    expect(presets[1]?.options).toEqual({
+      format: 'pdf',
+      pdf: { margin: '20mm' }
+    });
+    expect(invalid).toEqual(['broken', 'typo']);
+    expect(readExportPresets(undefined).presets).toEqual([]);
+  });
+
+  it('reads frontmatter overrides and merges them over a preset', () => {
+    expect(readFrontmatterExportOverrides({ export: 'print' })).toEqual({
+      preset: 'print',
+      options: {}
+    });
+    expect(readFrontmatterExportOverrides({ title: 'Doc' })).toBeUndefined();
+
+    const overrides = readFrontmatterExportOverrides({
+      export: {
+        preset: 'print',
+        output: 'out/${fileBasenameNoExtension}',
+        pdf: { orientation: 'landscape' }
+      }
+    });
+    expect(
+      mergeExportPresetOptions(
+        { format: 'pdf', pdf: { margin: '20mm' } },
+        overrides?.options ?? {}
+      )
+    ).toEqual({
+      format: 'pdf',
+      output: 'out/${fileBasenameNoExtension}',
+      pdf: { margin: '20mm', orientation: 'landscape' }
+    });
+
+    expect(() =>
+      readFrontmatterExportOverrides({ export: { theme: 'sepia' } })
+    ).toThrow(/Invalid export frontmatter: theme/);
+  });
+
+  it('expands output patterns inside the workspace folder', () => {
+    const variables = getExportOutputVariables({
+      documentPath: '/workspace/docs/guide/setup.md',
+      workspaceFolderPath: '/workspace',
+      preset: 'print',
+      format: 'pdf',
+      date: new Date(2024, 0, 5)
+    });
+    expect(
+      expandExportOutputPattern(
+        'exports/${relativeFileDirname}/${fileBasenameNoExtension}-${date}',
+        variables,
+        'pdf'
+      )
+    ).toBe('exports/docs/guide/setup-2024-01-05.pdf');
+    expect(
+      expandExportOutputPattern(
+        '${fileBasenameNoExtension}.pdf',
+        variables,
+        'pdf'
+      )
+    ).toBe('setup.pdf');
+
+    expect(() =>
+      expandExportOutputPattern('../out/${fileBasename}', variables, 'pdf')
+    ).toThrow(/inside the workspace folder/);
+    expect(() =>
+      expandExportOutputPattern('/tmp/${fileBasename}', variables, 'pdf')
+    ).toThrow(/inside the workspace folder/);
+    expect(() =>
+      expandExportOutputPattern('${workspaceFolder}/x', variables, 'pdf')
+    ).toThrow(/Unknown variable \$\{workspaceFolder\}/);
+  });
+});
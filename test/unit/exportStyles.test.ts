@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  collectUsedKatexFamilies,
+  subsetKatexFonts
+} from '../../src/extension/preview/exportStyles';
+
+const fontFace = (family: string, weight = 400) => `@font-face {
+  font-display: block;
+  font-family: ${family};
+  font-style: normal;
+  font-weight: ${weight};
+  src:
+    url(data:font/woff2;base64,${family}W2) format("woff2"),
+    url(data:font/woff;base64,${family}W1) format("woff"),
+    url(data:font/ttf;base64,${family}TT) format("truetype");
+}`;
+
+const css = [
+  fontFace('KaTeX_Main'),
+  fontFace('KaTeX_Main', 700),
+  fontFace('KaTeX_AMS'),
+  fontFace('KaTeX_Size2'),
+  '@font-face { font-family: Custom; src: url(custom.woff2) format("woff2"); }',
+  '/* .katex .unused */',
+  '.katex { font: normal 1.21em KaTeX_Main, Times New Roman, serif; }',
+  '.katex .amsrm, .katex .mathbb { font-family: KaTeX_AMS; }',
+  '.katex .delimsizing.size2 { font-family: KaTeX_Size2; }',
+  'p { color: red; }'
+].join('\n');
+
+describe('exportStyles', () => {
+  it('finds the KaTeX families a document uses from the stylesheet selectors', () => {
+    const html =
+      '<span class="katex"><span class="mord mathbb">R</span><span class="size2">(</span></span>';
+    expect([...collectUsedKatexFamilies(css, html)].sort()).toEqual([
+      'KaTeX_AMS',
+      'KaTeX_Main'
+    ]);
+    expect(collectUsedKatexFamilies(css, '<p class="mathbb"></p>').size).toBe(
+      0
+    );
+  });
+
+  it('keeps only used KaTeX font faces as WOFF2 and leaves other rules alone', () => {
+    const subset = subsetKatexFonts(
+      css,
+      '<span class="katex"><span class="mord">x</span></span>'
+    );
+    expect(subset).toContain(
+      '@font-face{font-display:block;font-family:KaTeX_Main;font-style:normal;font-weight:700;src:url(data:font/woff2;base64,KaTeX_MainW2) format("woff2")}'
+    );
+    expect(subset).not.toContain('KaTeX_MainW1');
+    expect(subset).not.toContain('KaTeX_AMSW2');
+    expect(subset).not.toContain('KaTeX_Size2W2');
+    expect(subset).toContain('font-family: Custom;');
+    expect(subset).toContain('.katex .amsrm, .katex .mathbb');
+
+    expect(subsetKatexFonts(css, '<p>No math</p>')).not.toContain('font/woff2');
+  });
+});
@@ -0,0 +1,136 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+let getFolderExportTarget: (...args: any[]) => any;
+let renderStaticEnhancements: (
+  html: string,
+  options: { enableMath: boolean }
+) => string;
+let rewriteExportedDocumentLinks: (...args: any[]) => string;
+let sanitizeExportHtml: (html: string) => Promise<string>;
+let renderMarkdown: (...args: any[]) => { html: string };
+let Uri: any;
+
+beforeAll(async () => {
+  const mock = await import('./helpers/vscodeMock');
+  Uri = mock.Uri;
+  vi.doMock('vscode', () => mock.createVscodeMock('/workspace'));
+  ({
+    getFolderExportTarget,
+    renderStaticEnhancements,
+    rewriteExportedDocumentLinks,
+    sanitizeExportHtml
+  } = await import('../../src/extension/preview/folderExport'));
+  ({ renderMarkdown } =
+    await import('../../src/extension/preview/markdown/markdownPipeline'));
+});
+
+describe('folderExport', () => {
+  it('keeps safe inline HTML and strips scripts like the preview sanitizer', async () => {
+    const { html } = renderMarkdown(
+      [
+        'Line one<br>line two, press <kbd>Ctrl</kbd> and see note<sup>1</sup>.',
+        '',
+        '<details><summary>More</summary>',
+        '',
+        'Hidden $x^2$ text.',
+        '',
+        '</details>',
+        '',
+        '<img src="https://example.com/a.png" onerror="alert(1)" alt="A">',
+        '',
+        '<script>alert(1)</script>'
+      ].join('\n'),
+      {
+        sourceUri: Uri.file('/workspace/docs/guide.md'),
+        webview: { asWebviewUri: (uri: unknown) => uri },
+        allowHtml: true,
+        allowRemoteImages: false,
+        maxImageMB: 8
+      }
+    );
+    const exported = renderStaticEnhancements(await sanitizeExportHtml(html), {
+      enableMath: true
+    });
+
+    expect(exported).toContain('Line one<br>line two');
+    expect(exported).toContain('<kbd>Ctrl</kbd>');
+    expect(exported).toContain('<sup>1</sup>');
+    expect(exported).toContain('<details><summary>More</summary>');
+    expect(exported).toContain('class="katex"');
+    expect(exported).toContain('alt="A"');
+    expect(exported).not.toContain('onerror');
+    expect(exported).not.toContain('<script');
+    expect(exported).not.toContain('&lt;');
+  });
+
+  it('mirrors the source tree under the output folder', () => {
+    const target = getFolderExportTarget(
+      Uri.file('/workspace/docs'),
+      Uri.file('/out'),
+      Uri.file('/workspace/docs/guide/setup.markdown'),
+      'pdf'
+    );
+    expect(target.fsPath).toBe('/out/guide/setup.pdf');
+  });
+
+  it('rewrites links to exported documents and keeps everything else', () => {
+    const exported = new Set(
+      [
+        '/workspace/docs/index.md',
+        '/workspace/docs/guide/setup.md',
+        '/workspace/docs/my guide.md'
+      ].map((file) => Uri.file(file).toString())
+    );
+    const html = [
+      '<a href="../index.md#top">Home</a>',
+      '<a class="x" href="my%20guide.md">Guide</a>',
+      '<a href="../../README.md">Readme</a>',
+      '<a href="https://example.com/a.md">Remote</a>',
+      '<a href="notes.txt">Notes</a>'
+    ].join('\n');
+
+    expect(
+      rewriteExportedDocumentLinks(
+        html.replace('my%20guide.md', 'setup.md'),
+        Uri.file('/workspace/docs/guide/setup.md'),
+        exported,
+        'html'
+      )
+    ).toBe(
+      [
+        '<a href="../index.html#top">Home</a>',
+        '<a class="x" href="setup.html">Guide</a>',
+        '<a href="../../README.md">Readme</a>',
+        '<a href="https://example.com/a.md">Remote</a>',
+        '<a href="notes.txt">Notes</a>'
+      ].join('\n')
+    );
+    expect(
+      rewriteExportedDocumentLinks(
+        '<a href="my%20guide.md?x=1">Guide</a>',
+        Uri.file('/workspace/docs/index.md'),
+        exported,
+        'pdf'
+      )
+    ).toBe('<a href="my%20guide.pdf?x=1">Guide</a>');
+  });
+
+  it('typesets math and keeps Mermaid source without the webview', () => {
+    const encode = (value: string) => Buffer.from(value).toString('base64');
+    const html = [
+      `<span class="omv-math-inline" data-source-line="1" data-math="${encode('x^2')}"></span>`,
+      `<div class="omv-mermaid" data-source-line="3" data-mermaid="${encode('graph TD; A-->B')}"></div>`
+    ].join('\n');
+
+    const rendered = renderStaticEnhancements(html, { enableMath: true });
+    expect(rendered).toContain(
+      '<span class="omv-math-inline" data-source-line="1"><span class="katex">'
+    );
+    expect(rendered).toContain(
+      '<pre data-source-line="3"><code class="language-mermaid">graph TD; A--&gt;B</code></pre>'
+    );
+    expect(renderStaticEnhancements(html, { enableMath: false })).toContain(
+      '<span class="omv-math-inline" data-source-line="1">x^2</span>'
+    );
+  });
+});
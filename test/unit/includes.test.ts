@@ -0,0 +1,174 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+let includes: any;
+let renderMarkdown: any;
+let Uri: any;
+
+const webview = {
+  asWebviewUri(uri: { toString(): string }) {
+    return { toString: () => `vscode-webview://${uri.toString()}` };
+  }
+};
+
+beforeAll(async () => {
+  const mock = await import('./helpers/vscodeMock');
+  Uri = mock.Uri;
+  vi.doMock('vscode', () => mock.createVscodeMock('/workspace'));
+  includes = await import('../../src/extension/preview/markdown/includes');
+  ({ renderMarkdown } =
+    await import('../../src/extension/preview/markdown/markdownPipeline'));
+});
+
+async function render(
+  input: string,
+  files: Record<string, string>,
+  source = '/workspace/docs/spec.md'
+) {
+  const sourceUri = Uri.file(source);
+  const read = async (uri: { path: string }) => {
+    const text = files[uri.path];
+    if (text === undefined) throw new Error('ENOENT');
+    return text;
+  };
+  const loaded = await includes.loadMarkdownIncludes(input, sourceUri, read);
+  return {
+    loaded,
+    result: renderMarkdown(input, {
+      sourceUri,
+      webview: webview as any,
+      allowHtml: true,
+      allowRemoteImages: false,
+      maxImageMB: 8,
+      includes: loaded
+    })
+  };
+}
+
+describe('includes', () => {
+  it('finds include directives outside fenced code', () => {
+    const content = [
+      '!include intro.md',
+      '{{< include "parts/api ref.md" >}}',
+      '```md',
+      '!include not-this.md',
+      '```',
+      'text !include inline.md',
+      '   !include <last.md>'
+    ].join('\n');
+    expect(includes.findIncludeDirectives(content)).toEqual([
+      { line: 0, target: 'intro.md' },
+      { line: 1, target: 'parts/api ref.md' },
+      { line: 6, target: 'last.md' }
+    ]);
+  });
+
+  it('splices included files and tags their blocks with the origin file', async () => {
+    const input = [
+      '---',
+      'title: Spec',
+      '---',
+      '# Spec',
+      '',
+      '!include parts/intro.md',
+      '',
+      'After'
+    ].join('\n');
+    const { loaded, result } = await render(input, {
+      '/workspace/docs/parts/intro.md': [
+        '---',
+        'owner: docs',
+        '---',
+        '## Intro',
+        '',
+        'See ![diagram](img/flow.png) and [api](api.md).',
+        '{{< include nested.md >}}'
+      ].join('\n'),
+      '/workspace/docs/parts/nested.md': '- [ ] nested task'
+    });
+
+    expect([...loaded.keys()]).toEqual([
+      'file:///workspace/docs/parts/intro.md',
+      'file:///workspace/docs/parts/nested.md'
+    ]);
+    expect(result.html).toContain(
+      '<h2 id="intro" tabindex="-1" data-source-line="3" data-source-line-end="4" data-source-file="parts/intro.md">'
+    );
+    expect(result.html).toContain(
+      '<li class="task-list-item" data-source-line="0" data-source-line-end="1" data-source-file="parts/nested.md">'
+    );
+    expect(result.html).toContain(
+      'data-omv-local-src="file:///workspace/docs/parts/img/flow.png"'
+    );
+    expect(result.html).toContain('href="parts/api.md"');
+    expect(result.html).toContain(
+      '<p data-source-line="7" data-source-line-end="8">After</p>'
+    );
+    expect(
+      result.toc.map((item: { id: string; line: number }) => [
+        item.id,
+        item.line
+      ])
+    ).toEqual([
+      ['spec', 3],
+      ['intro', 5]
+    ]);
+    // Links in included files are validated with those files, not with the including document.
+    expect(result.links).toEqual([]);
+  });
+
+  it('reports circular, too deep, missing and out-of-workspace includes', async () => {
+    const chain: Record<string, string> = {};
+    for (let depth = 1; depth <= includes.MAX_INCLUDE_DEPTH + 1; depth += 1) {
+      chain[`/workspace/level${depth}.md`] = `!include level${depth + 1}.md`;
+    }
+    const { result } = await render(
+      [
+        '!include a.md',
+        '!include missing.md',
+        '!include ../../outside.md',
+        '!include notes.txt',
+        '!include level1.md'
+      ].join('\n'),
+      {
+        ...chain,
+        '/workspace/a.md': '!include b.md',
+        '/workspace/b.md': '!include a.md'
+      },
+      '/workspace/root.md'
+    );
+
+    expect(result.html).toContain(
+      'Include failed: <code>a.md</code> (circular include: <code>root.md</code> → <code>a.md</code> → <code>b.md</code> → <code>a.md</code>)'
+    );
+    expect(result.html).toContain(
+      'Include failed: <code>missing.md</code> (file not found)'
+    );
+    expect(result.html).toContain(
+      'Include failed: <code>../../outside.md</code> (outside the workspace folder)'
+    );
+    expect(result.html).toContain(
+      'Include failed: <code>notes.txt</code> (not a Markdown file)'
+    );
+    expect(result.html).toContain(
+      `Include failed: <code>level${includes.MAX_INCLUDE_DEPTH + 1}.md</code> (more than ${includes.MAX_INCLUDE_DEPTH} levels of includes)`
+    );
+    expect(result.html).toContain('markdown-alert-caution');
+  });
+
+  it('stops expanding once the document reaches the line budget', async () => {
+    const repeat = (line: string, count: number) =>
+      Array.from({ length: count }, () => line).join('\n');
+    const { result } = await render(repeat('!include mid.md', 30), {
+      '/workspace/docs/mid.md': repeat('!include part.md', 10),
+      '/workspace/docs/part.md': repeat('Fragment line.', 100)
+    });
+
+    expect(result.html).toContain(
+      `Include failed: <code>part.md</code> (expanded document would exceed ${includes.MAX_INCLUDED_LINES} lines)`
+    );
+    expect(result.lineCount).toBe(30);
+    const fragments = result.html.match(/Fragment line\./g) ?? [];
+    expect(fragments.length).toBeLessThanOrEqual(includes.MAX_INCLUDED_LINES);
+    expect(fragments.length).toBeGreaterThan(includes.MAX_INCLUDED_LINES / 2);
+  });
+});
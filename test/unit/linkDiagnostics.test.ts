@@ -0,0 +1,141 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+let api: any;
+let Uri: any;
+
+const files = new Map<string, string>([
+  ['/workspace/docs/guide.md', '# Guide\n\n## Getting Started\n'],
+  ['/workspace/docs/images/logo.png', 'png'],
+  [
+    '/workspace/docs/faq.md',
+    '# FAQ\n\n<a id="install"></a>\n\nSee <a name="upgrade">upgrading</a>.\n\n<div id="support" data-id="help">\n\nAsk.\n\n</div>\n<input name="query">\n'
+  ]
+]);
+
+function createDocument(fsPath: string, text: string) {
+  const lines = text.split('\n');
+  return {
+    uri: Uri.file(fsPath),
+    lineCount: lines.length,
+    getText: () => text,
+    lineAt: (line: number) => ({ text: lines[line] ?? '' })
+  };
+}
+
+beforeAll(async () => {
+  const mock = await import('./helpers/vscodeMock');
+  Uri = mock.Uri;
+  const base = mock.createVscodeMock('/workspace');
+  vi.doMock('vscode', () => ({
+    ...base,
+    workspace: {
+      ...base.workspace,
+      getConfiguration: () => ({
+        get: <T>(_key: string, defaultValue: T) => defaultValue
+      }),
+      fs: {
+        stat: vi.fn(async (uri: { fsPath: string }) => {
+          if (files.has(uri.fsPath)) return { type: 1 };
+          if (uri.fsPath === '/workspace/docs/images') return { type: 2 };
+          throw new Error('ENOENT');
+        }),
+        readFile: vi.fn(async (uri: { fsPath: string }) =>
+          Buffer.from(files.get(uri.fsPath) ?? '', 'utf8')
+        )
+      }
+    },
+    FileType: { File: 1, Directory: 2 },
+    DiagnosticSeverity: { Error: 0, Warning: 1 },
+    Range: class {
+      constructor(
+        readonly startLine: number,
+        readonly startCharacter: number,
+        readonly endLine: number,
+        readonly endCharacter: number
+      ) {}
+    },
+    Diagnostic: class {
+      source?: string;
+      code?: string;
+      constructor(
+        readonly range: unknown,
+        readonly message: string,
+        readonly severity: number
+      ) {}
+    }
+  }));
+  api = await import('../../src/extension/linkDiagnostics');
+});
+
+describe('linkDiagnostics', () => {
+  it('reports missing files, images and heading fragments', async () => {
+    const text = [
+      '# Index',
+      '',
+      'See [guide](guide.md#getting-started) and [old](old-guide.md).',
+      '[bad anchor](guide.md#setup) [local](#index) [missing](#nope)',
+      '![logo](images/logo.png) ![gone](images/gone.png)',
+      '[folder](images) [site](https://example.com)'
+    ].join('\n');
+    const document = createDocument('/workspace/docs/index.md', text);
+
+    const diagnostics = await api.validateDocumentLinks({
+      document,
+      toc: [{ id: 'index', level: 1, text: 'Index', line: 0 }],
+      links: [
+        { kind: 'link', href: 'guide.md#getting-started', line: 2, endLine: 3 },
+        { kind: 'link', href: 'old-guide.md', line: 2, endLine: 3 },
+        { kind: 'link', href: 'guide.md#setup', line: 3, endLine: 4 },
+        { kind: 'link', href: '#index', line: 3, endLine: 4 },
+        { kind: 'link', href: '#nope', line: 3, endLine: 4 },
+        { kind: 'image', href: 'images/logo.png', line: 4, endLine: 5 },
+        { kind: 'image', href: 'images/gone.png', line: 4, endLine: 5 },
+        { kind: 'link', href: 'images', line: 5, endLine: 6 },
+        { kind: 'link', href: 'https://example.com', line: 5, endLine: 6 }
+      ]
+    });
+
+    expect(
+      diagnostics.map((d: any) => [d.code, d.message, d.range.startLine])
+    ).toEqual([
+      ['missing-file', 'Link target not found: old-guide.md', 2],
+      ['missing-heading', "No heading '#setup' in guide.md", 3],
+      ['missing-heading', "No heading '#nope' in index.md", 3],
+      ['missing-file', 'Image not found: images/gone.png', 4]
+    ]);
+    expect(diagnostics[0].range).toMatchObject({
+      startCharacter: 48,
+      endCharacter: 60
+    });
+    expect(diagnostics[0].source).toBe(api.LINK_DIAGNOSTIC_SOURCE);
+  });
+
+  it('accepts fragments that target raw HTML anchors', async () => {
+    const text = [
+      '# Index',
+      '',
+      '<span id="top"></span>',
+      '[a](faq.md#install) [b](faq.md#upgrade) [c](faq.md#support) [d](#top)',
+      '[e](faq.md#help) [f](faq.md#query)'
+    ].join('\n');
+    const document = createDocument('/workspace/docs/index.md', text);
+
+    const diagnostics = await api.validateDocumentLinks({
+      document,
+      toc: [{ id: 'index', level: 1, text: 'Index', line: 0 }],
+      links: [
+        { kind: 'link', href: 'faq.md#install', line: 3, endLine: 4 },
+        { kind: 'link', href: 'faq.md#upgrade', line: 3, endLine: 4 },
+        { kind: 'link', href: 'faq.md#support', line: 3, endLine: 4 },
+        { kind: 'link', href: '#top', line: 3, endLine: 4 },
+        { kind: 'link', href: 'faq.md#help', line: 4, endLine: 5 },
+        { kind: 'link', href: 'faq.md#query', line: 4, endLine: 5 }
+      ]
+    });
+
+    expect(diagnostics.map((d: any) => d.message)).toEqual([
+      "No heading '#help' in faq.md",
+      "No heading '#query' in faq.md"
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { isInternalMarkdownHref } from '../../src/webview-ui/app/linkPreview';
+
+let extractLinkPreviewSource: any;
+let LINK_PREVIEW_MAX_LINES: number;
+let Uri: any;
+
+beforeAll(async () => {
+  const mock = await import('./helpers/vscodeMock');
+  Uri = mock.Uri;
+  vi.doMock('vscode', () => mock.createVscodeMock('/workspace'));
+  ({ extractLinkPreviewSource, LINK_PREVIEW_MAX_LINES } =
+    await import('../../src/extension/preview/markdown/linkPreview'));
+});
+
+describe('link previews', () => {
+  const text = [
+    '---',
+    'title: Guide',
+    '---',
+    'Intro paragraph.',
+    '',
+    '## Setup',
+    '',
+    'Install it.',
+    '',
+    '### Options',
+    '',
+    'Some options.',
+    '',
+    '## Usage',
+    '',
+    'Run it.'
+  ].join('\n');
+
+  it('extracts a heading section up to the next heading of the same level', () => {
+    expect(extractLinkPreviewSource(text, 'setup')?.markdown).toBe(
+      [
+        '## Setup',
+        '',
+        'Install it.',
+        '',
+        '### Options',
+        '',
+        'Some options.'
+      ].join('\n')
+    );
+    expect(extractLinkPreviewSource(text, 'usage')?.markdown).toBe(
+      '## Usage\n\nRun it.'
+    );
+    expect(extractLinkPreviewSource(text, 'missing')).toBeUndefined();
+  });
+
+  it('starts after the frontmatter and cuts long documents at a blank line', () => {
+    expect(extractLinkPreviewSource(text, undefined)?.markdown).toMatch(
+      /^Intro paragraph\.\n\n## Setup/
+    );
+
+    const paragraphs = Array.from(
+      { length: LINK_PREVIEW_MAX_LINES },
+      (_, index) => `Line ${index}a\nLine ${index}b\n`
+    ).join('\n');
+    const preview = extractLinkPreviewSource(paragraphs, undefined).markdown;
+    expect(preview.split('\n').length).toBeLessThan(LINK_PREVIEW_MAX_LINES);
+    expect(preview.endsWith('b')).toBe(true);
+    expect(
+      extractLinkPreviewSource('---\ntitle: Empty\n---\n', undefined)
+    ).toBeUndefined();
+  });
+
+  it('cuts sections of included headings from the included file', () => {
+    const sourceUri = Uri.file('/workspace/docs/guide.md');
+    const partUri = Uri.file('/workspace/docs/parts/part.md');
+    const files = new Map([
+      [
+        partUri.toString(),
+        [
+          '---',
+          'title: Part',
+          '---',
+          '## Part',
+          '',
+          'Part intro.',
+          '',
+          '### Details',
+          '',
+          'Part details.',
+          '',
+          '### More',
+          '',
+          'More details.'
+        ].join('\n')
+      ]
+    ]);
+    const root = '# Guide\n\n!include parts/part.md\n\n## After\n\nRoot text.';
+    const includes = { sourceUri, files };
+
+    const details = extractLinkPreviewSource(root, 'details', includes);
+    expect(details.markdown).toBe('### Details\n\nPart details.');
+    expect(details.includedUri.toString()).toBe(partUri.toString());
+    expect(extractLinkPreviewSource(root, 'more', includes).markdown).toBe(
+      '### More\n\nMore details.'
+    );
+    expect(extractLinkPreviewSource(root, 'after', includes)).toEqual({
+      markdown: '## After\n\nRoot text.',
+      includedUri: undefined
+    });
+  });
+
+  it('only previews heading and relative Markdown links', () => {
+    expect(isInternalMarkdownHref('#setup')).toBe(true);
+    expect(isInternalMarkdownHref('guide.md')).toBe(true);
+    expect(isInternalMarkdownHref('../docs/My%20Guide.markdown#usage')).toBe(
+      true
+    );
+    expect(isInternalMarkdownHref('#')).toBe(false);
+    expect(isInternalMarkdownHref('image.png')).toBe(false);
+    expect(isInternalMarkdownHref('https://example.com/readme.md')).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  findRemoteImageUrls,
+  getLocalizedImageFileName,
+  rewriteRemoteImageUrls
+} from '../../src/extension/preview/localizeImages';
+
+function applyEdits(
+  text: string,
+  edits: Array<{ start: number; end: number; text: string }>
+): string {
+  let result = text;
+  for (const edit of [...edits].reverse()) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+const markdown = [
+  '# Guide',
+  '',
+  '![Logo](https://example.com/logo.png "Title") and [link](https://example.com/page)',
+  '[![badge](<https://img.example.com/badge (1).svg>)](https://example.com)',
+  '![Wiki](https://example.com/File_(1).png)',
+  '![diagram][arch]',
+  '',
+  '<img alt="hero" src="https://example.com/hero.png" srcset="https://example.com/hero@2x.png 2x, ./local.png 3x">',
+  '',
+  '```md',
+  '![example](https://example.com/in-code.png)',
+  '```',
+  '',
+  'Inline `![x](https://example.com/span.png)` code.',
+  '',
+  '[arch]: https://example.com/arch.png'
+].join('\n');
+
+describe('localizeImages', () => {
+  it('finds remote images in Markdown, reference definitions, and raw HTML outside code', () => {
+    expect(findRemoteImageUrls(markdown)).toEqual([
+      'https://example.com/logo.png',
+      'https://img.example.com/badge (1).svg',
+      'https://example.com/File_(1).png',
+      'https://example.com/arch.png',
+      'https://example.com/hero.png',
+      'https://example.com/hero@2x.png'
+    ]);
+  });
+
+  it('rewrites only the URLs that have local copies', () => {
+    const localPaths = new Map([
+      ['https://example.com/logo.png', 'assets/logo-1.png'],
+      ['https://img.example.com/badge (1).svg', 'assets/badge-1-2.svg'],
+      ['https://example.com/File_(1).png', 'assets/File_-1-3.png'],
+      ['https://example.com/arch.png', 'assets/arch-4.png'],
+      ['https://example.com/hero@2x.png', 'assets/hero-2x-5.png']
+    ]);
+
+    const rewritten = applyEdits(
+      markdown,
+      rewriteRemoteImageUrls(markdown, localPaths)
+    );
+
+    expect(rewritten).toContain('![Logo](assets/logo-1.png "Title")');
+    expect(rewritten).toContain('[link](https://example.com/page)');
+    expect(rewritten).toContain(
+      '[![badge](<assets/badge-1-2.svg>)](https://example.com)'
+    );
+    expect(rewritten).toContain('![Wiki](assets/File_-1-3.png)');
+    expect(rewritten).toContain('[arch]: assets/arch-4.png');
+    expect(rewritten).toContain(
+      '<img alt="hero" src="https://example.com/hero.png" srcset="assets/hero-2x-5.png 2x, ./local.png 3x">'
+    );
+    expect(rewritten).toContain('![example](https://example.com/in-code.png)');
+    expect(rewritten).toContain('`![x](https://example.com/span.png)`');
+  });
+
+  it('names local copies after the URL with a stable hash suffix', () => {
+    const name = getLocalizedImageFileName(
+      'https://example.com/img/My%20Logo.PNG?v=2',
+      '.png'
+    );
+    expect(name).toMatch(/^My-Logo-[0-9a-f]{8}\.png$/);
+    expect(
+      getLocalizedImageFileName(
+        'https://example.com/img/My%20Logo.PNG?v=3',
+        '.png'
+      )
+    ).not.toBe(name);
+    expect(getLocalizedImageFileName('https://example.com/', '.gif')).toMatch(
+      /^image-[0-9a-f]{8}\.gif$/
+    );
+  });
+});
@@ -1,6 +1,8 @@
 import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { readHeadingSlugs } from '../../src/extension/preview/markdown/headingSlugs';
 
 let renderMarkdown: any;
+let collectMarkdownHeadings: any;
 let Uri: any;
 const statSyncMock = vi.fn(() => {
   throw new Error('ENOENT');
@@ -13,7 +15,7 @@ beforeAll(async () => {
   vi.doMock('node:fs', () => ({
     statSync: statSyncMock
   }));
-  ({ renderMarkdown } = await import('../../src/extension/preview/markdown/markdownPipeline'));
+  ({ renderMarkdown, collectMarkdownHeadings } = await import('../../src/extension/preview/markdown/markdownPipeline'));
 });
 
 beforeEach(() => {
@@ -794,4 +796,187 @@ describe('markdownPipeline', () => {
       'data-omv-export-srcset="data:image/svg+xml;base64,PHN2Zy8+ 1x, file:///workspace/docs/images/scroll@2x.gif 2x"'
     );
   });
+
+  it('maps source lines and toc lines to editor lines when frontmatter is present', () => {
+    const sourceUri = Uri.file('/workspace/docs/frontmatter.md');
+    const webview = {
+      asWebviewUri(uri: { toString(): string }) {
+        return { toString: () => `vscode-webview://${uri.toString()}` };
+      }
+    };
+
+    const input = [
+      '---',
+      'title: Demo',
+      'tags: [a, b]',
+      '---',
+      '',
+      '# Title',
+      '',
+      'Paragraph',
+      '',
+      '```mermaid',
+      'graph TD; A-->B;',
+      '```',
+      '',
+      '$$',
+      'x = 1',
+      '$$',
+      '',
+      '    indented code',
+      '',
+      '## Next'
+    ].join('\n');
+
+    const result = renderMarkdown(input, {
+      sourceUri,
+      webview: webview as any,
+      allowHtml: true,
+      allowRemoteImages: false,
+      maxImageMB: 8
+    });
+
+    expect(result.toc.map((item: { id: string; line: number }) => [item.id, item.line])).toEqual([
+      ['title', 5],
+      ['next', 19]
+    ]);
+    expect(result.html).toContain('<h1 id="title" tabindex="-1" data-source-line="5" data-source-line-end="6"');
+    expect(result.html).toContain('<p data-source-line="7" data-source-line-end="8">Paragraph</p>');
+    expect(result.html).toContain('class="omv-mermaid" data-source-line="9" data-source-line-end="12"');
+    expect(result.html).toContain('class="omv-math-block" data-source-line="13" data-source-line-end="16"');
+    expect(result.html).toContain('<pre data-source-line="17" data-source-line-end="18"');
+  });
+
+  it('tags task list items with their source line', () => {
+    const sourceUri = Uri.file('/workspace/docs/tasks.md');
+    const webview = {
+      asWebviewUri(uri: { toString(): string }) {
+        return { toString: () => `vscode-webview://${uri.toString()}` };
+      }
+    };
+
+    const result = renderMarkdown('---\ntitle: Tasks\n---\n- [ ] first\n- [x] second\n- plain\n', {
+      sourceUri,
+      webview: webview as any,
+      allowHtml: true,
+      allowRemoteImages: false,
+      maxImageMB: 8
+    });
+
+    expect(result.html).toContain('<li class="task-list-item" data-source-line="3" data-source-line-end="4">');
+    expect(result.html).toContain('<li class="task-list-item" data-source-line="4" data-source-line-end="5">');
+    expect(result.html).toContain('<li>plain</li>');
+    expect(result.html).toContain('disabled=""');
+  });
+
+  it('keeps source lines unchanged without frontmatter', () => {
+    const sourceUri = Uri.file('/workspace/docs/plain.md');
+    const webview = {
+      asWebviewUri(uri: { toString(): string }) {
+        return { toString: () => `vscode-webview://${uri.toString()}` };
+      }
+    };
+
+    const result = renderMarkdown('# Title\n\n---\n\nText', {
+      sourceUri,
+      webview: webview as any,
+      allowHtml: true,
+      allowRemoteImages: false,
+      maxImageMB: 8
+    });
+
+    expect(result.toc[0]).toMatchObject({ id: 'title', line: 0 });
+    expect(result.html).toContain('<hr data-source-line="2" data-source-line-end="3"');
+    expect(result.html).toContain('<p data-source-line="4" data-source-line-end="5">Text</p>');
+  });
+
+  it('renders GitHub alerts as titled containers with source lines', () => {
+    const sourceUri = Uri.file('/workspace/docs/alerts.md');
+    const webview = {
+      asWebviewUri(uri: { toString(): string }) {
+        return { toString: () => `vscode-webview://${uri.toString()}` };
+      }
+    };
+
+    const input = ['> [!NOTE]', '> Useful info.', '', '> [!caution]', '', '> [!tip] not a marker'].join('\n');
+    const result = renderMarkdown(input, {
+      sourceUri,
+      webview: webview as any,
+      allowHtml: true,
+      allowRemoteImages: false,
+      maxImageMB: 8
+    });
+
+    expect(result.html).toContain('<div class="markdown-alert markdown-alert-note" data-source-line="0" data-source-line-end="2">');
+    expect(result.html).toContain('<span class="markdown-alert-icon" aria-hidden="true"></span>Note</p>');
+    expect(result.html).toContain('<p data-source-line="1" data-source-line-end="2">Useful info.</p>');
+    expect(result.html).toContain('<div class="markdown-alert markdown-alert-caution" data-source-line="3" data-source-line-end="4">');
+    expect(result.html).not.toContain('[!caution]');
+    expect(result.html).toContain('[!tip] not a marker');
+    expect(result.html).toContain('<blockquote');
+  });
+
+  it('collects link and image references with their block lines', () => {
+    const sourceUri = Uri.file('/workspace/docs/links.md');
+    const webview = {
+      asWebviewUri(uri: { toString(): string }) {
+        return { toString: () => `vscode-webview://${uri.toString()}` };
+      }
+    };
+
+    const input = ['---', 'title: Links', '---', 'Intro', 'see [guide](<my guide.md#Part>)', '', '- ![logo](img/logo.png)'].join('\n');
+    const result = renderMarkdown(input, {
+      sourceUri,
+      webview: webview as any,
+      allowHtml: true,
+      allowRemoteImages: false,
+      maxImageMB: 8
+    });
+
+    expect(result.links).toEqual([
+      { kind: 'link', href: 'my%20guide.md#Part', line: 3, endLine: 5 },
+      { kind: 'image', href: 'img/logo.png', line: 6, endLine: 7 }
+    ]);
+  });
+
+  it('collects heading ids without rendering', () => {
+    expect(collectMarkdownHeadings('---\ntitle: x\n---\n# Intro\n\n## Intro\n').map((h: any) => [h.id, h.line])).toEqual([
+      ['intro', 3],
+      ['intro-1', 5]
+    ]);
+  });
+
+  it('keeps Unicode in heading ids and supports GitHub, GitLab and VS Code slug styles', () => {
+    const text = '# 日本語の見出し\n\n## Привет, мир!\n\n## 🚀 Launch & Go\n\n## 你好\n\n## 再见\n\n## Intro\n\n## Intro\n';
+    const ids = (style?: string) => collectMarkdownHeadings(text, undefined, style).map((h: any) => h.id);
+
+    expect(ids()).toEqual(['日本語の見出し', 'привет-мир', '-launch--go', '你好', '再见', 'intro', 'intro-1']);
+    expect(ids('gitlab')).toEqual(['日本語の見出し', 'привет-мир', '-launch-go', '你好', '再见', 'intro', 'intro-1']);
+    expect(ids('vscode')).toEqual(['日本語の見出し', 'привет-мир', '🚀-launch--go', '你好', '再见', 'intro', 'intro-1']);
+  });
+
+  it('builds custom heading ids from the configured pattern and falls back to GitHub ids when it is invalid', () => {
+    const text = '# Привет, мир!\n\n## Getting Started!\n\n## API v2.1 Notes\n\n## API v2.1 Notes\n';
+    const ids = (custom: unknown) =>
+      collectMarkdownHeadings(text, undefined, readHeadingSlugs('custom', custom)).map((h: any) => h.id);
+
+    expect(ids(undefined)).toEqual(['привет-мир', 'getting-started', 'api-v21-notes', 'api-v21-notes-1']);
+    expect(ids({ remove: '[^\\p{L}\\d\\s.]', separator: '_', lowercase: false })).toEqual(['Привет_мир', 'Getting_Started', 'API_v2.1_Notes', 'API_v2.1_Notes-1']);
+    expect(ids({ remove: '[' })).toEqual(['привет-мир', 'getting-started', 'api-v21-notes', 'api-v21-notes-1']);
+  });
+
+  it('uses the same heading ids for anchors, the toc and wiki link fragments', () => {
+    const result = renderMarkdown('# Überblick\n\n## Überblick\n\nSee [[guide#Größe & Maße]].\n', {
+      sourceUri: Uri.file('/workspace/docs/readme.md'),
+      webview: { asWebviewUri: (uri: unknown) => uri },
+      allowHtml: true,
+      allowRemoteImages: false,
+      maxImageMB: 8,
+      headingSlugs: (text: string) => `h-${text.length}`
+    });
+    expect(result.toc.map((item: any) => item.id)).toEqual(['h-9', 'h-9-1']);
+    expect(result.html).toContain('<h1 id="h-9"');
+    expect(result.html).toContain('<h2 id="h-9-1"');
+    expect(result.html).toContain('href="guide.md#h-12"');
+  });
 });
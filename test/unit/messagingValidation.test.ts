@@ -47,6 +47,104 @@ describe('messaging validation', () => {
     });
   });
 
+  it('accepts task toggle messages and rejects invalid source lines', () => {
+    const msg = parseWebviewMessage({
+      type: 'toggleTask',
+      line: 4,
+      checked: true,
+      version: 7
+    });
+    expect(msg).toMatchObject({ type: 'toggleTask', line: 4, checked: true });
+    expect(() =>
+      parseWebviewMessage({
+        type: 'toggleTask',
+        line: -1,
+        checked: true,
+        version: 7
+      })
+    ).toThrow();
+  });
+
+  it('validates exportDiagram format and index', () => {
+    expect(
+      parseWebviewMessage({
+        type: 'exportDiagram',
+        format: 'svg',
+        data: '<svg/>',
+        index: 0
+      })
+    ).toMatchObject({ type: 'exportDiagram', format: 'svg' });
+    expect(() =>
+      parseWebviewMessage({
+        type: 'exportDiagram',
+        format: 'jpg',
+        data: 'abc',
+        index: 0
+      })
+    ).toThrow();
+  });
+
+  it('validates nested docxSnapshot blocks', () => {
+    expect(
+      parseWebviewMessage({
+        type: 'docxSnapshot',
+        requestId: 3,
+        blocks: [
+          {
+            type: 'list',
+            ordered: false,
+            start: 1,
+            items: [
+              {
+                checked: true,
+                blocks: [
+                  {
+                    type: 'paragraph',
+                    content: [
+                      { type: 'text', text: 'x = ' },
+                      {
+                        type: 'math',
+                        math: {
+                          type: 'frac',
+                          num: { type: 'text', text: '1' },
+                          den: { type: 'text', text: '2' }
+                        }
+                      }
+                    ]
+                  }
+                ]
+              }
+            ]
+          }
+        ]
+      })
+    ).toMatchObject({ type: 'docxSnapshot', requestId: 3 });
+    expect(() =>
+      parseWebviewMessage({
+        type: 'docxSnapshot',
+        requestId: 3,
+        blocks: [{ type: 'list', ordered: false, start: 1, items: [{}] }]
+      })
+    ).toThrow();
+  });
+
+  it('validates revealSourceRange line bounds', () => {
+    expect(
+      parseWebviewMessage({
+        type: 'revealSourceRange',
+        startLine: 2,
+        endLine: 5
+      })
+    ).toMatchObject({ type: 'revealSourceRange', startLine: 2, endLine: 5 });
+    expect(() =>
+      parseWebviewMessage({
+        type: 'revealSourceRange',
+        startLine: 2.5,
+        endLine: 5
+      })
+    ).toThrow();
+  });
+
   it('accepts valid extension render message', () => {
     const msg = parseExtensionMessage({
       type: 'render',
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+
+import { findNamedDestinationPages } from '../../src/extension/preview/pdf/pdfDestinations';
+import {
+  buildPdfContentsHtml,
+  buildPdfHeaderFooterTemplate,
+  buildPdfPrintCss,
+  parsePdfLength,
+  parsePdfMargins,
+  resolvePdfPageOptions
+} from '../../src/extension/preview/pdf/pdfOptions';
+
+const defaults = {
+  pageSize: 'A4',
+  orientation: 'portrait' as const,
+  margin: '10mm',
+  printBackground: false,
+  headerTemplate: '',
+  footerTemplate: '',
+  outline: true,
+  contentsPage: false
+};
+
+describe('pdfOptions', () => {
+  it('resolves presets and custom sizes to oriented inches', () => {
+    const a4 = resolvePdfPageOptions(defaults);
+    expect(a4.width).toBeCloseTo(8.2677, 3);
+    expect(a4.height).toBeCloseTo(11.6929, 3);
+
+    const landscape = resolvePdfPageOptions({
+      ...defaults,
+      pageSize: 'letter',
+      orientation: 'landscape'
+    });
+    expect([landscape.width, landscape.height]).toEqual([11, 8.5]);
+
+    const custom = resolvePdfPageOptions({
+      ...defaults,
+      pageSize: '6in x 4in'
+    });
+    expect([custom.width, custom.height]).toEqual([4, 6]);
+  });
+
+  it('parses CSS-style margin shorthand and rejects invalid setups', () => {
+    expect(parsePdfMargins('1in 0.5in')).toEqual({
+      top: 1,
+      right: 0.5,
+      bottom: 1,
+      left: 0.5
+    });
+    expect(parsePdfMargins('0 72pt 96px')).toEqual({
+      top: 0,
+      right: 1,
+      bottom: 1,
+      left: 1
+    });
+    expect(parsePdfLength('12')).toBeUndefined();
+    expect(parsePdfMargins('1in 1in 1in 1in 1in')).toBeUndefined();
+
+    expect(() =>
+      resolvePdfPageOptions({ ...defaults, pageSize: 'B7' })
+    ).toThrow(/Unsupported PDF page size "B7"/);
+    expect(() => resolvePdfPageOptions({ ...defaults, margin: '5in' })).toThrow(
+      /no room/
+    );
+  });
+
+  it('builds print CSS and header/footer templates', () => {
+    const css = buildPdfPrintCss(
+      resolvePdfPageOptions({
+        ...defaults,
+        pageSize: '8in x 10in',
+        margin: '1in 0.5in',
+        printBackground: true
+      })
+    );
+    expect(css).toContain(
+      '@page { size: 8in 10in; margin: 1in 0.5in 1in 0.5in; }'
+    );
+    expect(css).toContain('print-color-adjust: exact;');
+
+    const footer = buildPdfHeaderFooterTemplate(
+      '{title} <draft> – {page}/{pages} · {date}',
+      'A & B'
+    );
+    expect(footer).toContain(
+      'A &amp; B &lt;draft&gt; – <span class="pageNumber"></span>/<span class="totalPages"></span> · <span class="date"></span>'
+    );
+    expect(buildPdfHeaderFooterTemplate('  ', 'A')).toBe('<span></span>');
+  });
+
+  it('links every heading from the contents page, indented by level', () => {
+    const html = buildPdfContentsHtml([
+      { id: 'intro', level: 2, text: 'Intro & Scope', line: 0 },
+      { id: 'über', level: 3, text: 'Details', line: 4 }
+    ]);
+    expect(html).toContain(
+      '<li style="padding-left:0em"><a href="#intro"><span>Intro &amp; Scope</span><span data-omv-contents-page="intro"></span></a></li>'
+    );
+    expect(html).toContain(
+      '<li style="padding-left:1.25em"><a href="#%C3%BCber">'
+    );
+    expect(buildPdfContentsHtml([])).toBe('');
+  });
+
+  it('maps named destinations to page numbers in page-tree order', () => {
+    const pdf = Buffer.from(
+      [
+        '%PDF-1.4',
+        '1 0 obj',
+        '<</Type /Catalog /Pages 2 0 R /Dests 9 0 R>>',
+        'endobj',
+        '2 0 obj',
+        '<</Type /Pages /Kids [4 0 R 3 0 R] /Count 2>>',
+        'endobj',
+        '3 0 obj',
+        '<</Type /Page /Parent 2 0 R /Contents 5 0 R>>',
+        'endobj',
+        '4 0 obj',
+        '<</Type /Page /Parent 2 0 R>>',
+        'endobj',
+        '5 0 obj',
+        '<</Length 2>> stream',
+        'q Q',
+        'endstream',
+        'endobj',
+        '9 0 obj',
+        '<</intro [4 0 R /XYZ 0 792 0] /setup [3 0 R /XYZ 0 400 0] /caf#C3#A9 [3 0 R /XYZ 0 10 0]>>',
+        'endobj',
+        'trailer <</Root 1 0 R>>'
+      ].join('\n'),
+      'latin1'
+    );
+
+    expect(Object.fromEntries(findNamedDestinationPages(pdf))).toEqual({
+      intro: 1,
+      setup: 2,
+      café: 2
+    });
+    expect(findNamedDestinationPages(Buffer.from('not a pdf')).size).toBe(0);
+  });
+});
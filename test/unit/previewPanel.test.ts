@@ -44,13 +44,70 @@ function createWorkspaceFolder(fsPath: string) {
   };
 }
 
+function createMarkdownDocument(fsPath: string, lineCount = 1) {
+  return {
+    languageId: 'markdown',
+    uri: Uri.file(fsPath),
+    lineCount,
+    version: 1,
+    getText: () => '# Doc'
+  };
+}
+
+function createFakePanel(postMessage = vi.fn()) {
+  const disposed = createEventHook<void>();
+  const viewStateChange = createEventHook<{ webviewPanel: unknown }>();
+  const panel = {
+    title: '',
+    viewColumn: 2,
+    visible: true,
+    active: false,
+    webview: {
+      html: '',
+      cspSource: 'webview-source',
+      asWebviewUri: (uri: InstanceType<typeof Uri>) => uri,
+      postMessage,
+      onDidReceiveMessage: () => ({ dispose() {} })
+    },
+    onDidDispose: (listener: Listener<void>) => disposed.register(listener),
+    onDidChangeViewState: (listener: Listener<{ webviewPanel: unknown }>) =>
+      viewStateChange.register(listener),
+    reveal: vi.fn(),
+    dispose: vi.fn(() => disposed.fire(undefined))
+  };
+  return {
+    panel,
+    activate(): void {
+      panel.active = true;
+      viewStateChange.fire({ webviewPanel: panel });
+    }
+  };
+}
+
+async function attachTestSession(
+  controller: unknown,
+  document: ReturnType<typeof createMarkdownDocument>,
+  postMessage = vi.fn()
+) {
+  const fake = createFakePanel(postMessage);
+  const session = await (controller as any).attachSession(
+    fake.panel,
+    document,
+    undefined
+  );
+  return { ...fake, session };
+}
+
 function createPreviewPanelTestContext(options: {
   workspaceFolderPaths: string[];
   workspaceFilePath?: string;
   activeEditorPath?: string;
   activeEditorLanguageId?: string;
+  autoOpenPreview?: boolean;
   quickPickLabel?: string;
   openDialogPath?: string;
+  saveDialogPath?: string;
+  existingFilePaths?: string[];
   customCssUris?: InstanceType<typeof Uri>[];
   baseCssText?: string;
   initialPreviewUiState?: {
@@ -80,8 +137,16 @@ function createPreviewPanelTestContext(options: {
   const activeEditorChange = createEventHook<unknown>();
   const visibleRangesChange = createEventHook<unknown>();
   const update = vi.fn().mockResolvedValue(undefined);
+  const applyEdit = vi.fn().mockResolvedValue(true);
   const showInformationMessage = vi.fn().mockResolvedValue(undefined);
   const showWarningMessage = vi.fn().mockResolvedValue(undefined);
+  const showTextDocument = vi.fn().mockResolvedValue(undefined);
+  const showSaveDialog = vi
+    .fn()
+    .mockResolvedValue(
+      options.saveDialogPath ? Uri.file(options.saveDialogPath) : undefined
+    );
+  const writeFile = vi.fn().mockResolvedValue(undefined);
   const showOpenDialog = vi
     .fn()
     .mockResolvedValue(
@@ -97,7 +162,9 @@ function createPreviewPanelTestContext(options: {
         document: {
           languageId: options.activeEditorLanguageId ?? 'markdown',
           uri: Uri.file(options.activeEditorPath),
-          lineCount: 1
+          lineCount: 1,
+          version: 1,
+          getText: () => '# Doc'
         },
         viewColumn: 1
       }
@@ -116,6 +183,22 @@ function createPreviewPanelTestContext(options: {
       : undefined,
     workspaceFolders,
     textDocuments: [],
+    applyEdit,
+    fs: {
+      writeFile,
+      createDirectory: vi.fn().mockResolvedValue(undefined),
+      stat: vi.fn(async (uri: InstanceType<typeof Uri>) => {
+        if (!options.existingFilePaths?.includes(uri.fsPath)) {
+          throw new Error('ENOENT');
+        }
+        return { type: 1 };
+      })
+    },
+    openTextDocument: vi.fn(async (uri: InstanceType<typeof Uri>) =>
+      uri.fsPath.endsWith('.md')
+        ? createMarkdownDocument(uri.fsPath)
+        : { languageId: 'plaintext', uri }
+    ),
     getWorkspaceFolder(uri: InstanceType<typeof Uri>) {
       return workspaceFolders.find((folder) => {
         const relative = path.relative(folder.uri.fsPath, uri.fsPath);
@@ -128,7 +211,7 @@ function createPreviewPanelTestContext(options: {
     getConfiguration: vi.fn(() => ({
       get<T>(key: string, defaultValue: T): T {
         if (key === 'preview.autoOpen') {
-          return false as T;
+          return (options.autoOpenPreview ?? false) as T;
         }
         if (key === 'preview.useMarkdownPreviewGithubStyling') {
           return false as T;
@@ -153,6 +236,14 @@ function createPreviewPanelTestContext(options: {
     onDidCloseTextDocument: (
       listener: Listener<{ languageId: string; uri: InstanceType<typeof Uri> }>
     ) => textDocumentClose.register(listener),
+    createFileSystemWatcher: () => ({
+      onDidChange: () => ({ dispose() {} }),
+      onDidCreate: () => ({ dispose() {} }),
+      onDidDelete: () => ({ dispose() {} }),
+      dispose() {}
+    }),
+    onDidChangeWorkspaceFolders: () => ({ dispose() {} }),
+    findFiles: vi.fn(async () => []),
     onDidChangeConfiguration: (
       listener: Listener<{
         affectsConfiguration: (
@@ -168,11 +259,15 @@ function createPreviewPanelTestContext(options: {
     workspace,
     window: {
       activeTextEditor,
+      visibleTextEditors: [],
       activeColorTheme: { kind: 2 },
       showQuickPick,
       showOpenDialog,
       showInformationMessage,
       showWarningMessage,
+      showTextDocument,
+      showSaveDialog,
+      createWebviewPanel: vi.fn(() => createFakePanel().panel),
       onDidChangeActiveTextEditor: (listener: Listener<unknown>) =>
         activeEditorChange.register(listener),
       onDidChangeTextEditorVisibleRanges: (listener: Listener<unknown>) =>
@@ -181,7 +276,7 @@ function createPreviewPanelTestContext(options: {
     },
     EventEmitter,
     TreeItem: class {},
-    TreeItemCollapsibleState: { None: 0 },
+    TreeItemCollapsibleState: { None: 0, Collapsed: 1, Expanded: 2 },
     ColorThemeKind: {
       Light: 1,
       Dark: 2,
@@ -198,9 +293,38 @@ function createPreviewPanelTestContext(options: {
       WorkspaceFolder: 3
     },
     Position: class {},
-    Selection: class {},
-    Range: class {},
-    TextEditorRevealType: { InCenter: 0, AtTop: 1 },
+    Selection: class {
+      constructor(
+        readonly anchorLine?: number,
+        readonly anchorCharacter?: number,
+        readonly activeLine?: number,
+        readonly activeCharacter?: number
+      ) {}
+    },
+    Range: class {
+      constructor(
+        readonly startLine?: number,
+        readonly startCharacter?: number,
+        readonly endLine?: number,
+        readonly endCharacter?: number
+      ) {}
+    },
+    WorkspaceEdit: class {
+      readonly replacements: Array<{
+        uri: InstanceType<typeof Uri>;
+        range: unknown;
+        text: string;
+      }> = [];
+
+      replace(uri: InstanceType<typeof Uri>, range: unknown, text: string) {
+        this.replacements.push({ uri, range, text });
+      }
+    },
+    TextEditorRevealType: {
+      InCenter: 0,
+      AtTop: 1,
+      InCenterIfOutsideViewport: 2
+    },
     TabInputText: class {},
     commands: {
       executeCommand: vi.fn().mockResolvedValue(undefined)
@@ -252,8 +376,14 @@ function createPreviewPanelTestContext(options: {
   };
 
   return {
+    applyEdit,
+    showTextDocument,
+    showSaveDialog,
+    writeFile,
     changeTextDocument: textDocumentChange.fire,
+    changeActiveEditor: activeEditorChange.fire,
     changeConfiguration: configurationChange.fire,
+    changeVisibleRanges: visibleRangesChange.fire,
     closeTextDocument: textDocumentClose.fire,
     fsMock,
     globalState: {
@@ -439,33 +569,24 @@ describe('PreviewController custom CSS', () => {
         customCssUris: [cssUri]
       });
 
-    securityMock.resolveCustomCss.mockResolvedValue({
-      key: 'closed-custom-css',
-      cssTexts: []
-    });
-
     const controller = new module.PreviewController({
       extensionUri: Uri.file('/extension'),
       globalStorageUri: Uri.file('/global-storage')
     } as any);
 
     const postMessage = vi.fn();
-    (controller as any).panel = {
-      webview: {
-        postMessage
-      }
-    };
-    (controller as any).currentEditor = {
-      document: {
-        languageId: 'markdown',
-        uri: Uri.file('/workspace-a/doc.md'),
-        lineCount: 1,
-        version: 1,
-        getText: () => '# Doc'
-      }
-    };
-    (controller as any).webviewCustomCssDirty = false;
-    (controller as any).webviewCustomCssKey = 'initial-custom-css';
+    const { session } = await attachTestSession(
+      controller,
+      createMarkdownDocument('/workspace-a/doc.md'),
+      postMessage
+    );
+    session.webviewCustomCssDirty = false;
+    session.webviewCustomCssKey = 'initial-custom-css';
+    securityMock.resolveCustomCss.mockClear();
+    securityMock.resolveCustomCss.mockResolvedValue({
+      key: 'closed-custom-css',
+      cssTexts: []
+    });
 
     closeTextDocument({
       languageId: 'css',
@@ -477,7 +598,7 @@ describe('PreviewController custom CSS', () => {
     expect(securityMock.resolveCustomCss).toHaveBeenCalledWith(
       Uri.file('/workspace-a/doc.md')
     );
-    expect((controller as any).webviewCustomCssDirty).toBe(false);
+    expect(session.webviewCustomCssDirty).toBe(false);
     expect(postMessage).toHaveBeenCalledWith({
       type: 'updateCustomCss',
       cssTexts: []
@@ -493,36 +614,24 @@ describe('PreviewController custom CSS', () => {
         customCssUris: [cssUri]
       });
 
-    securityMock.resolveCustomCss.mockResolvedValue({
-      key: 'updated-custom-css',
-      cssTexts: ['.omv-content { color: red; }']
-    });
-
     const controller = new module.PreviewController({
       extensionUri: Uri.file('/extension'),
       globalStorageUri: Uri.file('/global-storage')
     } as any);
 
     const postMessage = vi.fn();
-    (controller as any).panel = {
-      webview: {
-        postMessage
-      }
-    };
-    (controller as any).currentEditor = {
-      document: {
-        languageId: 'markdown',
-        uri: Uri.file('/workspace-a/doc.md'),
-        lineCount: 1,
-        version: 1,
-        getText: () => '# Doc'
-      }
-    };
-    (controller as any).webviewCustomCssDirty = false;
-    (controller as any).webviewCustomCssKey = 'initial-custom-css';
-    (controller as any).webviewCustomCssTexts = [
-      '.omv-content { color: blue; }'
-    ];
+    const { session } = await attachTestSession(
+      controller,
+      createMarkdownDocument('/workspace-a/doc.md'),
+      postMessage
+    );
+    session.webviewCustomCssDirty = false;
+    session.webviewCustomCssKey = 'initial-custom-css';
+    session.webviewCustomCssTexts = ['.omv-content { color: blue; }'];
+    securityMock.resolveCustomCss.mockResolvedValue({
+      key: 'updated-custom-css',
+      cssTexts: ['.omv-content { color: red; }']
+    });
 
     changeTextDocument({
       document: {
@@ -550,16 +659,11 @@ describe('PreviewController custom CSS', () => {
       globalStorageUri: Uri.file('/global-storage')
     } as any);
 
-    (controller as any).currentEditor = {
-      document: {
-        languageId: 'markdown',
-        uri: Uri.file('/workspace-a/doc.md'),
-        lineCount: 1,
-        version: 1,
-        getText: () => '# Doc'
-      }
-    };
-    (controller as any).webviewCustomCssDirty = false;
+    const { session } = await attachTestSession(
+      controller,
+      createMarkdownDocument('/workspace-a/doc.md')
+    );
+    session.webviewCustomCssDirty = false;
 
     changeConfiguration({
       affectsConfiguration: (section: string) =>
@@ -568,7 +672,7 @@ describe('PreviewController custom CSS', () => {
           'offlineMarkdownViewer.preview.useMarkdownPreviewGithubStyling'
     });
 
-    expect((controller as any).webviewCustomCssDirty).toBe(true);
+    expect(session.webviewCustomCssDirty).toBe(true);
   });
 
   it('keeps custom CSS in separate style tags in standalone export HTML', async () => {
@@ -799,7 +903,11 @@ describe('PreviewController custom CSS', () => {
       globalState
     } as any);
 
-    await (controller as any).handleWebviewMessage({
+    const { session } = await attachTestSession(
+      controller,
+      createMarkdownDocument('/workspace-a/doc.md')
+    );
+    await (controller as any).handleWebviewMessage(session, {
       type: 'uiStateChanged',
       searchUiVisible: false,
       tocVisible: true
@@ -811,3 +919,549 @@ describe('PreviewController custom CSS', () => {
     });
   });
 });
+
+describe('Preview sessions', () => {
+  it('keeps a locked preview on its document while another preview follows the editor', async () => {
+    const { changeActiveEditor, module } = await loadPreviewPanelTestModule({
+      workspaceFolderPaths: ['/workspace-a']
+    });
+
+    const controller = new module.PreviewController({
+      extensionUri: Uri.file('/extension'),
+      globalStorageUri: Uri.file('/global-storage')
+    } as any);
+    const specA = createMarkdownDocument('/workspace-a/spec-a.md');
+    const specB = createMarkdownDocument('/workspace-a/spec-b.md');
+    const notes = createMarkdownDocument('/workspace-a/notes.md');
+
+    const locked = await attachTestSession(controller, specA);
+    await controller.lockPreview();
+    const following = await attachTestSession(controller, specB);
+
+    changeActiveEditor({ document: notes, viewColumn: 1 });
+
+    expect(locked.session.document.uri.fsPath).toBe('/workspace-a/spec-a.md');
+    expect(locked.panel.title).toBe('[Locked] Offline Preview: spec-a.md');
+    expect(following.session.document.uri.fsPath).toBe('/workspace-a/notes.md');
+  });
+
+  it('reuses the preview already showing the active document', async () => {
+    const { changeActiveEditor, module } = await loadPreviewPanelTestModule({
+      workspaceFolderPaths: ['/workspace-a']
+    });
+
+    const controller = new module.PreviewController({
+      extensionUri: Uri.file('/extension'),
+      globalStorageUri: Uri.file('/global-storage')
+    } as any);
+    const specA = createMarkdownDocument('/workspace-a/spec-a.md');
+    const specB = createMarkdownDocument('/workspace-a/spec-b.md');
+
+    const first = await attachTestSession(controller, specA);
+    const second = await attachTestSession(controller, specB);
+    first.session.state = {
+      toc: [{ id: 'a', level: 1, text: 'A', line: 0 }]
+    };
+    const outlines: string[][] = [];
+    controller.onOutlineChanged((toc) =>
+      outlines.push(toc.map((item) => item.id))
+    );
+
+    changeActiveEditor({ document: specA, viewColumn: 1 });
+
+    expect(first.session.document.uri.fsPath).toBe('/workspace-a/spec-a.md');
+    expect(second.session.document.uri.fsPath).toBe('/workspace-a/spec-b.md');
+    expect((controller as any).activeSession).toBe(first.session);
+    expect(outlines).toEqual([['a']]);
+  });
+
+  it('closes only the previews of a closed document', async () => {
+    const { closeTextDocument, module } = await loadPreviewPanelTestModule({
+      workspaceFolderPaths: ['/workspace-a']
+    });
+
+    const controller = new module.PreviewController({
+      extensionUri: Uri.file('/extension'),
+      globalStorageUri: Uri.file('/global-storage')
+    } as any);
+    const specA = createMarkdownDocument('/workspace-a/spec-a.md');
+    const specB = createMarkdownDocument('/workspace-a/spec-b.md');
+
+    const first = await attachTestSession(controller, specA);
+    const second = await attachTestSession(controller, specB);
+
+    closeTextDocument({ languageId: 'markdown', uri: specB.uri });
+
+    expect(second.panel.dispose).toHaveBeenCalled();
+    expect(first.panel.dispose).not.toHaveBeenCalled();
+    expect((controller as any).activeSession).toBe(first.session);
+  });
+});
+
+describe('Task list write-back', () => {
+  function createTaskDocument(version: number) {
+    const lines = ['# Tasks', '', '- [ ] draft', '> 1. [X] quoted'];
+    return {
+      ...createMarkdownDocument('/workspace-a/tasks.md', lines.length),
+      version,
+      lineAt: (line: number) => ({ text: lines[line] ?? '' })
+    };
+  }
+
+  it('toggles the checkbox on the clicked source line', async () => {
+    const { applyEdit, module } = await loadPreviewPanelTestModule({
+      workspaceFolderPaths: ['/workspace-a']
+    });
+
+    const controller = new module.PreviewController({
+      extensionUri: Uri.file('/extension'),
+      globalStorageUri: Uri.file('/global-storage')
+    } as any);
+    const { session } = await attachTestSession(
+      controller,
+      createTaskDocument(3) as any
+    );
+
+    await (controller as any).handleWebviewMessage(session, {
+      type: 'toggleTask',
+      line: 2,
+      checked: true,
+      version: 3
+    });
+    await (controller as any).handleWebviewMessage(session, {
+      type: 'toggleTask',
+      line: 3,
+      checked: false,
+      version: 3
+    });
+
+    const edits = applyEdit.mock.calls.map(
+      ([edit]) => (edit as any).replacements[0]
+    );
+    expect(edits).toEqual([
+      {
+        uri: Uri.file('/workspace-a/tasks.md'),
+        range: expect.objectContaining({ startLine: 2, startCharacter: 3 }),
+        text: 'x'
+      },
+      {
+        uri: Uri.file('/workspace-a/tasks.md'),
+        range: expect.objectContaining({ startLine: 3, startCharacter: 6 }),
+        text: ' '
+      }
+    ]);
+  });
+
+  it('rejects toggles rendered from an older document version', async () => {
+    const { applyEdit, module } = await loadPreviewPanelTestModule({
+      workspaceFolderPaths: ['/workspace-a']
+    });
+
+    const controller = new module.PreviewController({
+      extensionUri: Uri.file('/extension'),
+      globalStorageUri: Uri.file('/global-storage')
+    } as any);
+    const postMessage = vi.fn();
+    const { session } = await attachTestSession(
+      controller,
+      createTaskDocument(4) as any,
+      postMessage
+    );
+
+    await (controller as any).handleWebviewMessage(session, {
+      type: 'toggleTask',
+      line: 2,
+      checked: true,
+      version: 3
+    });
+    await (controller as any).handleWebviewMessage(session, {
+      type: 'toggleTask',
+      line: 0,
+      checked: true,
+      version: 4
+    });
+
+    expect(applyEdit).not.toHaveBeenCalled();
+    expect(postMessage).toHaveBeenCalledWith({
+      type: 'notify',
+      level: 'warning',
+      message:
+        'The document changed before the task could be updated. Try again.'
+    });
+    expect(postMessage).toHaveBeenCalledWith({
+      type: 'notify',
+      level: 'warning',
+      message: 'Could not find a task checkbox on line 1.'
+    });
+  });
+});
+
+describe('Source range reveal', () => {
+  it('selects the double-clicked block without its trailing blank lines', async () => {
+    const { showTextDocument, module } = await loadPreviewPanelTestModule({
+      workspaceFolderPaths: ['/workspace-a']
+    });
+
+    const controller = new module.PreviewController({
+      extensionUri: Uri.file('/extension'),
+      globalStorageUri: Uri.file('/global-storage')
+    } as any);
+    const lines = ['# Title', '', '- one', '- two', '', '', 'Text'];
+    const document = {
+      ...createMarkdownDocument('/workspace-a/blocks.md', lines.length),
+      lineAt: (line: number) => ({
+        text: lines[line] ?? '',
+        isEmptyOrWhitespace: !(lines[line] ?? '').trim()
+      })
+    };
+    const { session } = await attachTestSession(controller, document as any);
+    const editor = {
+      document,
+      viewColumn: 1,
+      selection: undefined as unknown,
+      revealRange: vi.fn()
+    };
+    session.editor = editor;
+
+    await (controller as any).handleWebviewMessage(session, {
+      type: 'revealSourceRange',
+      startLine: 2,
+      endLine: 6
+    });
+
+    expect(editor.selection).toMatchObject({
+      anchorLine: 2,
+      anchorCharacter: 0,
+      activeLine: 3,
+      activeCharacter: 5
+    });
+    expect(showTextDocument).toHaveBeenCalledWith(document, 1, false);
+    expect(editor.revealRange).toHaveBeenCalledWith(
+      expect.objectContaining({ startLine: 2, endLine: 3 }),
+      2
+    );
+  });
+});
+
+describe('Preview restore', () => {
+  it('revives a serialized preview for its saved document', async () => {
+    const { module, renderMarkdown } = await loadPreviewPanelTestModule({
+      workspaceFolderPaths: ['/workspace-a']
+    });
+
+    const controller = new module.PreviewController({
+      extensionUri: Uri.file('/extension'),
+      globalStorageUri: Uri.file('/global-storage')
+    } as any);
+    const { panel } = createFakePanel();
+
+    await controller.deserializeWebviewPanel(panel as any, {
+      documentUri: 'file:///workspace-a/spec.md',
+      scrollPercent: 0.5,
+      activeHeadingId: 'usage',
+      searchQuery: 'cache'
+    });
+
+    const session = (controller as any).activeSession;
+    expect(session.panel).toBe(panel);
+    expect(session.document.uri.fsPath).toBe('/workspace-a/spec.md');
+    expect(panel.webview.html).toContain('<html');
+    expect(renderMarkdown).toHaveBeenCalledTimes(1);
+    expect(panel.dispose).not.toHaveBeenCalled();
+  });
+
+  it('disposes serialized previews whose document cannot be restored', async () => {
+    const { module } = await loadPreviewPanelTestModule({
+      workspaceFolderPaths: ['/workspace-a']
+    });
+
+    const controller = new module.PreviewController({
+      extensionUri: Uri.file('/extension'),
+      globalStorageUri: Uri.file('/global-storage')
+    } as any);
+    const missing = createFakePanel();
+    const notMarkdown = createFakePanel();
+
+    await controller.deserializeWebviewPanel(missing.panel as any, undefined);
+    await controller.deserializeWebviewPanel(notMarkdown.panel as any, {
+      documentUri: 'file:///workspace-a/notes.txt'
+    });
+
+    expect(missing.panel.dispose).toHaveBeenCalled();
+    expect(notMarkdown.panel.dispose).toHaveBeenCalled();
+    expect((controller as any).activeSession).toBeUndefined();
+  });
+
+  it('waits for serialized previews before auto-opening at startup', async () => {
+    vi.useFakeTimers();
+    try {
+      const { module, vscodeMock } = await loadPreviewPanelTestModule({
+        workspaceFolderPaths: ['/workspace-a'],
+        activeEditorPath: '/workspace-a/spec.md',
+        autoOpenPreview: true
+      });
+
+      const controller = new module.PreviewController({
+        extensionUri: Uri.file('/extension'),
+        globalStorageUri: Uri.file('/global-storage')
+      } as any);
+      const { panel } = createFakePanel();
+      await controller.deserializeWebviewPanel(panel as any, {
+        documentUri: 'file:///workspace-a/spec.md'
+      });
+      await vi.runAllTimersAsync();
+
+      expect(vscodeMock.window.createWebviewPanel).not.toHaveBeenCalled();
+      expect((controller as any).sessions.map((s: any) => s.panel)).toEqual([
+        panel
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('replaces a startup auto-opened preview with the revived panel', async () => {
+    vi.useFakeTimers();
+    try {
+      const { module, vscodeMock } = await loadPreviewPanelTestModule({
+        workspaceFolderPaths: ['/workspace-a'],
+        activeEditorPath: '/workspace-a/spec.md',
+        autoOpenPreview: true
+      });
+
+      const controller = new module.PreviewController({
+        extensionUri: Uri.file('/extension'),
+        globalStorageUri: Uri.file('/global-storage')
+      } as any);
+      await vi.runAllTimersAsync();
+      expect(vscodeMock.window.createWebviewPanel).toHaveBeenCalledTimes(1);
+      const autoOpened = (controller as any).activeSession.panel;
+
+      const { panel } = createFakePanel();
+      await controller.deserializeWebviewPanel(panel as any, {
+        documentUri: 'file:///workspace-a/spec.md',
+        scrollPercent: 0.5
+      });
+
+      expect(autoOpened.dispose).toHaveBeenCalled();
+      expect(panel.dispose).not.toHaveBeenCalled();
+      expect((controller as any).sessions.map((s: any) => s.panel)).toEqual([
+        panel
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('Markdown outline', () => {
+  const toc = [
+    { id: 'intro', level: 1, text: 'Intro', line: 0 },
+    { id: 'setup', level: 2, text: 'Setup', line: 4 },
+    { id: 'deep', level: 4, text: 'Deep', line: 8 },
+    { id: 'usage', level: 2, text: 'Usage', line: 12 },
+    { id: 'appendix', level: 1, text: 'Appendix', line: 20 }
+  ];
+
+  it('nests headings by level and exposes parents for reveal', async () => {
+    const { module } = await loadPreviewPanelTestModule({
+      workspaceFolderPaths: ['/workspace-a']
+    });
+
+    const provider = new module.MarkdownOutlineProvider();
+    provider.setToc(toc);
+
+    const roots = await provider.getChildren();
+    expect(roots.map((item) => item.id)).toEqual(['intro', 'appendix']);
+    const introChildren = await provider.getChildren(roots[0] as any);
+    expect(introChildren.map((item) => item.id)).toEqual(['setup', 'usage']);
+    const setupChildren = await provider.getChildren(introChildren[0] as any);
+    expect(setupChildren.map((item) => item.id)).toEqual(['deep']);
+    expect(provider.getParent(setupChildren[0] as any)?.id).toBe('setup');
+    expect(provider.getParent(roots[1] as any)).toBeUndefined();
+  });
+
+  it('reports the heading at the top of the editor as it scrolls', async () => {
+    const { changeVisibleRanges, module } = await loadPreviewPanelTestModule({
+      workspaceFolderPaths: ['/workspace-a']
+    });
+
+    const controller = new module.PreviewController({
+      extensionUri: Uri.file('/extension'),
+      globalStorageUri: Uri.file('/global-storage')
+    } as any);
+    const document = createMarkdownDocument('/workspace-a/doc.md', 30);
+    const { session } = await attachTestSession(controller, document);
+    session.state = { toc };
+
+    const seen: Array<string | undefined> = [];
+    controller.onActiveHeadingChanged((heading) => seen.push(heading?.id));
+
+    changeVisibleRanges({
+      textEditor: { document },
+      visibleRanges: [{ start: { line: 9 } }]
+    });
+    changeVisibleRanges({
+      textEditor: { document },
+      visibleRanges: [{ start: { line: 10 } }]
+    });
+    changeVisibleRanges({
+      textEditor: { document },
+      visibleRanges: [{ start: { line: 21 } }]
+    });
+
+    expect(seen).toEqual(['deep', 'appendix']);
+  });
+});
+
+describe('Diagram export', () => {
+  it('saves PNG bytes next to the Markdown file by default', async () => {
+    const { showSaveDialog, writeFile, module } =
+      await loadPreviewPanelTestModule({
+        workspaceFolderPaths: ['/workspace-a'],
+        saveDialogPath: '/workspace-a/docs/flow.png'
+      });
+
+    const controller = new module.PreviewController({
+      extensionUri: Uri.file('/extension'),
+      globalStorageUri: Uri.file('/global-storage')
+    } as any);
+    const { session } = await attachTestSession(
+      controller,
+      createMarkdownDocument('/workspace-a/docs/guide.md')
+    );
+
+    await (controller as any).handleWebviewMessage(session, {
+      type: 'exportDiagram',
+      format: 'png',
+      data: Buffer.from('png-bytes').toString('base64'),
+      index: 1
+    });
+
+    expect(showSaveDialog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        defaultUri: expect.objectContaining({
+          path: '/workspace-a/docs/guide-diagram-2.png'
+        }),
+        filters: { 'PNG Image': ['png'] }
+      })
+    );
+    expect(writeFile).toHaveBeenCalledWith(
+      Uri.file('/workspace-a/docs/flow.png'),
+      Buffer.from('png-bytes')
+    );
+  });
+});
+
+describe('Export presets', () => {
+  async function createExportController(
+    options: Parameters<typeof createPreviewPanelTestContext>[0]
+  ) {
+    const context = await loadPreviewPanelTestModule(options);
+    const controller = new context.module.PreviewController({
+      extensionUri: Uri.file('/extension'),
+      globalStorageUri: Uri.file('/global-storage')
+    } as any);
+    const snapshot = {
+      uri: Uri.file('/workspace-a/docs/guide.md'),
+      html: '<p>Rendered</p>',
+      toc: []
+    };
+    (controller as any).resolveExportSession = async () => ({
+      state: { snapshot }
+    });
+    (controller as any).requestRenderedHtmlExportSnapshot = async () =>
+      undefined;
+    return { ...context, controller };
+  }
+
+  it('still confirms embedding images requested by document frontmatter', async () => {
+    const { controller, vscodeMock, writeFile } = await createExportController({
+      workspaceFolderPaths: ['/workspace-a']
+    });
+
+    await controller.exportHtml({
+      name: 'frontmatter',
+      options: { embedImages: true, output: 'out/${fileBasename}' },
+      embedImagesFromFrontmatter: true
+    });
+
+    expect(vscodeMock.window.showWarningMessage).toHaveBeenCalledWith(
+      expect.stringContaining('Embedding local images'),
+      { modal: true },
+      'Export'
+    );
+    expect(writeFile).not.toHaveBeenCalled();
+  });
+
+  it('asks before a preset output path replaces an existing file', async () => {
+    const { controller, vscodeMock, writeFile } = await createExportController({
+      workspaceFolderPaths: ['/workspace-a'],
+      existingFilePaths: ['/workspace-a/out/guide.html']
+    });
+
+    await controller.exportHtml({
+      name: 'handout',
+      options: { output: 'out/${fileBasenameNoExtension}' }
+    });
+
+    expect(vscodeMock.window.showWarningMessage).toHaveBeenCalledWith(
+      'out/guide.html already exists. Replace it?',
+      { modal: true },
+      'Replace'
+    );
+    expect(writeFile).not.toHaveBeenCalled();
+  });
+});
+
+describe('PDF export', () => {
+  it('warns when the print-to-pdf fallback drops DevTools-only options', async () => {
+    vi.doMock('../../src/extension/preview/pdf/devtoolsPrinter', () => ({
+      printPdfWithDevTools: vi.fn(async () => {
+        throw new Error('Printing timed out');
+      })
+    }));
+    vi.doMock('node:child_process', () => ({
+      spawn: vi.fn(() => ({
+        stderr: undefined,
+        on(event: string, listener: (code: number) => void) {
+          if (event === 'close') queueMicrotask(() => listener(0));
+        }
+      }))
+    }));
+    try {
+      const { module } = await loadPreviewPanelTestModule({
+        workspaceFolderPaths: ['/workspace-a']
+      });
+      const controller = new module.PreviewController({
+        extensionUri: Uri.file('/extension'),
+        globalStorageUri: Uri.file('/global-storage')
+      } as any);
+
+      const result = await (controller as any).tryHeadlessPdfExport(
+        Uri.file('/tmp/guide.print.html'),
+        Uri.file('/workspace-a/guide.pdf'),
+        {
+          width: 8.27,
+          height: 11.69,
+          margin: { top: 0.4, right: 0.4, bottom: 0.4, left: 0.4 },
+          printBackground: false,
+          headerTemplate: '',
+          footerTemplate: '{page} / {pages}',
+          outline: true,
+          contentsPage: true
+        },
+        'Guide'
+      );
+
+      expect(result).toEqual({
+        ok: true,
+        warning:
+          'DevTools printing failed (Printing timed out), so the PDF was printed without the footer and contents page numbers.'
+      });
+    } finally {
+      vi.doUnmock('../../src/extension/preview/pdf/devtoolsPrinter');
+      vi.doUnmock('node:child_process');
+    }
+  });
+});
@@ -0,0 +1,237 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+let RemoteImageCacheIndex: any;
+let collectBlockedRemoteImageUrls: (html: string) => string[];
+let collectUsedCacheUrls: (
+  html: string,
+  overrides: Map<string, any>
+) => string[];
+let selectEvictions: (...args: any[]) => Array<{ url: string }>;
+let Uri: any;
+
+const files = new Map<string, Buffer>();
+const cacheDir = '/workspace/.offline-markdown-preview/remote-images';
+
+beforeAll(async () => {
+  const mock = await import('./helpers/vscodeMock');
+  Uri = mock.Uri;
+  const base = mock.createVscodeMock('/workspace');
+  vi.doMock('vscode', () => ({
+    ...base,
+    workspace: {
+      ...base.workspace,
+      fs: {
+        createDirectory: vi.fn(async () => undefined),
+        stat: vi.fn(async (uri: { fsPath: string }) => {
+          if (!files.has(uri.fsPath)) throw new Error('ENOENT');
+          return { type: 1, size: files.get(uri.fsPath)?.length ?? 0 };
+        }),
+        readFile: vi.fn(async (uri: { fsPath: string }) => {
+          const data = files.get(uri.fsPath);
+          if (!data) throw new Error('ENOENT');
+          return data;
+        }),
+        writeFile: vi.fn(async (uri: { fsPath: string }, data: Uint8Array) => {
+          files.set(uri.fsPath, Buffer.from(data));
+        }),
+        delete: vi.fn(async (uri: { fsPath: string }) => {
+          files.delete(uri.fsPath);
+        })
+      }
+    }
+  }));
+  ({
+    RemoteImageCacheIndex,
+    collectBlockedRemoteImageUrls,
+    collectUsedCacheUrls,
+    selectEvictions
+  } = await import('../../src/extension/preview/remoteImageCache'));
+});
+
+beforeEach(() => {
+  files.clear();
+});
+
+describe('RemoteImageCacheIndex', () => {
+  it('persists recorded downloads for a fresh index instance', async () => {
+    const dir = Uri.file(cacheDir);
+    files.set(`${cacheDir}/abc.png`, Buffer.from('png'));
+
+    await new RemoteImageCacheIndex().record(dir, {
+      url: 'https://example.com/logo.png',
+      file: 'abc.png',
+      contentType: 'image/png',
+      size: 3,
+      fetchedAt: 1700000000000,
+      lastUsedAt: 1700000000000,
+      documents: ['file:///workspace/docs/a.md']
+    });
+
+    const reloaded = new RemoteImageCacheIndex();
+    const overrides = await reloaded.getOverrides(dir);
+    expect(overrides.get('https://example.com/logo.png')?.fsPath).toBe(
+      `${cacheDir}/abc.png`
+    );
+    expect(await reloaded.getEntries(dir)).toEqual([
+      expect.objectContaining({
+        contentType: 'image/png',
+        size: 3,
+        fetchedAt: 1700000000000,
+        documents: ['file:///workspace/docs/a.md']
+      })
+    ]);
+  });
+
+  it('drops entries whose files are missing or point outside the cache', async () => {
+    files.set(`${cacheDir}/kept.png`, Buffer.from('png'));
+    files.set(
+      `${cacheDir}/index.json`,
+      Buffer.from(
+        JSON.stringify({
+          version: 1,
+          entries: [
+            {
+              url: 'https://example.com/kept.png',
+              file: 'kept.png',
+              contentType: 'image/png',
+              size: 3,
+              fetchedAt: 1
+            },
+            {
+              url: 'https://example.com/deleted.png',
+              file: 'deleted.png',
+              contentType: 'image/png',
+              size: 3,
+              fetchedAt: 1
+            },
+            {
+              url: 'https://example.com/escape.png',
+              file: '../../secret.png',
+              contentType: 'image/png',
+              size: 3,
+              fetchedAt: 1
+            }
+          ]
+        })
+      )
+    );
+
+    const overrides = await new RemoteImageCacheIndex().getOverrides(
+      Uri.file(cacheDir)
+    );
+    expect([...overrides.keys()]).toEqual(['https://example.com/kept.png']);
+  });
+
+  it('treats an unreadable index as an empty cache', async () => {
+    files.set(`${cacheDir}/index.json`, Buffer.from('{not json'));
+
+    const overrides = await new RemoteImageCacheIndex().getOverrides(
+      Uri.file(cacheDir)
+    );
+    expect(overrides.size).toBe(0);
+  });
+
+  it('collects blocked sources and remote srcset candidates once each', () => {
+    const html = [
+      '<p><img src="" data-omv-remote-src="https://example.com/a.png" alt="a"></p>',
+      '<img src="vscode-resource://local.png" srcset="vscode-resource://local.png 1x"',
+      ' data-omv-export-srcset="file:///docs/local.png 1x, https://example.com/b@2x.png 2x, https://example.com/c@3x.png 3x"',
+      ' data-omv-remote-src="https://example.com/b@2x.png">',
+      '<img src="" data-omv-remote-src="https://example.com/a.png">',
+      '<img src="https://example.com/allowed.png">'
+    ].join('');
+
+    expect(collectBlockedRemoteImageUrls(html)).toEqual([
+      'https://example.com/a.png',
+      'https://example.com/b@2x.png',
+      'https://example.com/c@3x.png'
+    ]);
+  });
+
+  it('evicts expired entries, then the least recently used over the size limit', () => {
+    const entry = (
+      url: string,
+      size: number,
+      fetchedAt: number,
+      lastUsedAt: number
+    ) => ({
+      url,
+      file: `${url}.png`,
+      contentType: 'image/png',
+      size,
+      fetchedAt,
+      lastUsedAt,
+      documents: []
+    });
+    const entries = [
+      entry('old', 10, 0, 900),
+      entry('recent', 40, 500, 950),
+      entry('stale', 40, 500, 600),
+      entry('fresh', 40, 500, 990)
+    ];
+
+    expect(
+      selectEvictions(entries, { maxBytes: 100, maxAgeMs: 800 }, 1000).map(
+        (evicted) => evicted.url
+      )
+    ).toEqual(['old', 'stale']);
+    expect(
+      selectEvictions(entries, { maxBytes: 0, maxAgeMs: 0 }, 1000)
+    ).toEqual([]);
+  });
+
+  it('records usage per document and deletes evicted files', async () => {
+    const dir = Uri.file(cacheDir);
+    const index = new RemoteImageCacheIndex();
+    for (const [name, lastUsedAt] of [
+      ['a', 1000],
+      ['b', 2000]
+    ] as const) {
+      files.set(`${cacheDir}/${name}.png`, Buffer.from('12345'));
+      await index.record(dir, {
+        url: `https://example.com/${name}.png`,
+        file: `${name}.png`,
+        contentType: 'image/png',
+        size: 5,
+        fetchedAt: lastUsedAt,
+        lastUsedAt,
+        documents: []
+      });
+    }
+
+    // Newly referenced documents are persisted even when the timestamp is recent.
+    await index.markUsed(
+      dir,
+      ['https://example.com/a.png'],
+      Uri.file('/workspace/docs/guide.md'),
+      1500
+    );
+    const evicted = await index.evict(dir, { maxBytes: 5, maxAgeMs: 0 }, 3000);
+
+    expect(evicted.map((entry: { url: string }) => entry.url)).toEqual([
+      'https://example.com/a.png'
+    ]);
+    expect(files.has(`${cacheDir}/a.png`)).toBe(false);
+    const reloaded = await new RemoteImageCacheIndex().getEntries(dir);
+    expect(reloaded.map((entry: { url: string }) => entry.url)).toEqual([
+      'https://example.com/b.png'
+    ]);
+  });
+
+  it('maps rendered cache file references back to their URLs', () => {
+    const overrides = new Map([
+      ['https://example.com/a.png', Uri.file(`${cacheDir}/a.png`)],
+      ['https://example.com/b.png', Uri.file(`${cacheDir}/b.png`)],
+      ['https://example.com/c.png', Uri.file(`${cacheDir}/c.png`)]
+    ]);
+    const html = [
+      `<img src="x" data-omv-local-src="file://${cacheDir}/a.png">`,
+      `<img srcset="y 2x" data-omv-export-srcset="file:///docs/local.png 1x, file://${cacheDir}/c.png 2x">`
+    ].join('');
+
+    expect(collectUsedCacheUrls(html, overrides)).toEqual([
+      'https://example.com/a.png',
+      'https://example.com/c.png'
+    ]);
+  });
+});
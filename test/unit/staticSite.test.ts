@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  STATIC_SITE_SCRIPT,
+  buildStaticSiteNavigation,
+  buildStaticSitePageChrome,
+  buildStaticSiteSearchIndex,
+  htmlToSearchText,
+  renderStaticSiteSidebar
+} from '../../src/extension/preview/staticSite';
+
+const page = (path: string, title: string, order?: number) => ({
+  path,
+  title,
+  order,
+  toc: [],
+  text: ''
+});
+
+describe('staticSite', () => {
+  const pages = [
+    page('api/index.html', 'API Reference', 2),
+    page('api/client.html', 'Client'),
+    page('changelog.html', 'Changelog'),
+    page('guide/install.html', 'Install', 1),
+    page('guide/usage.html', 'Usage'),
+    page('index.html', 'Home'),
+    page('faq.html', 'FAQ', 1)
+  ];
+
+  it('builds the sidebar from folders and frontmatter title/order', () => {
+    const nav = buildStaticSiteNavigation(pages);
+    expect(
+      nav.map((node) => [node.title, node.path, node.children.length])
+    ).toEqual([
+      ['Home', 'index.html', 0],
+      ['FAQ', 'faq.html', 0],
+      ['API Reference', 'api/index.html', 1],
+      ['Changelog', 'changelog.html', 0],
+      ['guide', undefined, 2]
+    ]);
+    expect(nav[4]?.children.map((node) => node.title)).toEqual([
+      'Install',
+      'Usage'
+    ]);
+
+    const sidebar = renderStaticSiteSidebar(nav, 'guide/usage.html');
+    expect(sidebar).toContain('<a href="../index.html">Home</a>');
+    expect(sidebar).toContain(
+      '<li class="omv-site-folder"><span>guide</span><ul><li><a href="install.html">Install</a></li><li><a href="usage.html" aria-current="page">Usage</a></li></ul></li>'
+    );
+  });
+
+  it('links shared assets and the page TOC relative to each page', () => {
+    const chrome = buildStaticSitePageChrome({
+      siteTitle: 'docs',
+      homePath: 'index.html',
+      nav: buildStaticSiteNavigation(pages),
+      page: {
+        ...page('guide/usage.html', 'Usage'),
+        toc: [
+          { id: 'setup', level: 2, text: 'Set up <b>', line: 0 },
+          { id: 'über', level: 3, text: 'Details', line: 3 }
+        ]
+      }
+    });
+    expect(chrome.title).toBe('Usage – docs');
+    expect(chrome.bodyStart).toContain('data-omv-site-root="../"');
+    expect(chrome.bodyStart).toContain(
+      '<a class="omv-site-home" href="../index.html">docs</a>'
+    );
+    expect(chrome.bodyEnd).toContain(
+      '<li style="padding-left:0rem"><a href="#setup">Set up &lt;b&gt;</a></li><li style="padding-left:0.75rem"><a href="#%C3%BCber">Details</a></li>'
+    );
+    expect(chrome.bodyEnd).toContain('<script src="../search-index.js">');
+    expect(chrome.bodyEnd).toContain('<script src="../site.js">');
+  });
+
+  it('indexes page text, headings and paths for client-side search', () => {
+    expect(
+      htmlToSearchText(
+        '<h1 id="a">Fish &amp; Chips</h1><style>p{}</style><p>Caf&#233;\n<code>x&lt;y</code></p>'
+      )
+    ).toBe('Fish & Chips Café x<y');
+
+    const index = buildStaticSiteSearchIndex([
+      {
+        ...page('guide/usage.html', 'Usage'),
+        toc: [{ id: 'setup', level: 2, text: 'Setup', line: 0 }],
+        text: 'Run it'
+      }
+    ]);
+    const window: { omvSiteSearchIndex?: unknown } = {};
+    new Function('window', index)(window);
+    expect(window.omvSiteSearchIndex).toEqual([
+      {
+        title: 'Usage',
+        path: 'guide/usage.html',
+        headings: [{ id: 'setup', text: 'Setup' }],
+        text: 'Run it'
+      }
+    ]);
+    expect(() => new Function(STATIC_SITE_SCRIPT)).not.toThrow();
+  });
+});
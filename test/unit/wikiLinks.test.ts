@@ -0,0 +1,127 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+let wikiLinks: any;
+let renderMarkdown: any;
+let Uri: any;
+
+const webview = {
+  asWebviewUri(uri: { toString(): string }) {
+    return { toString: () => `vscode-webview://${uri.toString()}` };
+  }
+};
+
+beforeAll(async () => {
+  const mock = await import('./helpers/vscodeMock');
+  Uri = mock.Uri;
+  vi.doMock('vscode', () => mock.createVscodeMock('/workspace'));
+  wikiLinks = await import('../../src/extension/preview/markdown/wikiLinks');
+  ({ renderMarkdown } =
+    await import('../../src/extension/preview/markdown/markdownPipeline'));
+});
+
+function pages() {
+  return [
+    { uri: Uri.file('/workspace/notes/Getting Started.md') },
+    { uri: Uri.file('/workspace/archive/getting started.md') },
+    { uri: Uri.file('/workspace/notes/api/index.md'), title: 'API Reference' },
+    { uri: Uri.file('/workspace/guides/index.md') }
+  ];
+}
+
+describe('wiki links', () => {
+  it('parses targets, headings and labels', () => {
+    expect(wikiLinks.parseWikiLink('Page')).toEqual({
+      target: 'Page',
+      heading: undefined,
+      label: undefined
+    });
+    expect(wikiLinks.parseWikiLink(' Page # Setup | the setup ')).toEqual({
+      target: 'Page',
+      heading: 'Setup',
+      label: 'the setup'
+    });
+    expect(wikiLinks.parseWikiLink('Page\\|label')).toMatchObject({
+      target: 'Page',
+      label: 'label'
+    });
+    expect(wikiLinks.parseWikiLink('#Setup')).toMatchObject({
+      target: '',
+      heading: 'Setup'
+    });
+    expect(wikiLinks.parseWikiLink('  ')).toBeUndefined();
+  });
+
+  it('resolves by file name, path or title and prefers the closest page', () => {
+    const source = Uri.file('/workspace/notes/todo.md');
+    const resolve = (target: string) =>
+      wikiLinks.resolveWikiPage(pages(), target, source)?.path;
+
+    expect(resolve('getting started')).toBe(
+      '/workspace/notes/Getting Started.md'
+    );
+    expect(resolve('archive/Getting Started.md')).toBe(
+      '/workspace/archive/getting started.md'
+    );
+    expect(resolve('api reference')).toBe('/workspace/notes/api/index.md');
+    expect(resolve('index')).toBe('/workspace/notes/api/index.md');
+    expect(resolve('guides/index')).toBe('/workspace/guides/index.md');
+    expect(resolve('Missing')).toBeUndefined();
+    expect(
+      wikiLinks.resolveWikiPage(pages(), 'index', Uri.file('/elsewhere/a.md'))
+    ).toBeUndefined();
+  });
+
+  it('renders resolved and missing links and reports them for validation', () => {
+    const sourceUri = Uri.file('/workspace/notes/todo.md');
+    const result = renderMarkdown(
+      [
+        '# Todo',
+        '',
+        'Read [[Getting Started#First steps|the intro]], then [[#Todo]].',
+        '',
+        'Later: [[New Page]] and `[[code]]`.'
+      ].join('\n'),
+      {
+        sourceUri,
+        webview: webview as any,
+        allowHtml: true,
+        allowRemoteImages: false,
+        maxImageMB: 8,
+        resolveWikiLink: (target: string) =>
+          wikiLinks.resolveWikiPage(pages(), target, sourceUri)
+      }
+    );
+
+    expect(result.html).toContain(
+      '<a href="Getting%20Started.md#first-steps" class="omv-wiki-link" data-omv-link="1" rel="noopener noreferrer nofollow">the intro</a>'
+    );
+    expect(result.html).toContain('<a href="#todo" class="omv-wiki-link"');
+    expect(result.html).toContain(
+      '<a href="New%20Page.md" class="omv-wiki-link omv-wiki-link-missing" title="No page named &quot;New Page&quot;"'
+    );
+    expect(result.html).toContain('<code>[[code]]</code>');
+    expect(result.links).toEqual([
+      {
+        kind: 'wiki',
+        href: 'Getting%20Started.md#first-steps',
+        line: 2,
+        endLine: 3,
+        raw: '[[Getting Started#First steps|the intro]]'
+      },
+      {
+        kind: 'wiki',
+        href: '#todo',
+        line: 2,
+        endLine: 3,
+        raw: '[[#Todo]]'
+      },
+      {
+        kind: 'wiki',
+        href: 'New%20Page.md',
+        line: 4,
+        endLine: 5,
+        raw: '[[New Page]]'
+      }
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+let MarkdownWorkspaceIndex: any;
+let Uri: any;
+
+const files: Record<string, string> = {
+  '/workspace/docs/guide.md': [
+    '---',
+    'title: User Guide',
+    '---',
+    '# Guide'
+  ].join('\n'),
+  '/workspace/docs/intro.md': [
+    '# Intro',
+    '',
+    'Start with the [guide](guide.md#setup) or',
+    'the [[User Guide|handbook]].',
+    '',
+    '![flow](guide.md)'
+  ].join('\n'),
+  '/workspace/notes/todo.md': [
+    '- [ ] read [[guide]] and [[docs/guide]]',
+    '- [ ] [self](#todo) and [elsewhere](../docs/intro.md)'
+  ].join('\n'),
+  '/workspace/archive/guide.md': '# Old guide'
+};
+
+class EventEmitter {
+  private readonly listeners: Array<() => void> = [];
+  readonly event = (listener: () => void) => {
+    this.listeners.push(listener);
+    return { dispose() {} };
+  };
+  fire(): void {
+    for (const listener of this.listeners) listener();
+  }
+  dispose(): void {}
+}
+
+beforeAll(async () => {
+  const mock = await import('./helpers/vscodeMock');
+  Uri = mock.Uri;
+  vi.doMock('vscode', () => {
+    const base = mock.createVscodeMock('/workspace');
+    const disposable = { dispose() {} };
+    return {
+      ...base,
+      EventEmitter,
+      workspace: {
+        ...base.workspace,
+        findFiles: async () => Object.keys(files).map((file) => Uri.file(file)),
+        createFileSystemWatcher: () => ({
+          onDidCreate: () => disposable,
+          onDidChange: () => disposable,
+          onDidDelete: () => disposable,
+          dispose() {}
+        }),
+        onDidChangeWorkspaceFolders: () => disposable,
+        fs: {
+          readFile: async (uri: { path: string }) =>
+            Buffer.from(files[uri.path] ?? '', 'utf8')
+        }
+      }
+    };
+  });
+  ({ MarkdownWorkspaceIndex } =
+    await import('../../src/extension/workspaceIndex'));
+});
+
+describe('MarkdownWorkspaceIndex', () => {
+  it('finds backlinks from Markdown links, images and wiki links', async () => {
+    const index = new MarkdownWorkspaceIndex();
+    await index.ready();
+
+    const backlinks = index
+      .getBacklinks(Uri.file('/workspace/docs/guide.md'))
+      .map(
+        (backlink: {
+          source: { path: string };
+          line: number;
+          text: string;
+        }) => [backlink.source.path, backlink.line, backlink.text]
+      );
+    expect(backlinks).toEqual([
+      [
+        '/workspace/docs/intro.md',
+        2,
+        'Start with the [guide](guide.md#setup) or'
+      ],
+      ['/workspace/docs/intro.md', 3, 'the [[User Guide|handbook]].'],
+      ['/workspace/docs/intro.md', 5, '![flow](guide.md)'],
+      ['/workspace/notes/todo.md', 0, '- [ ] read [[guide]] and [[docs/guide]]']
+    ]);
+    expect(
+      index
+        .getBacklinks(Uri.file('/workspace/docs/intro.md'))
+        .map((backlink: { source: { path: string } }) => backlink.source.path)
+    ).toEqual(['/workspace/notes/todo.md']);
+    expect(index.getBacklinks(Uri.file('/workspace/archive/guide.md'))).toEqual(
+      []
+    );
+    index.dispose();
+  });
+});